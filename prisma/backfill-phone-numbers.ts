@@ -0,0 +1,73 @@
+// =============================================================================
+// Blink Engine - Phone Number Backfill
+// =============================================================================
+// Converts stored national phone numbers (e.g. 082 555 0100) to E.164 with
+// PHONE_DEFAULT_COUNTRY_CODE. The normalize_phone_numbers migration already
+// handles numbers in international format; values that cannot be normalized
+// are reported and left as they are. Safe to run more than once.
+
+import { PrismaClient } from '@prisma/client';
+import { normalizePhoneNumber } from '../src/utils/phone.js';
+
+const prisma = new PrismaClient();
+
+interface PhoneRow {
+    id: string;
+    phoneNumber: string | null;
+}
+
+/**
+ * Work out the new value of each row that is not in E.164 yet
+ */
+const plan = (rows: PhoneRow[], defaultCountryCode: string) => {
+    const updates: { id: string; phoneNumber: string }[] = [];
+    const skipped: string[] = [];
+
+    for (const row of rows) {
+        if (!row.phoneNumber) continue;
+
+        const normalized = normalizePhoneNumber(row.phoneNumber, defaultCountryCode);
+        if (!normalized) {
+            skipped.push(row.id);
+        } else if (normalized !== row.phoneNumber) {
+            updates.push({ id: row.id, phoneNumber: normalized });
+        }
+    }
+
+    return { updates, skipped };
+};
+
+const main = async () => {
+    const defaultCountryCode = process.env.PHONE_DEFAULT_COUNTRY_CODE;
+    if (!defaultCountryCode) {
+        throw new Error('PHONE_DEFAULT_COUNTRY_CODE must be set to convert national numbers');
+    }
+
+    const users = plan(
+        await prisma.user.findMany({ where: { phoneNumber: { not: null } }, select: { id: true, phoneNumber: true } }),
+        defaultCountryCode
+    );
+    for (const update of users.updates) {
+        await prisma.user.update({ where: { id: update.id }, data: { phoneNumber: update.phoneNumber } });
+    }
+
+    const contacts = plan(
+        await prisma.contact.findMany({ select: { id: true, phoneNumber: true } }),
+        defaultCountryCode
+    );
+    for (const update of contacts.updates) {
+        await prisma.contact.update({ where: { id: update.id }, data: { phoneNumber: update.phoneNumber } });
+    }
+
+    console.log(`Users: ${users.updates.length} updated, ${users.skipped.length} left as they are`);
+    console.log(`Contacts: ${contacts.updates.length} updated, ${contacts.skipped.length} left as they are`);
+    for (const id of users.skipped) console.log(`  user ${id}: phone number could not be normalized`);
+    for (const id of contacts.skipped) console.log(`  contact ${id}: phone number could not be normalized`);
+};
+
+main()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "sosEventId" TEXT,
+    "contactId" TEXT,
+    "channel" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_sosEventId_idx" ON "notification_deliveries"("sosEventId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_contactId_idx" ON "notification_deliveries"("contactId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_idx" ON "notification_deliveries"("status");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_sosEventId_fkey" FOREIGN KEY ("sosEventId") REFERENCES "sos_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
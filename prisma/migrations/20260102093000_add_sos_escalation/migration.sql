@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "sos_events" ADD COLUMN     "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastEscalatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "sos_acknowledgements" (
+    "id" TEXT NOT NULL,
+    "sosEventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sos_acknowledgements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sos_acknowledgements_sosEventId_idx" ON "sos_acknowledgements"("sosEventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sos_acknowledgements_sosEventId_userId_key" ON "sos_acknowledgements"("sosEventId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "sos_acknowledgements" ADD CONSTRAINT "sos_acknowledgements_sosEventId_fkey" FOREIGN KEY ("sosEventId") REFERENCES "sos_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
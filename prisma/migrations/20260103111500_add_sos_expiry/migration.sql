@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sos_events" ADD COLUMN     "expiredAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN     "sosEventId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "locations_sosEventId_timestamp_idx" ON "locations"("sosEventId", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "locations" ADD CONSTRAINT "locations_sosEventId_fkey" FOREIGN KEY ("sosEventId") REFERENCES "sos_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
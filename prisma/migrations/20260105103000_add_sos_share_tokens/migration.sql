@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "sos_share_tokens" (
+    "id" TEXT NOT NULL,
+    "sosEventId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sos_share_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sos_share_tokens_sosEventId_idx" ON "sos_share_tokens"("sosEventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sos_share_tokens_sosEventId_contactId_key" ON "sos_share_tokens"("sosEventId", "contactId");
+
+-- AddForeignKey
+ALTER TABLE "sos_share_tokens" ADD CONSTRAINT "sos_share_tokens_sosEventId_fkey" FOREIGN KEY ("sosEventId") REFERENCES "sos_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sos_events" ADD COLUMN     "armedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "sos_events_status_armedUntil_idx" ON "sos_events"("status", "armedUntil");
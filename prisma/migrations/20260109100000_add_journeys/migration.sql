@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "journeys" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "destinationLatitude" DOUBLE PRECISION NOT NULL,
+    "destinationLongitude" DOUBLE PRECISION NOT NULL,
+    "destinationName" TEXT,
+    "arrivalRadiusMeters" INTEGER NOT NULL DEFAULT 100,
+    "expectedArrivalAt" TIMESTAMP(3) NOT NULL,
+    "watchers" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "lastLatitude" DOUBLE PRECISION,
+    "lastLongitude" DOUBLE PRECISION,
+    "lastUpdateAt" TIMESTAMP(3),
+    "movedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "anchorLatitude" DOUBLE PRECISION,
+    "anchorLongitude" DOUBLE PRECISION,
+    "overdueAlertedAt" TIMESTAMP(3),
+    "stationaryAlertedAt" TIMESTAMP(3),
+    "arrivedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "sosEventId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "journeys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "journeys_userId_status_idx" ON "journeys"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "journeys_status_idx" ON "journeys"("status");
+
+-- AddForeignKey
+ALTER TABLE "journeys" ADD CONSTRAINT "journeys_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "places" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "radiusMeters" INTEGER NOT NULL DEFAULT 150,
+    "isInside" BOOLEAN NOT NULL DEFAULT false,
+    "presenceChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "places_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "places_userId_idx" ON "places"("userId");
+
+-- AddForeignKey
+ALTER TABLE "places" ADD CONSTRAINT "places_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
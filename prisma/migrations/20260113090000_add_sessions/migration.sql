@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "family" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deviceName" TEXT,
+    "platform" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("family")
+);
+
+-- AlterTable
+ALTER TABLE "sos_events" ADD COLUMN "sessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sos_events" ADD CONSTRAINT "sos_events_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("family") ON DELETE SET NULL ON UPDATE CASCADE;
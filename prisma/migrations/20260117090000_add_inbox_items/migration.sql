@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "inbox_items" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "dedupKey" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inbox_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inbox_items_userId_createdAt_idx" ON "inbox_items"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "inbox_items_userId_readAt_idx" ON "inbox_items"("userId", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbox_items_userId_dedupKey_key" ON "inbox_items"("userId", "dedupKey");
+
+-- AddForeignKey
+ALTER TABLE "inbox_items" ADD CONSTRAINT "inbox_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "delivery_jobs" (
+    "id" TEXT NOT NULL,
+    "sosEventId" TEXT,
+    "contactId" TEXT,
+    "channel" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "message" JSONB NOT NULL,
+    "priority" TEXT NOT NULL,
+    "dedupKey" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedUntil" TIMESTAMP(3),
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_dead_letters" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "sosEventId" TEXT,
+    "contactId" TEXT,
+    "channel" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "message" JSONB NOT NULL,
+    "priority" TEXT NOT NULL,
+    "dedupKey" TEXT,
+    "attempts" INTEGER NOT NULL,
+    "lastError" TEXT,
+    "replayedAt" TIMESTAMP(3),
+    "replayJobId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_dead_letters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_jobs_dedupKey_key" ON "delivery_jobs"("dedupKey");
+
+-- CreateIndex
+CREATE INDEX "delivery_jobs_status_nextAttemptAt_idx" ON "delivery_jobs"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "delivery_jobs_sosEventId_idx" ON "delivery_jobs"("sosEventId");
+
+-- CreateIndex
+CREATE INDEX "delivery_dead_letters_replayedAt_createdAt_idx" ON "delivery_dead_letters"("replayedAt", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "delivery_dead_letters_sosEventId_idx" ON "delivery_dead_letters"("sosEventId");
+
+-- AddForeignKey
+ALTER TABLE "delivery_jobs" ADD CONSTRAINT "delivery_jobs_sosEventId_fkey" FOREIGN KEY ("sosEventId") REFERENCES "sos_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_dead_letters" ADD CONSTRAINT "delivery_dead_letters_sosEventId_fkey" FOREIGN KEY ("sosEventId") REFERENCES "sos_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
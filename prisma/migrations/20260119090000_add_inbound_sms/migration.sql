@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "inbound_sms_messages" (
+    "id" TEXT NOT NULL,
+    "providerMessageId" TEXT NOT NULL,
+    "fromNumber" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "userId" TEXT,
+    "command" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'received',
+    "sosEventId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inbound_sms_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_sms_messages_providerMessageId_key" ON "inbound_sms_messages"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "inbound_sms_messages_userId_createdAt_idx" ON "inbound_sms_messages"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "inbound_sms_messages" ADD CONSTRAINT "inbound_sms_messages_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- Normalize stored phone numbers to E.164, as src/utils/phone.ts does for new input
+-- Contact linking and inbound SMS match numbers exactly, so older rows in other formats never matched.
+-- Numbers in international format ("+27 82 555 0100", "0027-82-555-0100") are rewritten here.
+-- National numbers ("082 555 0100") depend on PHONE_DEFAULT_COUNTRY_CODE and are left as they are;
+-- run `npm run db:backfill-phones` after migrating to convert them. Unparseable values are left untouched.
+
+-- Users
+WITH "normalized" AS (
+    SELECT "id",
+        CASE
+            WHEN btrim("phoneNumber", E' \t\r\n') LIKE '+%'
+                THEN '+' || regexp_replace("phoneNumber", '[^0-9]', '', 'g')
+            WHEN regexp_replace("phoneNumber", '[^0-9]', '', 'g') LIKE '00%'
+                THEN '+' || substr(regexp_replace("phoneNumber", '[^0-9]', '', 'g'), 3)
+        END AS "e164"
+    FROM "users"
+    WHERE btrim("phoneNumber", E' \t\r\n') ~ '^[0-9[:space:]().+-]+$'
+)
+UPDATE "users" AS u
+SET "phoneNumber" = n."e164",
+    "updatedAt" = CURRENT_TIMESTAMP
+FROM "normalized" AS n
+WHERE u."id" = n."id"
+  AND n."e164" ~ '^\+[1-9][0-9]{7,14}$'
+  AND u."phoneNumber" <> n."e164";
+
+-- Contacts
+WITH "normalized" AS (
+    SELECT "id",
+        CASE
+            WHEN btrim("phoneNumber", E' \t\r\n') LIKE '+%'
+                THEN '+' || regexp_replace("phoneNumber", '[^0-9]', '', 'g')
+            WHEN regexp_replace("phoneNumber", '[^0-9]', '', 'g') LIKE '00%'
+                THEN '+' || substr(regexp_replace("phoneNumber", '[^0-9]', '', 'g'), 3)
+        END AS "e164"
+    FROM "contacts"
+    WHERE btrim("phoneNumber", E' \t\r\n') ~ '^[0-9[:space:]().+-]+$'
+)
+UPDATE "contacts" AS c
+SET "phoneNumber" = n."e164",
+    "updatedAt" = CURRENT_TIMESTAMP
+FROM "normalized" AS n
+WHERE c."id" = n."id"
+  AND n."e164" ~ '^\+[1-9][0-9]{7,14}$'
+  AND c."phoneNumber" <> n."e164";
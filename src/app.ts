@@ -8,6 +8,7 @@ import helmet from 'helmet';
 import cors from 'cors';
 import { config } from './config/index.js';
 import { checkDatabaseConnection, disconnectDatabase } from './config/database.js';
+import { disconnectRedis } from './config/redis.js';
 import { logger } from './utils/logger.js';
 import { correlationIdMiddleware } from './middleware/correlation-id.middleware.js';
 import { standardRateLimiter } from './middleware/rate-limit.middleware.js';
@@ -50,9 +51,12 @@ const createApp = (): Express => {
     // Correlation ID for request tracing
     app.use(correlationIdMiddleware);
 
-    // Body parsing
-    app.use(express.json({ limit: '10mb' }));
-    app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+    // Body parsing - the raw body is kept for webhook signature checks
+    const keepRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+        req.rawBody = buf;
+    };
+    app.use(express.json({ limit: '10mb', verify: keepRawBody }));
+    app.use(express.urlencoded({ extended: true, limit: '10mb', verify: keepRawBody }));
 
     // Rate limiting (applied globally)
     app.use(standardRateLimiter);
@@ -133,6 +137,10 @@ const startServer = async (): Promise<void> => {
         const { socketService } = await import('./services/socket.service.js');
         socketService.initialize(httpServer, config.cors.origins);
 
+        // Start background workers
+        const { startWorkers, stopWorkers } = await import('./workers/index.js');
+        startWorkers();
+
         const server = httpServer.listen(config.server.port, config.server.host, () => {
             logger.info(`🚀 Blink Engine started (HTTP + WebSocket)`, {
                 port: config.server.port,
@@ -148,12 +156,17 @@ const startServer = async (): Promise<void> => {
         const gracefulShutdown = async (signal: string): Promise<void> => {
             logger.info(`Received ${signal}, starting graceful shutdown`);
 
+            // Stop background workers
+            stopWorkers();
+            socketService.close();
+
             // Stop accepting new connections
             server.close(async () => {
                 logger.info('HTTP server closed');
 
                 // Disconnect database
                 await disconnectDatabase();
+                await disconnectRedis();
 
                 logger.info('Graceful shutdown complete');
                 process.exit(0);
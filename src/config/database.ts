@@ -55,6 +55,14 @@ if (config.isDev) {
     global.prisma = prisma;
 }
 
+// Client handed to repositories while a transaction is open
+export type TransactionClient = Prisma.TransactionClient;
+
+// Run several repository calls atomically (safety flows must not half-commit)
+export const runInTransaction = <T>(fn: (tx: TransactionClient) => Promise<T>): Promise<T> => {
+    return prisma.$transaction(fn);
+};
+
 // Graceful shutdown
 export const disconnectDatabase = async (): Promise<void> => {
     await prisma.$disconnect();
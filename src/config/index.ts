@@ -21,8 +21,11 @@ const envSchema = z.object({
     JWT_ACCESS_EXPIRES_IN: z.string().default('15m'),
     JWT_REFRESH_EXPIRES_IN: z.string().default('90d'),
 
-    // Rate Limiting
+    // Redis (rate limiting, realtime fan-out and presence)
     REDIS_URL: z.string().optional(),
+
+    // Rate Limiting
+    RATE_LIMIT_REDIS_URL: z.string().optional(), // Defaults to REDIS_URL
     RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
     RATE_LIMIT_MAX_REQUESTS: z.coerce.number().default(100),
     RATE_LIMIT_AUTH_MAX_REQUESTS: z.coerce.number().default(5),
@@ -36,6 +39,72 @@ const envSchema = z.object({
 
     // Security
     BCRYPT_ROUNDS: z.coerce.number().min(10).max(14).default(12),
+
+    // Notifications
+    NOTIFICATION_DRIVER: z.enum(['local', 'webhook']).default('local'),
+    NOTIFICATION_LOCAL_FILE: z.string().optional(),
+    NOTIFICATION_WEBHOOK_API_KEY: z.string().optional(),
+    NOTIFICATION_TIMEOUT_MS: z.coerce.number().default(5000),
+    PUSH_WEBHOOK_URL: z.string().url().optional(),
+    SMS_WEBHOOK_URL: z.string().url().optional(),
+    EMAIL_WEBHOOK_URL: z.string().url().optional(),
+
+    // Mail (account emails - verification, password reset)
+    MAIL_DRIVER: z.enum(['local', 'smtp']).default('local'),
+    MAIL_FROM: z.string().default('Blink <no-reply@blink.app>'),
+    MAIL_LOCAL_FILE: z.string().optional(),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().default(587),
+    SMTP_SECURE: z.enum(['true', 'false']).default('false').transform((val) => val === 'true'),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    APP_URL: z.string().url().default('http://localhost:3000'),
+    EMAIL_VERIFICATION_TTL_HOURS: z.coerce.number().min(1).default(24),
+    PASSWORD_RESET_TTL_MINUTES: z.coerce.number().min(5).default(60),
+
+    // Phone verification
+    PHONE_DEFAULT_COUNTRY_CODE: z.string().regex(/^\d{1,3}$/).optional(), // Used for national numbers (e.g. 27)
+    PHONE_OTP_TTL_MINUTES: z.coerce.number().min(1).default(10),
+    PHONE_OTP_MAX_ATTEMPTS: z.coerce.number().min(1).default(5),
+    PHONE_OTP_RESEND_COOLDOWN_SECONDS: z.coerce.number().min(0).default(60),
+
+    // Two-factor authentication
+    TWO_FACTOR_ENCRYPTION_KEY: z.string().min(32),
+    TWO_FACTOR_ISSUER: z.string().default('Blink'),
+    TWO_FACTOR_CHALLENGE_TTL_MINUTES: z.coerce.number().min(1).default(5),
+    TWO_FACTOR_MAX_ATTEMPTS: z.coerce.number().min(1).default(5),
+
+    // Outbox
+    OUTBOX_POLL_INTERVAL_MS: z.coerce.number().default(1000),
+    OUTBOX_BATCH_SIZE: z.coerce.number().default(20),
+    OUTBOX_MAX_ATTEMPTS: z.coerce.number().default(10),
+    OUTBOX_RETENTION_HOURS: z.coerce.number().min(1).default(168),
+
+    // Notification delivery queue
+    DELIVERY_POLL_INTERVAL_MS: z.coerce.number().default(1000),
+    DELIVERY_BATCH_SIZE: z.coerce.number().default(20),
+    DELIVERY_MAX_ATTEMPTS: z.coerce.number().min(1).default(6),
+    DELIVERY_SOS_MAX_ATTEMPTS: z.coerce.number().min(1).default(15),
+
+    // Admin API (disabled unless set)
+    ADMIN_API_KEY: z.string().min(32).optional(),
+
+    // Inbound SMS commands (disabled unless set)
+    SMS_INBOUND_WEBHOOK_SECRET: z.string().min(32).optional(),
+    SMS_INBOUND_SIGNATURE_TOLERANCE_SECONDS: z.coerce.number().min(30).default(300),
+    SMS_LOCAL_SENDER_ENABLED: z.enum(['true', 'false']).default('false').transform((val) => val === 'true'),
+
+    // SOS
+    SOS_ESCALATION_MINUTES: z.coerce.number().min(1).default(3),
+    SOS_TTL_MINUTES: z.coerce.number().min(15).default(240),
+    SOS_ACTIVITY_WINDOW_MINUTES: z.coerce.number().min(1).default(30),
+    SOS_SHARE_TOKEN_SECRET: z.string().min(32),
+    SOS_SHARE_TOKEN_TTL_HOURS: z.coerce.number().min(1).default(24),
+    SOS_VIEWER_URL: z.string().url().default('http://localhost:3000/api/v1/sos-share'),
+
+    // Journeys
+    JOURNEY_OVERDUE_GRACE_MINUTES: z.coerce.number().min(0).default(5),
+    JOURNEY_STATIONARY_MINUTES: z.coerce.number().min(1).default(10),
 });
 
 // Parse and validate environment variables
@@ -106,9 +175,15 @@ export const config = {
         },
     },
 
+    redis: {
+        get url() {
+            return getConfig().REDIS_URL;
+        },
+    },
+
     rateLimit: {
         get redisUrl() {
-            return getConfig().REDIS_URL;
+            return getConfig().RATE_LIMIT_REDIS_URL ?? getConfig().REDIS_URL;
         },
         get windowMs() {
             return getConfig().RATE_LIMIT_WINDOW_MS;
@@ -142,6 +217,174 @@ export const config = {
             return getConfig().BCRYPT_ROUNDS;
         },
     },
+
+    notifications: {
+        get driver() {
+            return getConfig().NOTIFICATION_DRIVER;
+        },
+        get localFile() {
+            return getConfig().NOTIFICATION_LOCAL_FILE;
+        },
+        get webhookApiKey() {
+            return getConfig().NOTIFICATION_WEBHOOK_API_KEY;
+        },
+        get timeoutMs() {
+            return getConfig().NOTIFICATION_TIMEOUT_MS;
+        },
+        get pushWebhookUrl() {
+            return getConfig().PUSH_WEBHOOK_URL;
+        },
+        get smsWebhookUrl() {
+            return getConfig().SMS_WEBHOOK_URL;
+        },
+        get emailWebhookUrl() {
+            return getConfig().EMAIL_WEBHOOK_URL;
+        },
+    },
+
+    mail: {
+        get driver() {
+            return getConfig().MAIL_DRIVER;
+        },
+        get from() {
+            return getConfig().MAIL_FROM;
+        },
+        get localFile() {
+            return getConfig().MAIL_LOCAL_FILE;
+        },
+        get smtpHost() {
+            return getConfig().SMTP_HOST;
+        },
+        get smtpPort() {
+            return getConfig().SMTP_PORT;
+        },
+        get smtpSecure() {
+            return getConfig().SMTP_SECURE;
+        },
+        get smtpUser() {
+            return getConfig().SMTP_USER;
+        },
+        get smtpPassword() {
+            return getConfig().SMTP_PASSWORD;
+        },
+        get appUrl() {
+            return getConfig().APP_URL;
+        },
+        get emailVerificationTtlHours() {
+            return getConfig().EMAIL_VERIFICATION_TTL_HOURS;
+        },
+        get passwordResetTtlMinutes() {
+            return getConfig().PASSWORD_RESET_TTL_MINUTES;
+        },
+    },
+
+    phone: {
+        get defaultCountryCode() {
+            return getConfig().PHONE_DEFAULT_COUNTRY_CODE;
+        },
+        get otpTtlMinutes() {
+            return getConfig().PHONE_OTP_TTL_MINUTES;
+        },
+        get otpMaxAttempts() {
+            return getConfig().PHONE_OTP_MAX_ATTEMPTS;
+        },
+        get otpResendCooldownSeconds() {
+            return getConfig().PHONE_OTP_RESEND_COOLDOWN_SECONDS;
+        },
+    },
+
+    twoFactor: {
+        get encryptionKey() {
+            return getConfig().TWO_FACTOR_ENCRYPTION_KEY;
+        },
+        get issuer() {
+            return getConfig().TWO_FACTOR_ISSUER;
+        },
+        get challengeTtlMinutes() {
+            return getConfig().TWO_FACTOR_CHALLENGE_TTL_MINUTES;
+        },
+        get maxAttempts() {
+            return getConfig().TWO_FACTOR_MAX_ATTEMPTS;
+        },
+    },
+
+    outbox: {
+        get pollIntervalMs() {
+            return getConfig().OUTBOX_POLL_INTERVAL_MS;
+        },
+        get batchSize() {
+            return getConfig().OUTBOX_BATCH_SIZE;
+        },
+        get maxAttempts() {
+            return getConfig().OUTBOX_MAX_ATTEMPTS;
+        },
+        get retentionHours() {
+            return getConfig().OUTBOX_RETENTION_HOURS;
+        },
+    },
+
+    delivery: {
+        get pollIntervalMs() {
+            return getConfig().DELIVERY_POLL_INTERVAL_MS;
+        },
+        get batchSize() {
+            return getConfig().DELIVERY_BATCH_SIZE;
+        },
+        get maxAttempts() {
+            return getConfig().DELIVERY_MAX_ATTEMPTS;
+        },
+        get sosMaxAttempts() {
+            return getConfig().DELIVERY_SOS_MAX_ATTEMPTS;
+        },
+    },
+
+    admin: {
+        get apiKey() {
+            return getConfig().ADMIN_API_KEY;
+        },
+    },
+
+    inboundSms: {
+        get webhookSecret() {
+            return getConfig().SMS_INBOUND_WEBHOOK_SECRET;
+        },
+        get signatureToleranceSeconds() {
+            return getConfig().SMS_INBOUND_SIGNATURE_TOLERANCE_SECONDS;
+        },
+        get localSenderEnabled() {
+            return getConfig().SMS_LOCAL_SENDER_ENABLED;
+        },
+    },
+
+    sos: {
+        get escalationMinutes() {
+            return getConfig().SOS_ESCALATION_MINUTES;
+        },
+        get ttlMinutes() {
+            return getConfig().SOS_TTL_MINUTES;
+        },
+        get activityWindowMinutes() {
+            return getConfig().SOS_ACTIVITY_WINDOW_MINUTES;
+        },
+        get shareTokenSecret() {
+            return getConfig().SOS_SHARE_TOKEN_SECRET;
+        },
+        get shareTokenTtlHours() {
+            return getConfig().SOS_SHARE_TOKEN_TTL_HOURS;
+        },
+        get viewerUrl() {
+            return getConfig().SOS_VIEWER_URL;
+        },
+    },
+
+    journeys: {
+        get overdueGraceMinutes() {
+            return getConfig().JOURNEY_OVERDUE_GRACE_MINUTES;
+        },
+        get stationaryMinutes() {
+            return getConfig().JOURNEY_STATIONARY_MINUTES;
+        },
+    },
 };
 
 export type Config = typeof config;
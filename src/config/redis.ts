@@ -0,0 +1,73 @@
+// =============================================================================
+// Blink Engine - Redis Client
+// =============================================================================
+// Shared ioredis connections, only created when REDIS_URL is configured
+
+import { Redis } from 'ioredis';
+import { config } from './index.js';
+import { logger } from '../utils/logger.js';
+
+let client: Redis | null = null;
+let rateLimitClient: Redis | null = null;
+const subscribers: Redis[] = [];
+
+// Create a connection with error logging (ioredis reconnects on its own)
+const createRedisClient = (name: string, url: string = config.redis.url!): Redis => {
+    const redis = new Redis(url, { lazyConnect: false });
+
+    redis.on('error', (error: Error) => {
+        logger.error('Redis error', { connection: name, message: error.message });
+    });
+
+    return redis;
+};
+
+// Whether Redis is configured - callers fall back to in-process state otherwise
+export const isRedisEnabled = (): boolean => Boolean(config.redis.url);
+
+// Redis is configured but (re)connecting - commands would queue until they time out
+export const isRedisUnavailable = (redis: Redis | null): boolean => redis !== null && redis.status !== 'ready';
+
+// Shared command connection, or null when Redis is not configured
+export const getRedis = (): Redis | null => {
+    if (!isRedisEnabled()) return null;
+
+    if (!client) {
+        client = createRedisClient('main');
+    }
+    return client;
+};
+
+// Rate limit counters, or null when no rate limit Redis is configured
+// Shares the main connection unless RATE_LIMIT_REDIS_URL points elsewhere
+export const getRateLimitRedis = (): Redis | null => {
+    const url = config.rateLimit.redisUrl;
+    if (!url) return null;
+    if (url === config.redis.url) return getRedis();
+
+    if (!rateLimitClient) {
+        rateLimitClient = createRedisClient('rate-limit', url);
+    }
+    return rateLimitClient;
+};
+
+// Dedicated connection for pub/sub (a subscribed connection cannot run commands)
+export const createRedisSubscriber = (): Redis | null => {
+    if (!isRedisEnabled()) return null;
+
+    const subscriber = createRedisClient(`subscriber-${subscribers.length + 1}`);
+    subscribers.push(subscriber);
+    return subscriber;
+};
+
+// Graceful shutdown
+export const disconnectRedis = async (): Promise<void> => {
+    const connections = [...(client ? [client] : []), ...(rateLimitClient ? [rateLimitClient] : []), ...subscribers];
+    if (connections.length === 0) return;
+
+    await Promise.all(connections.map((redis) => redis.quit().catch(() => undefined)));
+    client = null;
+    rateLimitClient = null;
+    subscribers.length = 0;
+    logger.info('Redis disconnected');
+};
@@ -0,0 +1,107 @@
+// =============================================================================
+// Blink Engine - Admin Controller
+// =============================================================================
+// Operator HTTP handlers (dead-lettered notification deliveries)
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { deliveryQueueService } from '../services/delivery-queue.service.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const deadLettersQuerySchema = z.object({
+    includeReplayed: z.enum(['true', 'false']).optional(),
+    channel: z.enum(['push', 'sms', 'email']).optional(),
+    sosEventId: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const idParamSchema = z.object({
+    id: z.string().min(1),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type DeadLettersQuery = z.infer<typeof deadLettersQuerySchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * GET /v1/admin/dead-letters
+ * List deliveries that failed every attempt
+ */
+export const listDeadLetters = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const query = req.query as unknown as DeadLettersQuery;
+        const result = await deliveryQueueService.listDeadLetters({
+            ...query,
+            includeReplayed: query.includeReplayed === 'true',
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/admin/dead-letters/:id
+ * Get a dead letter
+ */
+export const getDeadLetter = async (
+    req: Request<{ id: string }>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await deliveryQueueService.getDeadLetter(req.params.id);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/admin/dead-letters/:id/replay
+ * Queue a dead letter again
+ */
+export const replayDeadLetter = async (
+    req: Request<{ id: string }>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await deliveryQueueService.replayDeadLetter(req.params.id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.status(202).json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -5,30 +5,62 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { authService } from '../services/auth.service.js';
+import { authService, SessionContext } from '../services/auth.service.js';
+import { emailVerificationService } from '../services/email-verification.service.js';
 import { logger } from '../utils/logger.js';
 
 // =============================================================================
 // Request Schemas
 // =============================================================================
 
+const deviceSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    platform: z.enum(['ios', 'android', 'web']).optional(),
+});
+
 export const registerSchema = z.object({
     email: z.string().email('Invalid email address'),
     password: z.string().min(8, 'Password must be at least 8 characters'),
     name: z.string().min(1, 'Name is required'),
     surname: z.string().min(1, 'Surname is required'),
     phoneNumber: z.string().optional(),
+    device: deviceSchema.optional(),
 });
 
 export const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
     password: z.string().min(1, 'Password is required'),
+    device: deviceSchema.optional(),
 });
 
 export const refreshSchema = z.object({
     refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1, 'Verification token is required'),
+});
+
+export const verifyTwoFactorSchema = z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: z.string().min(1, 'Code is required'),
+    device: deviceSchema.optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+    email: z.string().email('Invalid email address'),
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1, 'Reset token is required'),
+    password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+export const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
 // =============================================================================
 // Request Types
 // =============================================================================
@@ -36,6 +68,26 @@ export const refreshSchema = z.object({
 export type RegisterRequest = z.infer<typeof registerSchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type RefreshRequest = z.infer<typeof refreshSchema>;
+export type VerifyEmailRequest = z.infer<typeof verifyEmailSchema>;
+export type VerifyTwoFactorRequest = z.infer<typeof verifyTwoFactorSchema>;
+export type ForgotPasswordRequest = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordRequest = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Device details for a new session
+ */
+const getSessionContext = (req: Request<unknown, unknown, unknown>, device?: z.infer<typeof deviceSchema>): SessionContext => ({
+    correlationId: req.correlationId,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+    deviceName: device?.name,
+    platform: device?.platform,
+});
 
 // =============================================================================
 // Handlers
@@ -51,7 +103,8 @@ export const register = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const result = await authService.register(req.body);
+        const { device, ...input } = req.body;
+        const result = await authService.register(input, getSessionContext(req, device));
 
         if (!result.success) {
             throw result.error;
@@ -78,7 +131,48 @@ export const login = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const result = await authService.login(req.body.email, req.body.password);
+        const result = await authService.login(
+            req.body.email,
+            req.body.password,
+            getSessionContext(req, req.body.device)
+        );
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        if ('user' in result.data) {
+            logger.info('User logged in', {
+                correlationId: req.correlationId,
+                userId: result.data.user.id,
+            });
+        } else {
+            logger.info('Two-factor challenge issued', {
+                correlationId: req.correlationId,
+            });
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/2fa/verify
+ * Exchange a login challenge and an authenticator (or recovery) code for tokens
+ */
+export const verifyTwoFactor = async (
+    req: Request<unknown, unknown, VerifyTwoFactorRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await authService.completeTwoFactorLogin(
+            req.body.challengeToken,
+            req.body.code,
+            getSessionContext(req, req.body.device)
+        );
 
         if (!result.success) {
             throw result.error;
@@ -87,6 +181,7 @@ export const login = async (
         logger.info('User logged in', {
             correlationId: req.correlationId,
             userId: result.data.user.id,
+            twoFactor: true,
         });
 
         res.json({ data: result.data });
@@ -105,7 +200,11 @@ export const refresh = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const result = await authService.refreshTokens(req.body.refreshToken);
+        const result = await authService.refreshTokens(req.body.refreshToken, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
 
         if (!result.success) {
             throw result.error;
@@ -123,7 +222,7 @@ export const refresh = async (
 
 /**
  * POST /v1/auth/logout
- * Revoke refresh token
+ * Sign out the current session
  */
 export const logout = async (
     req: Request,
@@ -132,7 +231,7 @@ export const logout = async (
 ): Promise<void> => {
     try {
         const userId = req.userId!;
-        await authService.logout(userId);
+        await authService.logout(userId, req.sessionId);
 
         logger.info('User logged out', {
             correlationId: req.correlationId,
@@ -145,6 +244,61 @@ export const logout = async (
     }
 };
 
+/**
+ * GET /v1/auth/sessions
+ * List the devices the user is signed in on
+ */
+export const listSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await authService.listSessions(req.userId!, req.sessionId);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * DELETE /v1/auth/sessions/:family
+ * Sign out one of the user's devices
+ */
+export const revokeSession = async (
+    req: Request<{ family: string }>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await authService.revokeSession(userId, req.params.family, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Session revoked', {
+            correlationId: req.correlationId,
+            userId,
+            family: req.params.family,
+        });
+
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
+
 /**
  * GET /v1/auth/me
  * Get current authenticated user
@@ -167,3 +321,155 @@ export const me = async (
         next(error);
     }
 };
+
+/**
+ * POST /v1/auth/verify-email
+ * Confirm the email address with the token from the verification email
+ */
+export const verifyEmail = async (
+    req: Request<unknown, unknown, VerifyEmailRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await emailVerificationService.confirmEmail(req.body.token, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Email verified', {
+            correlationId: req.correlationId,
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/verify-email/resend
+ * Send a new verification email to the current user
+ */
+export const resendVerificationEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await emailVerificationService.resendVerification(userId);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Verification email resent', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.status(202).json({ success: true });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/password/forgot
+ * Email a password reset link (same response whether or not the account exists)
+ */
+export const forgotPassword = async (
+    req: Request<unknown, unknown, ForgotPasswordRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await authService.requestPasswordReset(req.body.email, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.status(202).json({ success: true });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/password/reset
+ * Set a new password with the emailed token - signs out every session
+ */
+export const resetPassword = async (
+    req: Request<unknown, unknown, ResetPasswordRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await authService.resetPassword(req.body.token, req.body.password, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Password reset', {
+            correlationId: req.correlationId,
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/password/change
+ * Change the password - signs out every other session and returns new tokens
+ */
+export const changePassword = async (
+    req: Request<unknown, unknown, ChangePasswordRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await authService.changePassword(
+            userId,
+            req.body.currentPassword,
+            req.body.newPassword,
+            {
+                correlationId: req.correlationId,
+                ipAddress: req.ip,
+                userAgent: req.get('user-agent'),
+                sessionId: req.sessionId,
+            }
+        );
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Password changed', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,178 @@
+// =============================================================================
+// Blink Engine - Check-in Controller
+// =============================================================================
+// Scheduled safety check-in HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { checkInService } from '../services/check-in.service.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const checkInIdParamSchema = z.object({
+    id: z.string().cuid('Invalid ID format'),
+});
+
+export const createCheckInSchema = z.object({
+    dueAt: z.string().datetime().or(z.date()).transform((val) => new Date(val)),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    note: z.string().max(280).optional(),
+});
+
+export const extendCheckInSchema = z.object({
+    dueAt: z.string().datetime().or(z.date()).transform((val) => new Date(val)),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type CheckInIdParam = z.infer<typeof checkInIdParamSchema>;
+export type CreateCheckInRequest = z.infer<typeof createCheckInSchema>;
+export type ExtendCheckInRequest = z.infer<typeof extendCheckInSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * POST /v1/check-ins
+ * Schedule a check-in - an SOS fires if it is not confirmed by dueAt
+ */
+export const createCheckIn = async (
+    req: Request<unknown, unknown, CreateCheckInRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await checkInService.createCheckIn(userId, req.body, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Check-in scheduled', {
+            correlationId: req.correlationId,
+            userId,
+            checkInId: result.data.id,
+            dueAt: result.data.dueAt,
+        });
+
+        res.status(201).json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/check-ins
+ * List the current user's recent check-ins
+ */
+export const listCheckIns = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await checkInService.getCheckIns(userId);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/check-ins/:id/extend
+ * Move a pending check-in to a new time
+ */
+export const extendCheckIn = async (
+    req: Request<CheckInIdParam, unknown, ExtendCheckInRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await checkInService.extendCheckIn(userId, req.params.id, req.body.dueAt, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/check-ins/:id/confirm
+ * Confirm the user is safe
+ */
+export const confirmCheckIn = async (
+    req: Request<CheckInIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await checkInService.confirmCheckIn(userId, req.params.id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/check-ins/:id/cancel
+ * Call off a pending check-in
+ */
+export const cancelCheckIn = async (
+    req: Request<CheckInIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await checkInService.cancelCheckIn(userId, req.params.id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
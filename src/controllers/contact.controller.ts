@@ -27,6 +27,7 @@ export const updateContactSchema = z.object({
     name: z.string().min(1).optional(),
     phoneNumber: z.string().min(1).optional(),
     email: z.string().email().optional(),
+    isMuted: z.boolean().optional(),
 });
 
 // =============================================================================
@@ -0,0 +1,99 @@
+// =============================================================================
+// Blink Engine - Device Controller
+// =============================================================================
+// Push token registry HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { deviceService } from '../services/device.service.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const registerDeviceSchema = z.object({
+    provider: z.enum(['fcm', 'apns']),
+    token: z.string().min(1, 'Token is required').max(4096),
+});
+
+export const unregisterDeviceSchema = z.object({
+    token: z.string().min(1, 'Token is required').max(4096),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type RegisterDeviceRequest = z.infer<typeof registerDeviceSchema>;
+export type UnregisterDeviceRequest = z.infer<typeof unregisterDeviceSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * POST /v1/devices
+ * Register the push token of this app install
+ */
+export const registerDevice = async (
+    req: Request<unknown, unknown, RegisterDeviceRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await deviceService.registerDevice(userId, req.sessionId, req.body);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Device registered', {
+            correlationId: req.correlationId,
+            userId,
+            deviceId: result.data.id,
+            provider: result.data.provider,
+        });
+
+        res.status(201).json({
+            data: {
+                id: result.data.id,
+                provider: result.data.provider,
+                sessionId: result.data.sessionId,
+                createdAt: result.data.createdAt,
+                updatedAt: result.data.updatedAt,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * DELETE /v1/devices
+ * Stop pushes to an app install
+ */
+export const unregisterDevice = async (
+    req: Request<unknown, unknown, UnregisterDeviceRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await deviceService.unregisterDevice(userId, req.body.token);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Device unregistered', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,121 @@
+// =============================================================================
+// Blink Engine - Inbox Controller
+// =============================================================================
+// Notification inbox HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { inboxService } from '../services/inbox.service.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const inboxQuerySchema = z.object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const markReadSchema = z.object({
+    ids: z.array(z.string().min(1)).min(1).max(100),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type InboxQuery = z.infer<typeof inboxQuerySchema>;
+export type MarkReadRequest = z.infer<typeof markReadSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * GET /v1/inbox
+ * List inbox items, newest first
+ */
+export const listItems = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { cursor, limit } = req.query as unknown as InboxQuery;
+        const result = await inboxService.listItems(req.userId!, { cursor, limit });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/inbox/unread-count
+ * Number of unread items (badge)
+ */
+export const getUnreadCount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await inboxService.getUnreadCount(req.userId!);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: { unreadCount: result.data } });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/inbox/read
+ * Mark items as read
+ */
+export const markRead = async (
+    req: Request<unknown, unknown, MarkReadRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await inboxService.markRead(req.userId!, req.body.ids);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: { unreadCount: result.data } });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/inbox/read-all
+ * Mark every item as read
+ */
+export const markAllRead = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await inboxService.markAllRead(req.userId!);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: { unreadCount: result.data } });
+    } catch (error) {
+        next(error);
+    }
+};
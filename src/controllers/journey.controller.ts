@@ -0,0 +1,154 @@
+// =============================================================================
+// Blink Engine - Journey Controller
+// =============================================================================
+// "Walk me home" journey HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { journeyService } from '../services/journey.service.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+const coordinatesSchema = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+});
+
+export const journeyIdParamSchema = z.object({
+    id: z.string().cuid('Invalid ID format'),
+});
+
+export const startJourneySchema = z.object({
+    origin: coordinatesSchema,
+    destination: coordinatesSchema.extend({
+        name: z.string().max(200).optional(),
+    }),
+    expectedArrivalAt: z.string().datetime().or(z.date()).transform((val) => new Date(val)),
+    contactIds: z.array(z.string().cuid()).min(1).max(20),
+    arrivalRadiusMeters: z.number().int().min(20).max(2000).optional(),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type JourneyIdParam = z.infer<typeof journeyIdParamSchema>;
+export type StartJourneyRequest = z.infer<typeof startJourneySchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * POST /v1/journeys
+ * Start a journey shared with chosen contacts
+ */
+export const startJourney = async (
+    req: Request<unknown, unknown, StartJourneyRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await journeyService.startJourney(userId, req.body, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Journey started', {
+            correlationId: req.correlationId,
+            userId,
+            journeyId: result.data.id,
+            expectedArrivalAt: result.data.expectedArrivalAt,
+        });
+
+        res.status(201).json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/journeys/active
+ * Get the current user's active journey
+ */
+export const getActiveJourney = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await journeyService.getActiveJourney(userId);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/journeys/:id/cancel
+ * End a journey before arrival
+ */
+export const cancelJourney = async (
+    req: Request<JourneyIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await journeyService.cancelJourney(userId, req.params.id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/journeys/:id/escalate
+ * Turn a journey into an SOS (traveller or watcher)
+ */
+export const escalateJourney = async (
+    req: Request<JourneyIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await journeyService.escalateJourney(userId, req.params.id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -3,6 +3,7 @@ import { contactRepository } from '../repositories/contact.repository.js';
 import { userRepository } from '../repositories/user.repository.js';
 import { locationService } from '../services/location.service.js';
 import { sosService } from '../services/sos.service.js';
+import { presenceService } from '../services/presence.service.js';
 
 export class MapController {
     /**
@@ -16,6 +17,17 @@ export class MapController {
             // 1. Fetch all contacts for the user
             const contacts = await contactRepository.findAllByUserId(userId);
 
+            // Presence is shared across instances - fetch it in one round trip
+            const presence = await presenceService.getPresence(
+                contacts.filter((c) => c.contactUserId).map((c) => c.contactUserId!)
+            );
+
+            // Live SOS events in the circle, duress included - a duress SOS looks cancelled to its owner only
+            const circleSos = await sosService.getCircleSosStatus(userId);
+            const liveSos = new Map(
+                (circleSos.success ? circleSos.data : []).map((sos) => [sos.contactUserId, sos])
+            );
+
             const results = [];
 
             for (const contact of contacts) {
@@ -41,9 +53,8 @@ export class MapController {
                     }
                 }
 
-                // 4. Check if contact has an active SOS
-                const sosResult = await sosService.getActiveSos(contactUser.id);
-                const activeSos = sosResult.success ? sosResult.data : null;
+                // 4. Check if contact has a live SOS
+                const activeSos = liveSos.get(contactUser.id) ?? null;
 
                 // 5. Construct response object (always return contact info, conditionally location)
                 results.push({
@@ -55,6 +66,11 @@ export class MapController {
                     // SOS status from actual SOS service
                     isSOSActive: activeSos !== null,
                     sosTimestamp: activeSos?.triggeredAt ?? null,
+                    presence: {
+                        isOnline: presence.get(contactUser.id)?.isOnline ?? false,
+                        deviceCount: presence.get(contactUser.id)?.deviceCount ?? 0,
+                        lastSeenAt: presence.get(contactUser.id)?.lastSeenAt ?? null,
+                    },
                 });
             }
 
@@ -0,0 +1,178 @@
+// =============================================================================
+// Blink Engine - Place Controller
+// =============================================================================
+// Saved place (geofence) HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { placeService } from '../services/place.service.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const placeIdParamSchema = z.object({
+    id: z.string().cuid('Invalid ID format'),
+});
+
+export const createPlaceSchema = z.object({
+    name: z.string().min(1, 'Name is required').max(60),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    radiusMeters: z.number().int().min(50).max(5000).optional(),
+});
+
+export const updatePlaceSchema = z.object({
+    name: z.string().min(1).max(60).optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    radiusMeters: z.number().int().min(50).max(5000).optional(),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type PlaceIdParam = z.infer<typeof placeIdParamSchema>;
+export type CreatePlaceRequest = z.infer<typeof createPlaceSchema>;
+export type UpdatePlaceRequest = z.infer<typeof updatePlaceSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * GET /v1/places
+ * List the current user's places
+ */
+export const listPlaces = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await placeService.getPlaces(userId);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/places
+ * Save a place - the circle is told when the user enters or leaves it
+ */
+export const createPlace = async (
+    req: Request<unknown, unknown, CreatePlaceRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await placeService.createPlace(userId, req.body);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Place created', {
+            correlationId: req.correlationId,
+            userId,
+            placeId: result.data.id,
+        });
+
+        res.status(201).json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/places/:id
+ * Get a specific place
+ */
+export const getPlace = async (
+    req: Request<PlaceIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await placeService.getPlace(userId, req.params.id);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * PATCH /v1/places/:id
+ * Rename, move or resize a place
+ */
+export const updatePlace = async (
+    req: Request<PlaceIdParam, unknown, UpdatePlaceRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const { id } = req.params;
+        const result = await placeService.updatePlace(userId, id, req.body);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Place updated', {
+            correlationId: req.correlationId,
+            userId,
+            placeId: id,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * DELETE /v1/places/:id
+ * Delete a place
+ */
+export const deletePlace = async (
+    req: Request<PlaceIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const { id } = req.params;
+        const result = await placeService.deletePlace(userId, id);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Place deleted', {
+            correlationId: req.correlationId,
+            userId,
+            placeId: id,
+        });
+
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,90 @@
+// =============================================================================
+// Blink Engine - SMS Controller
+// =============================================================================
+// Inbound SMS webhook handlers (offline SOS commands)
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { ForbiddenError } from '../domain/errors/domain.errors.js';
+import { smsCommandService } from '../services/sms-command.service.js';
+import { LocalSmsSender } from '../providers/local.sms-sender.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const inboundSmsSchema = z.object({
+    messageId: z.string().min(1).max(200),
+    from: z.string().min(1).max(32),
+    body: z.string().max(1600),
+});
+
+export const localSmsSchema = z.object({
+    from: z.string().min(1).max(32),
+    body: z.string().max(1600),
+    messageId: z.string().min(1).max(200).optional(), // Reuse to simulate a redelivery
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type InboundSmsRequest = z.infer<typeof inboundSmsSchema>;
+export type LocalSmsRequest = z.infer<typeof localSmsSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * POST /v1/sms/inbound
+ * Receive a text from the SMS provider
+ * Any signed, well-formed text is acknowledged with 200 - including ones that are ignored -
+ * so the provider only retries when handling actually failed
+ */
+export const receiveInbound = async (
+    req: Request<unknown, unknown, InboundSmsRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await smsCommandService.handleInbound(req.body, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/sms/local/send
+ * Development only, with SMS_LOCAL_SENDER_ENABLED - deliver a text to the inbound webhook through the local fake provider
+ */
+export const sendLocal = async (
+    req: Request<unknown, unknown, LocalSmsRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const secret = config.inboundSms.webhookSecret;
+        if (!config.isDev || !config.inboundSms.localSenderEnabled || !secret) {
+            throw new ForbiddenError('The local SMS sender is not available');
+        }
+
+        const sender = new LocalSmsSender(`http://localhost:${config.server.port}/api/v1/sms/inbound`, secret);
+        const delivery = await sender.send(req.body.from, req.body.body, req.body.messageId);
+
+        res.json({ data: delivery });
+    } catch (error) {
+        next(error);
+    }
+};
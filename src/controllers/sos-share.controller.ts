@@ -0,0 +1,54 @@
+// =============================================================================
+// Blink Engine - SOS Share Controller
+// =============================================================================
+// Public read-only SOS viewer HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { sosShareService } from '../services/sos-share.service.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const shareTokenParamSchema = z.object({
+    token: z.string().min(1).max(2048),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type ShareTokenParam = z.infer<typeof shareTokenParamSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * GET /v1/sos-share/:token
+ * Live status and latest location of an SOS, for the contact holding the link
+ */
+export const viewSharedSos = async (
+    req: Request<ShareTokenParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await sosShareService.viewSharedSos(req.params.token, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        // Live data - never cache
+        res.set('Cache-Control', 'no-store');
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { sosService } from '../services/sos.service.js';
+import { sosEscalationService } from '../services/sos-escalation.service.js';
 import { logger } from '../utils/logger.js';
 
 // =============================================================================
@@ -16,10 +17,16 @@ export const triggerSosSchema = z.object({
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180),
     idempotencyKey: z.string().uuid().optional(),
+    countdownSeconds: z.number().int().min(1).max(300).optional(),
 });
 
 export const cancelSosSchema = z.object({
     reason: z.string().optional(),
+    pin: z.string().regex(/^\d{4,8}$/).optional(),
+});
+
+export const sosIdParamSchema = z.object({
+    id: z.string().cuid('Invalid ID format'),
 });
 
 // =============================================================================
@@ -28,6 +35,7 @@ export const cancelSosSchema = z.object({
 
 export type TriggerSosRequest = z.infer<typeof triggerSosSchema>;
 export type CancelSosRequest = z.infer<typeof cancelSosSchema>;
+export type SosIdParam = z.infer<typeof sosIdParamSchema>;
 
 // =============================================================================
 // Handlers
@@ -35,7 +43,7 @@ export type CancelSosRequest = z.infer<typeof cancelSosSchema>;
 
 /**
  * POST /v1/sos/trigger
- * Trigger an SOS event
+ * Trigger an SOS event, optionally after a pre-alarm countdown (countdownSeconds)
  * This is an idempotent operation - multiple calls with the same idempotencyKey
  * will return the same result
  */
@@ -50,6 +58,7 @@ export const triggerSos = async (
             correlationId: req.correlationId,
             ipAddress: req.ip,
             userAgent: req.get('user-agent'),
+            sessionId: req.sessionId,
         });
 
         if (!result.success) {
@@ -61,6 +70,7 @@ export const triggerSos = async (
             correlationId: req.correlationId,
             userId,
             sosId: result.data.id,
+            status: result.data.status,
             latitude: req.body.latitude,
             longitude: req.body.longitude,
         });
@@ -82,7 +92,7 @@ export const cancelSos = async (
 ): Promise<void> => {
     try {
         const userId = req.userId!;
-        const result = await sosService.cancelSos(userId, req.body.reason, {
+        const result = await sosService.cancelSos(userId, req.body.reason, req.body.pin, {
             correlationId: req.correlationId,
             ipAddress: req.ip,
             userAgent: req.get('user-agent'),
@@ -140,6 +150,99 @@ export const resolveSos = async (
     }
 };
 
+/**
+ * POST /v1/sos/:id/resolve
+ * Resolve a circle member's SOS once they are safe - the only way to end a duress SOS
+ */
+export const resolveCircleSos = async (
+    req: Request<SosIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const { id } = req.params;
+        const result = await sosService.resolveCircleSos(userId, id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        // Always log SOS resolutions - safety critical
+        logger.info('SOS resolved by circle member', {
+            correlationId: req.correlationId,
+            userId,
+            sosId: id,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/sos/:id/acknowledge
+ * Acknowledge a circle member's SOS ("I've seen it") - stops escalation
+ */
+export const acknowledgeSos = async (
+    req: Request<SosIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const { id } = req.params;
+        const result = await sosEscalationService.acknowledgeSos(userId, id, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        // Always log SOS acknowledgements - safety critical
+        logger.info('SOS acknowledged', {
+            correlationId: req.correlationId,
+            userId,
+            sosId: id,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/sos/:id/trail
+ * Get the location trail of an SOS event (user or circle member)
+ */
+export const getSosTrail = async (
+    req: Request<SosIdParam>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await sosService.getSosTrail(userId, req.params.id);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
 /**
  * GET /v1/sos/active
  * Get the active SOS event for the current user
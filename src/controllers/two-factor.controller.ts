@@ -0,0 +1,188 @@
+// =============================================================================
+// Blink Engine - Two-Factor Controller
+// =============================================================================
+// Two-factor enrolment and recovery code HTTP handlers
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { twoFactorService } from '../services/two-factor.service.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Request Schemas
+// =============================================================================
+
+export const confirmTwoFactorSchema = z.object({
+    code: z.string().min(1, 'Code is required'),
+});
+
+export const disableTwoFactorSchema = z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: z.string().min(1, 'Code is required'),
+});
+
+export const regenerateRecoveryCodesSchema = z.object({
+    code: z.string().min(1, 'Code is required'),
+});
+
+// =============================================================================
+// Request Types
+// =============================================================================
+
+export type ConfirmTwoFactorRequest = z.infer<typeof confirmTwoFactorSchema>;
+export type DisableTwoFactorRequest = z.infer<typeof disableTwoFactorSchema>;
+export type RegenerateRecoveryCodesRequest = z.infer<typeof regenerateRecoveryCodesSchema>;
+
+// =============================================================================
+// Handlers
+// =============================================================================
+
+/**
+ * GET /v1/auth/2fa
+ * Two-factor status of the current user
+ */
+export const getStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await twoFactorService.getStatus(req.userId!);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/2fa/enroll
+ * Start enrolment - returns the secret and an otpauth:// URI for the authenticator app
+ */
+export const enroll = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await twoFactorService.enroll(userId, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Two-factor enrolment started', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/2fa/confirm
+ * Confirm enrolment with a code - turns 2FA on and returns the recovery codes
+ */
+export const confirm = async (
+    req: Request<unknown, unknown, ConfirmTwoFactorRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await twoFactorService.confirm(userId, req.body.code, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Two-factor authentication enabled', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/2fa/disable
+ * Turn 2FA off (password and a code required)
+ */
+export const disable = async (
+    req: Request<unknown, unknown, DisableTwoFactorRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await twoFactorService.disable(userId, req.body.password, req.body.code, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Two-factor authentication disabled', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/auth/2fa/recovery-codes
+ * Replace the recovery codes (a code required)
+ */
+export const regenerateRecoveryCodes = async (
+    req: Request<unknown, unknown, RegenerateRecoveryCodesRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await twoFactorService.regenerateRecoveryCodes(userId, req.body.code, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Recovery codes regenerated', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -6,6 +6,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { userService } from '../services/user.service.js';
+import { phoneVerificationService } from '../services/phone-verification.service.js';
+import { notificationPreferenceService } from '../services/notification-preference.service.js';
+import { NOTIFICATION_EVENT_TYPES, isValidTime } from '../domain/notification-policy.js';
 import { logger } from '../utils/logger.js';
 
 // =============================================================================
@@ -19,11 +22,42 @@ export const updateProfileSchema = z.object({
     isTracking: z.boolean().optional(),
 });
 
+export const setDuressPinSchema = z.object({
+    pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits'),
+    password: z.string().min(1),
+});
+
+export const removeDuressPinSchema = z.object({
+    password: z.string().min(1),
+});
+
+export const verifyPhoneSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+const timeSchema = z.string().refine(isValidTime, 'Time must be HH:mm');
+
+export const updateNotificationPreferencesSchema = z.object({
+    channels: z.record(
+        z.enum(NOTIFICATION_EVENT_TYPES),
+        z.array(z.enum(['push', 'sms', 'email'])).max(3)
+    ).optional(),
+    quietHours: z.object({
+        start: timeSchema,
+        end: timeSchema,
+    }).nullable().optional(),
+    timeZone: z.string().min(1).optional(),
+});
+
 // =============================================================================
 // Request Types
 // =============================================================================
 
 export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
+export type SetDuressPinRequest = z.infer<typeof setDuressPinSchema>;
+export type RemoveDuressPinRequest = z.infer<typeof removeDuressPinSchema>;
+export type VerifyPhoneRequest = z.infer<typeof verifyPhoneSchema>;
+export type UpdateNotificationPreferencesRequest = z.infer<typeof updateNotificationPreferencesSchema>;
 
 // =============================================================================
 // Handlers
@@ -127,3 +161,175 @@ export const uploadProfileImage = async (
     }
 };
 
+
+/**
+ * PUT /v1/users/profile/duress-pin
+ * Set the duress PIN (requires the current password)
+ */
+export const setDuressPin = async (
+    req: Request<unknown, unknown, SetDuressPinRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await userService.setDuressPin(userId, req.body.pin, req.body.password, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Duress PIN set', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * DELETE /v1/users/profile/duress-pin
+ * Remove the duress PIN (requires the current password)
+ */
+export const removeDuressPin = async (
+    req: Request<unknown, unknown, RemoveDuressPinRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await userService.removeDuressPin(userId, req.body.password, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Duress PIN removed', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/users/profile/phone/send-code
+ * Text a verification code to the profile's phone number
+ */
+export const sendPhoneVerificationCode = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await phoneVerificationService.sendCode(userId, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Phone verification code sent', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.status(202).json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * POST /v1/users/profile/phone/verify
+ * Confirm the phone number with the texted code
+ */
+export const verifyPhone = async (
+    req: Request<unknown, unknown, VerifyPhoneRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.userId!;
+        const result = await phoneVerificationService.verifyCode(userId, req.body.code, {
+            correlationId: req.correlationId,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+        });
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        logger.info('Phone number verified', {
+            correlationId: req.correlationId,
+            userId,
+        });
+
+        res.json({ success: true });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * GET /v1/users/notification-preferences
+ * Get the channels, quiet hours and time zone for non-SOS notifications
+ */
+export const getNotificationPreferences = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await notificationPreferenceService.getPreferences(req.userId!);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * PATCH /v1/users/notification-preferences
+ * Update notification preferences (SOS alerts are always delivered)
+ */
+export const updateNotificationPreferences = async (
+    req: Request<unknown, unknown, UpdateNotificationPreferencesRequest>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await notificationPreferenceService.updatePreferences(req.userId!, req.body);
+
+        if (!result.success) {
+            throw result.error;
+        }
+
+        res.json({ data: result.data });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -83,6 +83,46 @@ export class UnauthorizedError extends DomainError {
     }
 }
 
+export class ForbiddenError extends DomainError {
+    readonly code = 'AUTH_FORBIDDEN';
+    readonly statusCode = 403;
+    readonly retryable = false;
+
+    constructor(message = 'You do not have access to this resource') {
+        super(message);
+    }
+}
+
+export class EmailNotVerifiedError extends DomainError {
+    readonly code = 'AUTH_EMAIL_NOT_VERIFIED';
+    readonly statusCode = 403;
+    readonly retryable = false;
+
+    constructor(message = 'Verify your email address to continue') {
+        super(message);
+    }
+}
+
+export class TwoFactorCodeInvalidError extends DomainError {
+    readonly code = 'AUTH_2FA_CODE_INVALID';
+    readonly statusCode = 401;
+    readonly retryable = false;
+
+    constructor() {
+        super('Invalid authentication code');
+    }
+}
+
+export class TwoFactorChallengeInvalidError extends DomainError {
+    readonly code = 'AUTH_2FA_CHALLENGE_INVALID';
+    readonly statusCode = 401;
+    readonly retryable = false;
+
+    constructor() {
+        super('Two-factor challenge is invalid or has expired. Please log in again.');
+    }
+}
+
 // =============================================================================
 // Validation Errors
 // =============================================================================
@@ -162,8 +202,8 @@ export class SosNotActiveError extends DomainError {
     readonly statusCode = 400;
     readonly retryable = false;
 
-    constructor() {
-        super('No active SOS event to cancel');
+    constructor(message = 'No active SOS event to cancel') {
+        super(message);
     }
 }
 
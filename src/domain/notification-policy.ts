@@ -0,0 +1,165 @@
+// =============================================================================
+// Blink Engine - Notification Policy
+// =============================================================================
+// Decides which channels an event is delivered on - pure, no I/O
+
+import { NotificationChannelName } from '../providers/notification-channel.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Events the user can configure, mute and silence with quiet hours
+ */
+export const NOTIFICATION_EVENT_TYPES = [
+    'invite_received',
+    'invite_accepted',
+    'place_enter',
+    'place_exit',
+    'journey_update',
+    'journey_alert',
+] as const;
+
+export type NotificationEventType = typeof NOTIFICATION_EVENT_TYPES[number];
+
+/**
+ * SOS events - always delivered on every channel, whatever the preferences
+ */
+export type SafetyEventType = 'sos_alert' | 'sos_escalated';
+
+export type PolicyEventType = NotificationEventType | SafetyEventType;
+
+export interface QuietHours {
+    start: string; // "HH:mm"
+    end: string; // "HH:mm", earlier than start for overnight quiet hours
+}
+
+export interface NotificationPreferences {
+    channels: Record<NotificationEventType, NotificationChannelName[]>;
+    quietHours: QuietHours | null;
+    timeZone: string; // IANA name
+}
+
+export interface PolicyContext {
+    eventType: PolicyEventType;
+    subjectMuted: boolean; // The recipient muted the contact the event is about
+    now: Date;
+}
+
+export interface DeliveryDecision {
+    channels: NotificationChannelName[];
+    suppressedBy: 'mute' | 'quiet_hours' | 'preferences' | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const ALL_CHANNELS: NotificationChannelName[] = ['push', 'sms', 'email'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    channels: {
+        invite_received: ['push', 'email'],
+        invite_accepted: ['push'],
+        place_enter: ['push'],
+        place_exit: ['push'],
+        journey_update: ['push'],
+        journey_alert: ['push', 'sms'],
+    },
+    quietHours: null,
+    timeZone: 'UTC',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/**
+ * Whether an event type is an SOS event
+ */
+export const isSafetyEvent = (eventType: PolicyEventType): eventType is SafetyEventType =>
+    eventType === 'sos_alert' || eventType === 'sos_escalated';
+
+/**
+ * Decide the channels an event is delivered on
+ * SOS events are checked first and never suppressed - mutes, quiet hours and
+ * channel choices only apply to everything else
+ */
+export const decideDelivery = (
+    preferences: NotificationPreferences,
+    context: PolicyContext
+): DeliveryDecision => {
+    if (isSafetyEvent(context.eventType)) {
+        return { channels: [...ALL_CHANNELS], suppressedBy: null };
+    }
+
+    if (context.subjectMuted) {
+        return { channels: [], suppressedBy: 'mute' };
+    }
+
+    if (preferences.quietHours && isWithinQuietHours(preferences.quietHours, preferences.timeZone, context.now)) {
+        return { channels: [], suppressedBy: 'quiet_hours' };
+    }
+
+    const channels = preferences.channels[context.eventType] ?? [];
+    return channels.length > 0
+        ? { channels: [...channels], suppressedBy: null }
+        : { channels: [], suppressedBy: 'preferences' };
+};
+
+/**
+ * Whether a moment falls within quiet hours in the user's time zone
+ * The start is inclusive and the end exclusive; equal times mean no quiet hours
+ */
+export const isWithinQuietHours = (quietHours: QuietHours, timeZone: string, now: Date): boolean => {
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === null || end === null || start === end) return false;
+
+    const local = localMinutes(now, timeZone);
+    return start < end
+        ? local >= start && local < end
+        : local >= start || local < end; // Overnight, e.g. 22:00-07:00
+};
+
+/**
+ * Whether a value is a valid "HH:mm" time
+ */
+export const isValidTime = (value: string): boolean => TIME_PATTERN.test(value);
+
+/**
+ * Whether a value is an IANA time zone the runtime knows
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const toMinutes = (time: string): number | null => {
+    const match = TIME_PATTERN.exec(time);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Minutes since local midnight in a time zone (UTC if the zone is unknown)
+ */
+const localMinutes = (date: Date, timeZone: string): number => {
+    const format = (zone: string) => new Intl.DateTimeFormat('en-GB', {
+        timeZone: zone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const parts = isValidTimeZone(timeZone) ? format(timeZone) : format('UTC');
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+    return hour * 60 + minute;
+};
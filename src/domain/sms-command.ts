@@ -0,0 +1,66 @@
+// =============================================================================
+// Blink Engine - SMS Commands
+// =============================================================================
+// Parses texts sent to the inbound SMS number - pure, no I/O
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A parsed text
+ * - sos: "SOS" or "SOS <lat>,<lng>" (without a position the last known location is used)
+ * - safe: "SAFE" - resolve the active SOS
+ * - cancel: "CANCEL" or "CANCEL <pin>" - the duress PIN works as it does in the app
+ */
+export type SmsCommand =
+    | { type: 'sos'; latitude?: number; longitude?: number }
+    | { type: 'safe' }
+    | { type: 'cancel'; pin?: string }
+    | { type: 'unknown' };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const COORDINATES_PATTERN = /^(-?\d{1,3}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)$/;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a text - case-insensitive, surrounding whitespace ignored
+ * An SOS with an unreadable position is still an SOS: it is sent without one
+ */
+export const parseSmsCommand = (body: string): SmsCommand => {
+    const [keyword = '', ...rest] = body.trim().split(/\s+/);
+    const argument = rest.join(' ');
+
+    switch (keyword.toUpperCase()) {
+        case 'SOS': {
+            const match = COORDINATES_PATTERN.exec(argument);
+            if (!match) return { type: 'sos' };
+
+            const latitude = parseFloat(match[1]);
+            const longitude = parseFloat(match[2]);
+            if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return { type: 'sos' };
+
+            return { type: 'sos', latitude, longitude };
+        }
+        case 'SAFE':
+            return rest.length === 0 ? { type: 'safe' } : { type: 'unknown' };
+        case 'CANCEL':
+            if (rest.length === 0) return { type: 'cancel' };
+            return PIN_PATTERN.test(argument) ? { type: 'cancel', pin: argument } : { type: 'unknown' };
+        default:
+            return { type: 'unknown' };
+    }
+};
+
+/**
+ * The text as stored - a PIN after CANCEL is masked
+ */
+export const redactSmsBody = (body: string): string =>
+    body.replace(/^(\s*cancel\s+)\d{4,8}/i, '$1****');
@@ -5,9 +5,16 @@
 
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { createHash, timingSafeEqual } from 'crypto';
 import { config } from '../config/index.js';
-import { TokenExpiredError, TokenInvalidError, UnauthorizedError } from '../domain/errors/domain.errors.js';
+import { TokenExpiredError, TokenInvalidError, UnauthorizedError, ForbiddenError } from '../domain/errors/domain.errors.js';
 import { logger } from '../utils/logger.js';
+import { sessionRepository } from '../repositories/session.repository.js';
+import {
+    verifyWebhookSignature,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+} from '../utils/webhook-signature.js';
 
 /**
  * JWT payload structure
@@ -15,6 +22,7 @@ import { logger } from '../utils/logger.js';
 export interface JwtPayload {
     sub: string; // User ID
     email: string;
+    sid?: string; // Session (refresh token family); absent on tokens issued before sessions existed
     iat: number;
     exp: number;
 }
@@ -24,6 +32,7 @@ declare global {
         interface Request {
             userId?: string;
             userEmail?: string;
+            sessionId?: string;
         }
     }
 }
@@ -44,7 +53,7 @@ const extractToken = (req: Request): string | null => {
 /**
  * Verify and decode JWT token
  */
-const verifyToken = (token: string): JwtPayload => {
+export const verifyToken = (token: string): JwtPayload => {
     try {
         const payload = jwt.verify(token, config.jwt.accessSecret) as JwtPayload;
         return payload;
@@ -56,43 +65,67 @@ const verifyToken = (token: string): JwtPayload => {
     }
 };
 
+/**
+ * Verify an access token and check that its session is still signed in
+ * Signing a device out (or every device) revokes the session, so its access tokens stop
+ * working straight away rather than when they expire
+ */
+export const verifyAccessToken = async (token: string): Promise<JwtPayload> => {
+    const payload = verifyToken(token);
+
+    if (payload.sid) {
+        const session = await sessionRepository.findByFamily(payload.sid);
+        if (session?.revokedAt) {
+            throw new UnauthorizedError('Session has been signed out');
+        }
+    }
+
+    return payload;
+};
+
 /**
  * Authentication middleware - requires valid JWT
  * Must be applied to protected routes
  */
-export const authenticate = (req: Request, _res: Response, next: NextFunction): void => {
-    const token = extractToken(req);
+export const authenticate = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const token = extractToken(req);
 
-    if (!token) {
-        throw new UnauthorizedError('No authentication token provided');
-    }
+        if (!token) {
+            throw new UnauthorizedError('No authentication token provided');
+        }
 
-    const payload = verifyToken(token);
+        const payload = await verifyAccessToken(token);
 
-    // Attach user identity to request
-    req.userId = payload.sub;
-    req.userEmail = payload.email;
+        // Attach user identity to request
+        req.userId = payload.sub;
+        req.userEmail = payload.email;
+        req.sessionId = payload.sid;
 
-    logger.debug('User authenticated', {
-        correlationId: req.correlationId,
-        userId: payload.sub,
-    });
+        logger.debug('User authenticated', {
+            correlationId: req.correlationId,
+            userId: payload.sub,
+        });
 
-    next();
+        next();
+    } catch (error) {
+        next(error);
+    }
 };
 
 /**
  * Optional authentication middleware
  * Attaches user identity if token is present, but doesn't require it
  */
-export const optionalAuth = (req: Request, _res: Response, next: NextFunction): void => {
+export const optionalAuth = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
     const token = extractToken(req);
 
     if (token) {
         try {
-            const payload = verifyToken(token);
+            const payload = await verifyAccessToken(token);
             req.userId = payload.sub;
             req.userEmail = payload.email;
+            req.sessionId = payload.sid;
         } catch {
             // Token invalid but that's okay for optional auth
             logger.debug('Optional auth - invalid token ignored', {
@@ -104,6 +137,57 @@ export const optionalAuth = (req: Request, _res: Response, next: NextFunction):
     next();
 };
 
+/**
+ * Admin API middleware - requires the configured key in the X-Admin-Key header
+ * The admin API is disabled while ADMIN_API_KEY is unset
+ */
+export const requireAdminKey = (req: Request, _res: Response, next: NextFunction): void => {
+    const expected = config.admin.apiKey;
+    if (!expected) {
+        throw new ForbiddenError('Admin API is disabled');
+    }
+
+    // Compare digests so the comparison time does not depend on the key length
+    const provided = req.get('x-admin-key') ?? '';
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!timingSafeEqual(digest(provided), digest(expected))) {
+        throw new UnauthorizedError('Invalid admin key');
+    }
+
+    logger.info('Admin request', {
+        correlationId: req.correlationId,
+        method: req.method,
+        path: req.originalUrl,
+    });
+
+    next();
+};
+
+/**
+ * Inbound SMS webhook authentication middleware
+ * The provider signs each request with the shared secret (see utils/webhook-signature)
+ */
+export const requireInboundSmsSignature = (req: Request, _res: Response, next: NextFunction): void => {
+    const secret = config.inboundSms.webhookSecret;
+    if (!secret) {
+        throw new ForbiddenError('Inbound SMS is disabled');
+    }
+
+    const valid = verifyWebhookSignature(
+        secret,
+        req.get(WEBHOOK_TIMESTAMP_HEADER),
+        req.get(WEBHOOK_SIGNATURE_HEADER),
+        req.rawBody ?? Buffer.alloc(0),
+        config.inboundSms.signatureToleranceSeconds
+    );
+    if (!valid) {
+        logger.warn('Inbound SMS signature rejected', { correlationId: req.correlationId });
+        throw new UnauthorizedError('Invalid webhook signature');
+    }
+
+    next();
+};
+
 /**
  * Parse duration string to seconds
  */
@@ -130,9 +214,10 @@ const parseDuration = (duration: string): number => {
 
 /**
  * Generate access token
+ * `sessionId` is the refresh token family the token was issued for
  */
-export const generateAccessToken = (userId: string, email: string): string => {
-    return jwt.sign({ sub: userId, email }, config.jwt.accessSecret, {
+export const generateAccessToken = (userId: string, email: string, sessionId: string): string => {
+    return jwt.sign({ sub: userId, email, sid: sessionId }, config.jwt.accessSecret, {
         expiresIn: parseDuration(config.jwt.accessExpiresIn),
     });
 };
@@ -3,9 +3,166 @@
 // =============================================================================
 // Rate limiting with Redis or in-memory fallback
 
-import rateLimit from 'express-rate-limit';
+import { Request } from 'express';
+import rateLimit, { MemoryStore, Options, Store, ClientRateLimitInfo } from 'express-rate-limit';
 import { config } from '../config/index.js';
+import { getRateLimitRedis } from '../config/redis.js';
 import { logger } from '../utils/logger.js';
+import { verifyToken } from './auth.middleware.js';
+import { sosRepository } from '../repositories/sos.repository.js';
+
+// =============================================================================
+// Store
+// =============================================================================
+
+/**
+ * Hit counter shared between replicas through Redis
+ * Falls back to a per-process memory store while Redis is not configured or not connected,
+ * so an outage loosens limits instead of failing requests
+ */
+class RedisFallbackStore implements Store {
+    readonly localKeys = false;
+    private readonly memory = new MemoryStore();
+    private windowMs = 60000;
+    private warned = false;
+
+    constructor(readonly prefix: string) { }
+
+    init(options: Options): void {
+        this.windowMs = options.windowMs;
+        this.memory.init(options);
+    }
+
+    async increment(key: string): Promise<ClientRateLimitInfo> {
+        const redis = this.getReadyRedis();
+        if (redis) {
+            try {
+                const redisKey = this.prefix + key;
+                const replies = await redis
+                    .multi()
+                    .set(redisKey, 0, 'PX', this.windowMs, 'NX')
+                    .incr(redisKey)
+                    .pttl(redisKey)
+                    .exec();
+
+                const totalHits = Number(replies?.[1]?.[1]);
+                const ttl = Number(replies?.[2]?.[1]);
+                if (Number.isFinite(totalHits) && ttl > 0) {
+                    return { totalHits, resetTime: new Date(Date.now() + ttl) };
+                }
+            } catch (error) {
+                this.warnFallback(error);
+            }
+        }
+
+        return this.memory.increment(key);
+    }
+
+    async decrement(key: string): Promise<void> {
+        const redis = this.getReadyRedis();
+        if (redis) {
+            try {
+                await redis.decr(this.prefix + key);
+                return;
+            } catch (error) {
+                this.warnFallback(error);
+            }
+        }
+        await this.memory.decrement(key);
+    }
+
+    async resetKey(key: string): Promise<void> {
+        const redis = this.getReadyRedis();
+        if (redis) {
+            try {
+                await redis.del(this.prefix + key);
+            } catch (error) {
+                this.warnFallback(error);
+            }
+        }
+        await this.memory.resetKey(key);
+    }
+
+    shutdown(): void {
+        this.memory.shutdown();
+    }
+
+    // Commands would queue (and stall requests) while ioredis reconnects - skip it instead
+    private getReadyRedis() {
+        const redis = getRateLimitRedis();
+        if (redis && redis.status === 'ready') {
+            this.warned = false;
+            return redis;
+        }
+        if (redis) this.warnFallback(new Error(`Redis connection is ${redis.status}`));
+        return null;
+    }
+
+    private warnFallback(error: unknown): void {
+        if (this.warned) return;
+        this.warned = true;
+        logger.warn('Rate limit store falling back to memory', {
+            prefix: this.prefix,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+}
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+/**
+ * User ID from the request, or from the bearer token on routes that authenticate later
+ */
+const getRequestUserId = (req: Request): string | undefined => {
+    if (req.userId) return req.userId;
+
+    const [type, token] = (req.headers.authorization ?? '').split(' ');
+    if (type !== 'Bearer' || !token) return undefined;
+
+    try {
+        return verifyToken(token).sub;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Authenticated requests are limited per user, anonymous ones per IP
+ * Users behind a shared carrier-NAT IP do not exhaust each other's limits
+ */
+const userOrIpKey = (req: Request): string => {
+    const userId = getRequestUserId(req);
+    return userId ? `user:${userId}` : `ip:${req.ip}`;
+};
+
+/**
+ * A trigger by a user without an active or armed SOS is never rate limited
+ * A duress SOS looks cancelled to the user, so it does not count - like in `sosService.triggerSos`
+ * Errors count as a first trigger - blocking an SOS is worse than letting one through
+ */
+const isFirstSosTrigger = async (req: Request): Promise<boolean> => {
+    if (req.method !== 'POST' || !`${req.baseUrl}${req.path}`.endsWith('/sos/trigger')) {
+        return false;
+    }
+
+    const userId = getRequestUserId(req);
+    if (!userId) return false;
+
+    try {
+        const existing = await sosRepository.findActiveByUserId(userId)
+            ?? await sosRepository.findArmedByUserId(userId);
+        return existing === null;
+    } catch (error) {
+        logger.error('Failed to check for an existing SOS before rate limiting', { userId, error });
+        return true;
+    }
+};
+
+// =============================================================================
+// Limiters
+// =============================================================================
 
 /**
  * Standard rate limiter for general API endpoints
@@ -15,6 +172,9 @@ export const standardRateLimiter = rateLimit({
     max: config.rateLimit.maxRequests,
     standardHeaders: true,
     legacyHeaders: false,
+    store: new RedisFallbackStore('rl:standard:'),
+    keyGenerator: userOrIpKey,
+    skip: isFirstSosTrigger,
     message: {
         error: {
             code: 'RATE_LIMIT_EXCEEDED',
@@ -42,6 +202,9 @@ export const authRateLimiter = rateLimit({
     standardHeaders: true,
     legacyHeaders: false,
     skipSuccessfulRequests: false,
+    store: new RedisFallbackStore('rl:auth:'),
+    // Login, register and refresh are anonymous (per IP); resend, password change and 2FA are per user
+    keyGenerator: userOrIpKey,
     message: {
         error: {
             code: 'AUTH_RATE_LIMIT_EXCEEDED',
@@ -61,12 +224,16 @@ export const authRateLimiter = rateLimit({
 
 /**
  * SOS rate limiter - higher limit but still protected
+ * A first trigger always goes through; repeats and other SOS actions count per user
  */
 export const sosRateLimiter = rateLimit({
     windowMs: 60000, // 1 minute
     max: 10, // 10 SOS actions per minute
     standardHeaders: true,
     legacyHeaders: false,
+    store: new RedisFallbackStore('rl:sos:'),
+    keyGenerator: userOrIpKey,
+    skip: isFirstSosTrigger,
     message: {
         error: {
             code: 'SOS_RATE_LIMIT_EXCEEDED',
@@ -0,0 +1,78 @@
+// =============================================================================
+// Blink Engine - Local Notification Channel
+// =============================================================================
+// In-memory (and optional file) channel for local development and testing
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import {
+    NotificationChannel,
+    NotificationChannelName,
+    NotificationMessage,
+    DeliveryResult,
+} from './notification-channel.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_RETAINED_MESSAGES = 500;
+
+// =============================================================================
+// Channel
+// =============================================================================
+
+export class LocalChannel implements NotificationChannel {
+    private readonly messages: NotificationMessage[] = [];
+
+    constructor(
+        readonly name: NotificationChannelName,
+        private readonly filePath?: string
+    ) { }
+
+    /**
+     * Record the message instead of handing it to a provider
+     */
+    async send(message: NotificationMessage): Promise<DeliveryResult> {
+        this.messages.push(message);
+        if (this.messages.length > MAX_RETAINED_MESSAGES) {
+            this.messages.shift();
+        }
+
+        if (this.filePath) {
+            try {
+                await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.appendFile(
+                    this.filePath,
+                    JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+                );
+            } catch (error) {
+                logger.error('Failed to write local notification', { channel: this.name, error });
+                return { status: 'failed', error: 'Failed to write local notification file' };
+            }
+        }
+
+        logger.debug('Local notification recorded', {
+            channel: this.name,
+            title: message.title,
+        });
+
+        return { status: 'sent', providerMessageId: `local-${randomUUID()}` };
+    }
+
+    /**
+     * Messages recorded so far (most recent last)
+     */
+    getMessages(): readonly NotificationMessage[] {
+        return this.messages;
+    }
+
+    /**
+     * Forget all recorded messages
+     */
+    clear(): void {
+        this.messages.length = 0;
+    }
+}
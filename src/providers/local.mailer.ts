@@ -0,0 +1,47 @@
+// =============================================================================
+// Blink Engine - Local Mailer
+// =============================================================================
+// Console (and optional file) mailer for local development and testing
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { Mailer, MailMessage, MailResult } from './mailer.js';
+
+// =============================================================================
+// Mailer
+// =============================================================================
+
+export class LocalMailer implements Mailer {
+    readonly name = 'local';
+
+    constructor(private readonly filePath?: string) { }
+
+    /**
+     * Log the message instead of sending it
+     */
+    async send(message: MailMessage): Promise<MailResult> {
+        if (this.filePath) {
+            try {
+                await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.appendFile(
+                    this.filePath,
+                    JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+                );
+            } catch (error) {
+                logger.error('Failed to write local mail', { error });
+                return { status: 'failed', error: 'Failed to write local mail file' };
+            }
+        }
+
+        // Development only - the body carries single-use links
+        logger.info('Local mail recorded', {
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+        });
+
+        return { status: 'sent', providerMessageId: `local-${randomUUID()}` };
+    }
+}
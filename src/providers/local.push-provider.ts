@@ -0,0 +1,69 @@
+// =============================================================================
+// Blink Engine - Local Push Provider
+// =============================================================================
+// Fake provider for local development and testing - messages are only recorded
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import { PushProvider, PushMessage, PushResult } from './push-provider.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_RETAINED_MESSAGES = 500;
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class LocalPushProvider implements PushProvider {
+    readonly name = 'local';
+    private readonly messages: PushMessage[] = [];
+    private readonly invalidTokens = new Set<string>();
+
+    /**
+     * Record the message instead of sending it
+     * Tokens marked invalid are rejected the way a real provider would
+     */
+    async send(message: PushMessage): Promise<PushResult> {
+        if (this.invalidTokens.has(message.token)) {
+            return { status: 'invalid_token', error: 'Token is not registered' };
+        }
+
+        this.messages.push(message);
+        if (this.messages.length > MAX_RETAINED_MESSAGES) {
+            this.messages.shift();
+        }
+
+        logger.debug('Local push recorded', {
+            provider: message.provider,
+            title: message.title,
+            priority: message.priority,
+        });
+
+        return { status: 'sent', providerMessageId: `local-${randomUUID()}` };
+    }
+
+    /**
+     * Make the provider reject a token (e.g. the app was uninstalled)
+     */
+    markInvalid(token: string): void {
+        this.invalidTokens.add(token);
+    }
+
+    /**
+     * Messages recorded so far (most recent last)
+     */
+    getMessages(): readonly PushMessage[] {
+        return this.messages;
+    }
+
+    /**
+     * Forget all recorded messages and invalid tokens
+     */
+    clear(): void {
+        this.messages.length = 0;
+        this.invalidTokens.clear();
+    }
+}
@@ -0,0 +1,61 @@
+// =============================================================================
+// Blink Engine - Local SMS Sender
+// =============================================================================
+// Fake SMS provider for local development - delivers a text to the inbound
+// webhook the way a real provider would, signed with the shared secret
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+import {
+    signWebhookPayload,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+} from '../utils/webhook-signature.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LocalSmsDelivery {
+    messageId: string;
+    status: number; // HTTP status returned by the webhook
+    response: unknown;
+}
+
+// =============================================================================
+// Sender
+// =============================================================================
+
+export class LocalSmsSender {
+    constructor(
+        private readonly webhookUrl: string,
+        private readonly secret: string
+    ) { }
+
+    /**
+     * POST a signed text to the inbound webhook
+     * Pass the same message ID twice to simulate a provider redelivery
+     */
+    async send(from: string, body: string, messageId: string = `local-in-${randomUUID()}`): Promise<LocalSmsDelivery> {
+        const payload = JSON.stringify({ messageId, from, body });
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        const response = await fetch(this.webhookUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+                [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(this.secret, timestamp, payload),
+            },
+            body: payload,
+        });
+
+        logger.info('Local SMS delivered to inbound webhook', { messageId, from, status: response.status });
+
+        return {
+            messageId,
+            status: response.status,
+            response: await response.json().catch(() => null),
+        };
+    }
+}
@@ -0,0 +1,32 @@
+// =============================================================================
+// Blink Engine - Mailer
+// =============================================================================
+// Mail adapter contract for account emails (verification, password reset)
+
+/**
+ * A single email to one recipient
+ */
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+/**
+ * Outcome reported by a mail provider
+ */
+export interface MailResult {
+    status: 'sent' | 'failed';
+    providerMessageId?: string;
+    error?: string;
+}
+
+/**
+ * Mail adapter interface
+ * Implementations must not throw - provider failures are reported as results
+ */
+export interface Mailer {
+    readonly name: string;
+    send(message: MailMessage): Promise<MailResult>;
+}
@@ -0,0 +1,45 @@
+// =============================================================================
+// Blink Engine - Notification Channel
+// =============================================================================
+// Channel adapter contract implemented by every notification provider
+
+/**
+ * Supported delivery channels
+ */
+export type NotificationChannelName = 'push' | 'sms' | 'email';
+
+/**
+ * Delivery priority - critical messages must bypass provider throttling
+ */
+export type NotificationPriority = 'normal' | 'critical';
+
+/**
+ * A single message addressed to one destination on one channel
+ */
+export interface NotificationMessage {
+    channel: NotificationChannelName;
+    destination: string; // User ID (push), phone number (sms) or email address (email)
+    title: string;
+    body: string;
+    priority: NotificationPriority;
+    data?: Record<string, unknown>;
+}
+
+/**
+ * Outcome reported by a provider for a single message
+ * skipped: there was nothing to deliver to (e.g. no registered devices)
+ */
+export interface DeliveryResult {
+    status: 'sent' | 'failed' | 'skipped';
+    providerMessageId?: string;
+    error?: string;
+}
+
+/**
+ * Channel adapter interface
+ * Implementations must not throw - provider failures are reported as results
+ */
+export interface NotificationChannel {
+    readonly name: NotificationChannelName;
+    send(message: NotificationMessage): Promise<DeliveryResult>;
+}
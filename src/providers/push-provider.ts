@@ -0,0 +1,76 @@
+// =============================================================================
+// Blink Engine - Push Provider
+// =============================================================================
+// Provider contract for push notifications to registered app installs
+
+import { NotificationPriority } from './notification-channel.js';
+
+/**
+ * Push services a device token can belong to
+ */
+export type PushProviderName = 'fcm' | 'apns';
+
+/**
+ * A push notification addressed to one device token
+ */
+export interface PushMessage {
+    provider: PushProviderName;
+    token: string;
+    title: string;
+    body: string;
+    priority: NotificationPriority; // critical: high priority, critical-alert class (SOS)
+    data?: Record<string, unknown>;
+}
+
+/**
+ * Outcome reported by a push provider
+ * invalid_token: the token is unregistered or malformed and must not be used again
+ */
+export interface PushResult {
+    status: 'sent' | 'failed' | 'invalid_token';
+    providerMessageId?: string;
+    error?: string;
+}
+
+/**
+ * Push provider interface
+ * Implementations must not throw - provider failures are reported as results
+ */
+export interface PushProvider {
+    readonly name: string;
+    send(message: PushMessage): Promise<PushResult>;
+}
+
+/**
+ * Platform delivery options for a message
+ * Critical messages are sent at high priority and, on iOS, as critical alerts
+ * that play a sound even when the phone is muted or in Focus mode
+ */
+export const buildPlatformOptions = (message: PushMessage): Record<string, unknown> => {
+    const critical = message.priority === 'critical';
+
+    if (message.provider === 'apns') {
+        return {
+            headers: {
+                'apns-push-type': 'alert',
+                'apns-priority': critical ? '10' : '5',
+            },
+            aps: {
+                alert: { title: message.title, body: message.body },
+                ...(critical
+                    ? { 'interruption-level': 'critical', sound: { critical: 1, name: 'default', volume: 1 } }
+                    : { sound: 'default' }),
+            },
+        };
+    }
+
+    return {
+        android: {
+            priority: critical ? 'high' : 'normal',
+            notification: {
+                channel_id: critical ? 'sos_alerts' : 'default',
+                ...(critical && { notification_priority: 'PRIORITY_MAX', visibility: 'PUBLIC' }),
+            },
+        },
+    };
+};
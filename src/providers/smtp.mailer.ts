@@ -0,0 +1,63 @@
+// =============================================================================
+// Blink Engine - SMTP Mailer
+// =============================================================================
+// Sends account emails through an SMTP server
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { Mailer, MailMessage, MailResult } from './mailer.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+    timeoutMs: number;
+}
+
+// =============================================================================
+// Mailer
+// =============================================================================
+
+export class SmtpMailer implements Mailer {
+    readonly name = 'smtp';
+    private readonly transporter: Transporter;
+
+    constructor(private readonly options: SmtpOptions) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.password } : undefined,
+            connectionTimeout: options.timeoutMs,
+            greetingTimeout: options.timeoutMs,
+            socketTimeout: options.timeoutMs,
+        });
+    }
+
+    /**
+     * Send the message; SMTP errors are reported as a failed result
+     */
+    async send(message: MailMessage): Promise<MailResult> {
+        try {
+            const info = await this.transporter.sendMail({
+                from: this.options.from,
+                to: message.to,
+                subject: message.subject,
+                text: message.text,
+                html: message.html,
+            });
+            return { status: 'sent', providerMessageId: info.messageId };
+        } catch (error) {
+            return {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// Blink Engine - Webhook Notification Channel
+// =============================================================================
+// Provider-agnostic channel that POSTs messages to an HTTP endpoint
+
+import { logger } from '../utils/logger.js';
+import {
+    NotificationChannel,
+    NotificationChannelName,
+    NotificationMessage,
+    DeliveryResult,
+} from './notification-channel.js';
+
+// =============================================================================
+// Channel
+// =============================================================================
+
+export class WebhookChannel implements NotificationChannel {
+    constructor(
+        readonly name: NotificationChannelName,
+        private readonly url: string,
+        private readonly apiKey: string | undefined,
+        private readonly timeoutMs: number
+    ) { }
+
+    /**
+     * POST the message to the provider endpoint
+     * Any non-2xx response, network error or timeout is reported as failed
+     */
+    async send(message: NotificationMessage): Promise<DeliveryResult> {
+        try {
+            const response = await fetch(this.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    channel: message.channel,
+                    to: message.destination,
+                    title: message.title,
+                    body: message.body,
+                    priority: message.priority,
+                    data: message.data,
+                }),
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+
+            if (!response.ok) {
+                logger.warn('Notification provider rejected message', {
+                    channel: this.name,
+                    status: response.status,
+                });
+                return { status: 'failed', error: `Provider responded with HTTP ${response.status}` };
+            }
+
+            const body = (await response.json().catch(() => null)) as { id?: string } | null;
+            return {
+                status: 'sent',
+                providerMessageId: body?.id ?? response.headers.get('x-message-id') ?? undefined,
+            };
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            logger.warn('Notification provider request failed', { channel: this.name, reason });
+            return { status: 'failed', error: reason };
+        }
+    }
+}
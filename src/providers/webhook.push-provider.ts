@@ -0,0 +1,78 @@
+// =============================================================================
+// Blink Engine - Webhook Push Provider
+// =============================================================================
+// Provider-agnostic push relay that POSTs messages to an HTTP endpoint
+
+import { logger } from '../utils/logger.js';
+import { PushProvider, PushMessage, PushResult, buildPlatformOptions } from './push-provider.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// FCM answers UNREGISTERED with 404, APNs answers Unregistered with 410
+const INVALID_TOKEN_STATUSES = [404, 410];
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class WebhookPushProvider implements PushProvider {
+    readonly name = 'webhook';
+
+    constructor(
+        private readonly url: string,
+        private readonly apiKey: string | undefined,
+        private readonly timeoutMs: number
+    ) { }
+
+    /**
+     * POST the message to the relay endpoint
+     * 404/410 or an `invalid_token` error mean the token is dead; any other failure is retryable
+     */
+    async send(message: PushMessage): Promise<PushResult> {
+        try {
+            const response = await fetch(this.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    channel: 'push',
+                    provider: message.provider,
+                    to: message.token,
+                    title: message.title,
+                    body: message.body,
+                    priority: message.priority,
+                    data: message.data,
+                    ...buildPlatformOptions(message),
+                }),
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+
+            const result = (await response.json().catch(() => null)) as { id?: string; error?: string } | null;
+
+            if (INVALID_TOKEN_STATUSES.includes(response.status) || result?.error === 'invalid_token') {
+                return { status: 'invalid_token', error: result?.error ?? `Provider responded with HTTP ${response.status}` };
+            }
+
+            if (!response.ok) {
+                logger.warn('Push provider rejected message', {
+                    provider: message.provider,
+                    status: response.status,
+                });
+                return { status: 'failed', error: `Provider responded with HTTP ${response.status}` };
+            }
+
+            return {
+                status: 'sent',
+                providerMessageId: result?.id ?? response.headers.get('x-message-id') ?? undefined,
+            };
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            logger.warn('Push provider request failed', { provider: message.provider, reason });
+            return { status: 'failed', error: reason };
+        }
+    }
+}
@@ -3,7 +3,7 @@
 // =============================================================================
 // Audit log data access layer for safety-critical operations
 
-import { prisma } from '../config/database.js';
+import { prisma, TransactionClient } from '../config/database.js';
 import { Prisma } from '@prisma/client';
 
 // =============================================================================
@@ -41,9 +41,10 @@ interface CreateAuditLogInput {
 class AuditRepository {
     /**
      * Create an audit log entry
+     * Pass a transaction client to write it atomically with other changes
      */
-    async create(input: CreateAuditLogInput): Promise<AuditLog> {
-        return prisma.auditLog.create({
+    async create(input: CreateAuditLogInput, tx: TransactionClient = prisma): Promise<AuditLog> {
+        return tx.auditLog.create({
             data: {
                 userId: input.userId,
                 action: input.action,
@@ -0,0 +1,141 @@
+// =============================================================================
+// Blink Engine - Check-in Repository
+// =============================================================================
+// Scheduled safety check-in data access layer
+
+import { prisma } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CheckIn {
+    id: string;
+    userId: string;
+    dueAt: Date;
+    latitude: number;
+    longitude: number;
+    note: string | null;
+    status: string;
+    confirmedAt: Date | null;
+    cancelledAt: Date | null;
+    missedAt: Date | null;
+    sosEventId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+interface CreateCheckInInput {
+    userId: string;
+    dueAt: Date;
+    latitude: number;
+    longitude: number;
+    note?: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class CheckInRepository {
+    /**
+     * Create a pending check-in
+     */
+    async create(input: CreateCheckInInput): Promise<CheckIn> {
+        return prisma.checkIn.create({
+            data: input,
+        });
+    }
+
+    /**
+     * Find check-in by ID
+     */
+    async findById(id: string): Promise<CheckIn | null> {
+        return prisma.checkIn.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find recent check-ins for a user, latest due first
+     */
+    async findAllByUserId(userId: string): Promise<CheckIn[]> {
+        return prisma.checkIn.findMany({
+            where: { userId },
+            orderBy: { dueAt: 'desc' },
+            take: 50,
+        });
+    }
+
+    /**
+     * Count pending check-ins for a user
+     */
+    async countPendingByUserId(userId: string): Promise<number> {
+        return prisma.checkIn.count({
+            where: { userId, status: 'pending' },
+        });
+    }
+
+    /**
+     * Find pending check-ins that are past due
+     */
+    async findDue(now: Date): Promise<CheckIn[]> {
+        return prisma.checkIn.findMany({
+            where: {
+                status: 'pending',
+                dueAt: { lte: now },
+            },
+            orderBy: { dueAt: 'asc' },
+        });
+    }
+
+    /**
+     * Move a pending check-in to a new due time
+     * Returns null if the check-in is no longer pending
+     */
+    async extend(id: string, dueAt: Date): Promise<CheckIn | null> {
+        return this.updatePending(id, { dueAt });
+    }
+
+    /**
+     * Mark a pending check-in as confirmed
+     */
+    async confirm(id: string): Promise<CheckIn | null> {
+        return this.updatePending(id, { status: 'confirmed', confirmedAt: new Date() });
+    }
+
+    /**
+     * Mark a pending check-in as cancelled
+     */
+    async cancel(id: string): Promise<CheckIn | null> {
+        return this.updatePending(id, { status: 'cancelled', cancelledAt: new Date() });
+    }
+
+    /**
+     * Mark a pending check-in as missed, linking the SOS it triggered
+     */
+    async markMissed(id: string, sosEventId: string): Promise<CheckIn | null> {
+        return this.updatePending(id, { status: 'missed', missedAt: new Date(), sosEventId });
+    }
+
+    /**
+     * Update a check-in only while it is pending
+     * The status check is part of the update so the scheduler and the user cannot both win
+     */
+    private async updatePending(
+        id: string,
+        data: { dueAt?: Date; status?: string; confirmedAt?: Date; cancelledAt?: Date; missedAt?: Date; sosEventId?: string }
+    ): Promise<CheckIn | null> {
+        const result = await prisma.checkIn.updateMany({
+            where: { id, status: 'pending' },
+            data,
+        });
+        if (result.count === 0) {
+            return null;
+        }
+
+        return prisma.checkIn.findUnique({ where: { id } });
+    }
+}
+
+export const checkInRepository = new CheckInRepository();
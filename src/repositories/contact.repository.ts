@@ -17,6 +17,7 @@ export interface Contact {
     phoneNumber: string;
     email: string | null;
     isPrimary: boolean;
+    isMuted: boolean;
     status: string;
     createdAt: Date;
     updatedAt: Date;
@@ -45,6 +46,7 @@ interface UpdateContactInput {
     phoneNumber?: string;
     email?: string;
     isPrimary?: boolean;
+    isMuted?: boolean;
     status?: string;
 }
 
@@ -81,6 +83,19 @@ class ContactRepository {
         }) as unknown as Contact[];
     }
 
+    /**
+     * Of the given users, those who muted a contact (by the contact's user ID)
+     */
+    async findUserIdsMuting(userIds: string[], contactUserId: string): Promise<string[]> {
+        if (userIds.length === 0) return [];
+
+        const contacts = await prisma.contact.findMany({
+            where: { userId: { in: userIds }, contactUserId, isMuted: true },
+            select: { userId: true },
+        });
+        return contacts.map((c) => c.userId);
+    }
+
     /**
      * Create a new contact
      */
@@ -0,0 +1,110 @@
+// =============================================================================
+// Blink Engine - Delivery Dead Letter Repository
+// =============================================================================
+// Failed notification deliveries data access layer
+
+import { prisma, TransactionClient } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+import { DeliveryJob } from './delivery-job.repository.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DeliveryDeadLetter {
+    id: string;
+    jobId: string;
+    sosEventId: string | null;
+    contactId: string | null;
+    channel: string;
+    destination: string;
+    message: Prisma.JsonValue;
+    priority: string;
+    dedupKey: string | null;
+    attempts: number;
+    lastError: string | null;
+    replayedAt: Date | null;
+    replayJobId: string | null;
+    createdAt: Date;
+}
+
+interface FindDeadLettersOptions {
+    includeReplayed: boolean;
+    channel?: string;
+    sosEventId?: string;
+    limit: number;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class DeliveryDeadLetterRepository {
+    /**
+     * Record a job that ran out of attempts - mark the job dead in the same transaction
+     */
+    async createFromJob(job: DeliveryJob, error: string, tx: TransactionClient = prisma): Promise<DeliveryDeadLetter> {
+        return tx.deliveryDeadLetter.create({
+            data: {
+                jobId: job.id,
+                sosEventId: job.sosEventId,
+                contactId: job.contactId,
+                channel: job.channel,
+                destination: job.destination,
+                message: job.message as Prisma.InputJsonValue,
+                priority: job.priority,
+                dedupKey: job.dedupKey,
+                attempts: job.attempts,
+                lastError: error,
+            },
+        });
+    }
+
+    /**
+     * Newest dead letters first
+     */
+    async findMany(options: FindDeadLettersOptions): Promise<DeliveryDeadLetter[]> {
+        return prisma.deliveryDeadLetter.findMany({
+            where: {
+                ...(!options.includeReplayed && { replayedAt: null }),
+                ...(options.channel && { channel: options.channel }),
+                ...(options.sosEventId && { sosEventId: options.sosEventId }),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: options.limit,
+        });
+    }
+
+    /**
+     * Find a dead letter by ID
+     */
+    async findById(id: string): Promise<DeliveryDeadLetter | null> {
+        return prisma.deliveryDeadLetter.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Claim a dead letter for replay
+     * Returns false if it was already replayed
+     */
+    async claimForReplay(id: string, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.deliveryDeadLetter.updateMany({
+            where: { id, replayedAt: null },
+            data: { replayedAt: new Date() },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Record the job a dead letter was replayed as
+     */
+    async setReplayJob(id: string, replayJobId: string, tx: TransactionClient = prisma): Promise<DeliveryDeadLetter> {
+        return tx.deliveryDeadLetter.update({
+            where: { id },
+            data: { replayJobId },
+        });
+    }
+}
+
+export const deliveryDeadLetterRepository = new DeliveryDeadLetterRepository();
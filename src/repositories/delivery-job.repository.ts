@@ -0,0 +1,161 @@
+// =============================================================================
+// Blink Engine - Delivery Job Repository
+// =============================================================================
+// Notification delivery queue data access layer
+
+import { prisma, TransactionClient } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DeliveryJob {
+    id: string;
+    sosEventId: string | null;
+    contactId: string | null;
+    channel: string;
+    destination: string;
+    message: Prisma.JsonValue;
+    priority: string;
+    dedupKey: string | null;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: Date;
+    lockedUntil: Date | null;
+    lastError: string | null;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface EnqueueDeliveryJobInput {
+    sosEventId?: string;
+    contactId?: string;
+    channel: string;
+    destination: string;
+    message: Record<string, unknown>;
+    priority: string;
+    dedupKey?: string;
+    maxAttempts: number;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class DeliveryJobRepository {
+    /**
+     * Queue jobs for delivery
+     * Jobs whose dedup key is already queued are ignored
+     */
+    async enqueue(jobs: EnqueueDeliveryJobInput[], tx: TransactionClient = prisma): Promise<number> {
+        if (jobs.length === 0) return 0;
+
+        const result = await tx.deliveryJob.createMany({
+            data: jobs.map((job) => ({
+                ...job,
+                message: job.message as Prisma.InputJsonValue,
+            })),
+            skipDuplicates: true,
+        });
+        return result.count;
+    }
+
+    /**
+     * Claim a batch of due jobs, critical ones first
+     * Uses SKIP LOCKED so concurrent workers never claim the same job.
+     * Jobs left in processing by a crashed worker are reclaimed once their lock expires.
+     */
+    async claimDue(limit: number, lockMs: number): Promise<DeliveryJob[]> {
+        const now = new Date();
+        const lockedUntil = new Date(now.getTime() + lockMs);
+
+        return prisma.$queryRaw<DeliveryJob[]>`
+            UPDATE "delivery_jobs"
+            SET "status" = 'processing',
+                "lockedUntil" = ${lockedUntil},
+                "attempts" = "attempts" + 1,
+                "updatedAt" = ${now}
+            WHERE "id" IN (
+                SELECT "id" FROM "delivery_jobs"
+                WHERE ("status" = 'pending' AND "nextAttemptAt" <= ${now})
+                   OR ("status" = 'processing' AND "lockedUntil" < ${now})
+                ORDER BY ("priority" = 'critical') DESC, "nextAttemptAt" ASC
+                LIMIT ${limit}
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING *
+        `;
+    }
+
+    /**
+     * Mark a job as done (sent or skipped)
+     */
+    async markCompleted(id: string, status: 'sent' | 'skipped', error?: string): Promise<void> {
+        await prisma.deliveryJob.update({
+            where: { id },
+            data: {
+                status,
+                completedAt: new Date(),
+                lockedUntil: null,
+                lastError: error ?? null,
+            },
+        });
+    }
+
+    /**
+     * Schedule another attempt after a failure
+     */
+    async scheduleRetry(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+        await prisma.deliveryJob.update({
+            where: { id },
+            data: {
+                status: 'pending',
+                lockedUntil: null,
+                lastError: error,
+                nextAttemptAt,
+            },
+        });
+    }
+
+    /**
+     * Mark a job that ran out of attempts as dead - call with the transaction client that dead-letters it
+     * The job keeps its dedup key, so the same message cannot be queued again while it is dead
+     */
+    async markDead(id: string, error: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.deliveryJob.update({
+            where: { id },
+            data: {
+                status: 'dead',
+                lockedUntil: null,
+                lastError: error,
+            },
+        });
+    }
+
+    /**
+     * Queue a dead job again with a fresh set of attempts
+     * Returns null if the job is not dead
+     */
+    async requeueDead(id: string, maxAttempts: number, tx: TransactionClient = prisma): Promise<DeliveryJob | null> {
+        const result = await tx.deliveryJob.updateMany({
+            where: { id, status: 'dead' },
+            data: {
+                status: 'pending',
+                attempts: 0,
+                maxAttempts,
+                nextAttemptAt: new Date(),
+                lastError: null,
+            },
+        });
+        if (result.count === 0) return null;
+
+        return tx.deliveryJob.findUnique({
+            where: { id },
+        });
+    }
+}
+
+export const deliveryJobRepository = new DeliveryJobRepository();
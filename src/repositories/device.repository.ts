@@ -0,0 +1,103 @@
+// =============================================================================
+// Blink Engine - Device Repository
+// =============================================================================
+// Push token registry data access layer
+
+import { prisma, TransactionClient } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Device {
+    id: string;
+    userId: string;
+    sessionId: string | null;
+    provider: string;
+    token: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+interface RegisterDeviceInput {
+    userId: string;
+    sessionId?: string;
+    provider: string;
+    token: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class DeviceRepository {
+    /**
+     * Register a push token
+     * A token already registered (e.g. the phone changed hands) moves to the new user and session
+     */
+    async register(input: RegisterDeviceInput): Promise<Device> {
+        return prisma.device.upsert({
+            where: { token: input.token },
+            create: {
+                userId: input.userId,
+                sessionId: input.sessionId,
+                provider: input.provider,
+                token: input.token,
+            },
+            update: {
+                userId: input.userId,
+                sessionId: input.sessionId ?? null,
+                provider: input.provider,
+            },
+        });
+    }
+
+    /**
+     * Find every registered device of a user
+     */
+    async findByUserId(userId: string): Promise<Device[]> {
+        return prisma.device.findMany({
+            where: { userId },
+        });
+    }
+
+    /**
+     * Remove a token registered by the user
+     * Returns false if the user has no such token
+     */
+    async deleteForUser(userId: string, token: string): Promise<boolean> {
+        const result = await prisma.device.deleteMany({
+            where: { userId, token },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Remove a token the push provider no longer accepts
+     */
+    async deleteByToken(token: string): Promise<void> {
+        await prisma.device.deleteMany({
+            where: { token },
+        });
+    }
+
+    /**
+     * Remove the devices of a session that signed out
+     */
+    async deleteBySession(sessionId: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.device.deleteMany({
+            where: { sessionId },
+        });
+    }
+
+    /**
+     * Remove every device of a user (signed out everywhere)
+     */
+    async deleteAllForUser(userId: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.device.deleteMany({
+            where: { userId },
+        });
+    }
+}
+
+export const deviceRepository = new DeviceRepository();
@@ -0,0 +1,73 @@
+// =============================================================================
+// Blink Engine - Inbound SMS Repository
+// =============================================================================
+// Received SMS commands data access layer
+
+import { prisma } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface InboundSms {
+    id: string;
+    providerMessageId: string;
+    fromNumber: string;
+    body: string;
+    userId: string | null;
+    command: string | null;
+    status: string;
+    sosEventId: string | null;
+    error: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+interface CreateInboundSmsInput {
+    providerMessageId: string;
+    fromNumber: string;
+    body: string;
+}
+
+interface InboundSmsOutcome {
+    userId?: string;
+    command: string;
+    status: 'processed' | 'rejected' | 'ignored';
+    sosEventId?: string;
+    error?: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class InboundSmsRepository {
+    /**
+     * Store a message unless its provider message ID was seen before
+     * Returns the stored row either way
+     */
+    async createIfAbsent(input: CreateInboundSmsInput): Promise<InboundSms> {
+        await prisma.inboundSms.createMany({
+            data: [input],
+            skipDuplicates: true,
+        });
+
+        return prisma.inboundSms.findUniqueOrThrow({
+            where: { providerMessageId: input.providerMessageId },
+        });
+    }
+
+    /**
+     * Record how a message was handled
+     * Returns false if another delivery of the same message got there first
+     */
+    async recordOutcome(id: string, outcome: InboundSmsOutcome): Promise<boolean> {
+        const result = await prisma.inboundSms.updateMany({
+            where: { id, status: 'received' },
+            data: outcome,
+        });
+        return result.count > 0;
+    }
+}
+
+export const inboundSmsRepository = new InboundSmsRepository();
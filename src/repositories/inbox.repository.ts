@@ -0,0 +1,111 @@
+// =============================================================================
+// Blink Engine - Inbox Repository
+// =============================================================================
+// Persisted notification inbox data access layer
+
+import { prisma } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface InboxItem {
+    id: string;
+    userId: string;
+    type: string;
+    title: string;
+    body: string;
+    data: Prisma.JsonValue;
+    dedupKey: string | null;
+    readAt: Date | null;
+    createdAt: Date;
+}
+
+interface CreateInboxItemInput {
+    userId: string;
+    type: string;
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+    dedupKey?: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class InboxRepository {
+    /**
+     * Add items to inboxes
+     * Items whose dedup key the user already has are skipped; only new items are returned
+     */
+    async createMany(inputs: CreateInboxItemInput[]): Promise<InboxItem[]> {
+        if (inputs.length === 0) return [];
+
+        return prisma.inboxItem.createManyAndReturn({
+            data: inputs.map((input) => ({
+                ...input,
+                data: input.data as Prisma.InputJsonValue | undefined,
+            })),
+            skipDuplicates: true,
+        });
+    }
+
+    /**
+     * Newest items first, starting after the cursor item
+     * Fetches one extra item so the caller knows whether there is another page
+     */
+    async findPage(userId: string, limit: number, cursor?: string): Promise<InboxItem[]> {
+        return prisma.inboxItem.findMany({
+            where: { userId },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: limit + 1,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+    }
+
+    /**
+     * Whether an item exists in the user's inbox (cursor check)
+     */
+    async existsForUser(id: string, userId: string): Promise<boolean> {
+        const count = await prisma.inboxItem.count({
+            where: { id, userId },
+        });
+        return count > 0;
+    }
+
+    /**
+     * Count unread items
+     */
+    async countUnread(userId: string): Promise<number> {
+        return prisma.inboxItem.count({
+            where: { userId, readAt: null },
+        });
+    }
+
+    /**
+     * Mark some of the user's items as read
+     * Returns the number of items that were unread
+     */
+    async markRead(userId: string, ids: string[]): Promise<number> {
+        const result = await prisma.inboxItem.updateMany({
+            where: { id: { in: ids }, userId, readAt: null },
+            data: { readAt: new Date() },
+        });
+        return result.count;
+    }
+
+    /**
+     * Mark every item of the user as read
+     */
+    async markAllRead(userId: string): Promise<number> {
+        const result = await prisma.inboxItem.updateMany({
+            where: { userId, readAt: null },
+            data: { readAt: new Date() },
+        });
+        return result.count;
+    }
+}
+
+export const inboxRepository = new InboxRepository();
@@ -0,0 +1,164 @@
+// =============================================================================
+// Blink Engine - Journey Repository
+// =============================================================================
+// "Walk me home" journey data access layer
+
+import { prisma } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Journey {
+    id: string;
+    userId: string;
+    destinationLatitude: number;
+    destinationLongitude: number;
+    destinationName: string | null;
+    arrivalRadiusMeters: number;
+    expectedArrivalAt: Date;
+    watchers: Prisma.JsonValue;
+    status: string;
+    lastLatitude: number | null;
+    lastLongitude: number | null;
+    lastUpdateAt: Date | null;
+    movedAt: Date;
+    anchorLatitude: number | null;
+    anchorLongitude: number | null;
+    overdueAlertedAt: Date | null;
+    stationaryAlertedAt: Date | null;
+    arrivedAt: Date | null;
+    endedAt: Date | null;
+    sosEventId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Snapshot of a chosen contact stored in Journey.watchers
+ */
+export interface JourneyWatcher {
+    contactId: string;
+    contactUserId: string;
+    name: string;
+}
+
+interface CreateJourneyInput {
+    userId: string;
+    destinationLatitude: number;
+    destinationLongitude: number;
+    destinationName?: string;
+    arrivalRadiusMeters?: number;
+    expectedArrivalAt: Date;
+    watchers: JourneyWatcher[];
+    anchorLatitude?: number;
+    anchorLongitude?: number;
+}
+
+interface RecordProgressInput {
+    lastLatitude: number;
+    lastLongitude: number;
+    lastUpdateAt: Date;
+    movedAt?: Date;
+    anchorLatitude?: number;
+    anchorLongitude?: number;
+    stationaryAlertedAt?: null;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class JourneyRepository {
+    /**
+     * Create an active journey
+     */
+    async create(input: CreateJourneyInput): Promise<Journey> {
+        return prisma.journey.create({
+            data: {
+                ...input,
+                watchers: input.watchers as unknown as Prisma.InputJsonValue,
+            },
+        });
+    }
+
+    /**
+     * Find journey by ID
+     */
+    async findById(id: string): Promise<Journey | null> {
+        return prisma.journey.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find the active journey of a user
+     */
+    async findActiveByUserId(userId: string): Promise<Journey | null> {
+        return prisma.journey.findFirst({
+            where: { userId, status: 'active' },
+        });
+    }
+
+    /**
+     * Find all active journeys (scheduler scan)
+     */
+    async findAllActive(): Promise<Journey[]> {
+        return prisma.journey.findMany({
+            where: { status: 'active' },
+            orderBy: { expectedArrivalAt: 'asc' },
+        });
+    }
+
+    /**
+     * Record a location update on an active journey
+     */
+    async recordProgress(id: string, input: RecordProgressInput): Promise<void> {
+        await prisma.journey.updateMany({
+            where: { id, status: 'active' },
+            data: input,
+        });
+    }
+
+    /**
+     * Record that an alert was sent, once per journey (overdue) or per stop (stationary)
+     * Returns false if it was already recorded
+     */
+    async markAlerted(id: string, reason: 'overdue' | 'stationary'): Promise<boolean> {
+        const field = reason === 'overdue' ? 'overdueAlertedAt' : 'stationaryAlertedAt';
+        const result = await prisma.journey.updateMany({
+            where: { id, status: 'active', [field]: null },
+            data: { [field]: new Date() },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * End an active journey
+     * Returns null if it had already ended
+     */
+    async end(
+        id: string,
+        status: 'arrived' | 'cancelled' | 'escalated',
+        sosEventId?: string
+    ): Promise<Journey | null> {
+        const now = new Date();
+        const result = await prisma.journey.updateMany({
+            where: { id, status: 'active' },
+            data: {
+                status,
+                endedAt: now,
+                arrivedAt: status === 'arrived' ? now : undefined,
+                sosEventId,
+            },
+        });
+        if (result.count === 0) {
+            return null;
+        }
+
+        return prisma.journey.findUnique({ where: { id } });
+    }
+}
+
+export const journeyRepository = new JourneyRepository();
@@ -20,6 +20,7 @@ export interface Location {
     heading: number | null;
     timestamp: Date;
     createdAt: Date;
+    sosEventId: string | null;
 }
 
 interface CreateLocationInput {
@@ -31,6 +32,7 @@ interface CreateLocationInput {
     speed?: number;
     heading?: number;
     timestamp: Date;
+    sosEventId?: string;
 }
 
 // =============================================================================
@@ -94,13 +96,25 @@ class LocationRepository {
         });
     }
 
+    /**
+     * Find the trail of an SOS event, oldest first
+     */
+    async findBySosEventId(sosEventId: string): Promise<Location[]> {
+        return prisma.location.findMany({
+            where: { sosEventId },
+            orderBy: { timestamp: 'asc' },
+        });
+    }
+
     /**
      * Delete old location records (data retention)
+     * SOS trails are kept - they are part of the emergency record
      */
     async deleteOlderThan(date: Date): Promise<number> {
         const result = await prisma.location.deleteMany({
             where: {
                 timestamp: { lt: date },
+                sosEventId: null,
             },
         });
         return result.count;
@@ -0,0 +1,59 @@
+// =============================================================================
+// Blink Engine - Notification Delivery Repository
+// =============================================================================
+// Persistence for per-contact, per-channel notification attempts
+
+import { prisma } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NotificationDelivery {
+    id: string;
+    sosEventId: string | null;
+    contactId: string | null;
+    channel: string;
+    destination: string;
+    status: string;
+    providerMessageId: string | null;
+    error: string | null;
+    createdAt: Date;
+}
+
+interface CreateNotificationDeliveryInput {
+    sosEventId?: string;
+    contactId?: string;
+    channel: string;
+    destination: string;
+    status: 'sent' | 'failed' | 'skipped';
+    providerMessageId?: string;
+    error?: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class NotificationDeliveryRepository {
+    /**
+     * Record a delivery attempt
+     */
+    async create(input: CreateNotificationDeliveryInput): Promise<NotificationDelivery> {
+        return prisma.notificationDelivery.create({
+            data: input,
+        });
+    }
+
+    /**
+     * Find all delivery attempts for an SOS event
+     */
+    async findBySosEventId(sosEventId: string): Promise<NotificationDelivery[]> {
+        return prisma.notificationDelivery.findMany({
+            where: { sosEventId },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+}
+
+export const notificationDeliveryRepository = new NotificationDeliveryRepository();
@@ -0,0 +1,74 @@
+// =============================================================================
+// Blink Engine - Notification Preference Repository
+// =============================================================================
+// Per-user notification settings data access layer
+
+import { prisma } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface NotificationPreferenceRecord {
+    userId: string;
+    channels: Prisma.JsonValue;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    timeZone: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+interface SaveNotificationPreferenceInput {
+    channels: Record<string, string[]>;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    timeZone: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class NotificationPreferenceRepository {
+    /**
+     * Find the settings of a user (null until they change something)
+     */
+    async findByUserId(userId: string): Promise<NotificationPreferenceRecord | null> {
+        return prisma.notificationPreference.findUnique({
+            where: { userId },
+        });
+    }
+
+    /**
+     * Find the settings of several users
+     */
+    async findByUserIds(userIds: string[]): Promise<NotificationPreferenceRecord[]> {
+        if (userIds.length === 0) return [];
+
+        return prisma.notificationPreference.findMany({
+            where: { userId: { in: userIds } },
+        });
+    }
+
+    /**
+     * Create or replace the settings of a user
+     */
+    async save(userId: string, input: SaveNotificationPreferenceInput): Promise<NotificationPreferenceRecord> {
+        const data = {
+            channels: input.channels as Prisma.InputJsonValue,
+            quietHoursStart: input.quietHoursStart,
+            quietHoursEnd: input.quietHoursEnd,
+            timeZone: input.timeZone,
+        };
+
+        return prisma.notificationPreference.upsert({
+            where: { userId },
+            create: { userId, ...data },
+            update: data,
+        });
+    }
+}
+
+export const notificationPreferenceRepository = new NotificationPreferenceRepository();
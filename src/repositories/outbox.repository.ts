@@ -0,0 +1,142 @@
+// =============================================================================
+// Blink Engine - Outbox Repository
+// =============================================================================
+// Transactional outbox data access layer
+
+import { prisma, TransactionClient } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OutboxMessage {
+    id: string;
+    topic: string;
+    payload: Prisma.JsonValue;
+    dedupKey: string;
+    status: string;
+    attempts: number;
+    nextAttemptAt: Date;
+    lockedUntil: Date | null;
+    lastError: string | null;
+    deliveredAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface EnqueueOutboxInput {
+    topic: string;
+    dedupKey: string;
+    payload: Record<string, unknown>;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class OutboxRepository {
+    /**
+     * Enqueue messages - call with the transaction client of the state change
+     * Messages whose dedup key already exists are ignored
+     */
+    async enqueue(messages: EnqueueOutboxInput[], tx: TransactionClient = prisma): Promise<number> {
+        if (messages.length === 0) return 0;
+
+        const result = await tx.outboxMessage.createMany({
+            data: messages.map((message) => ({
+                topic: message.topic,
+                dedupKey: message.dedupKey,
+                payload: message.payload as Prisma.InputJsonValue,
+            })),
+            skipDuplicates: true,
+        });
+        return result.count;
+    }
+
+    /**
+     * Claim a batch of due messages for processing
+     * Uses SKIP LOCKED so concurrent relays never claim the same message.
+     * Messages left in processing by a crashed relay are reclaimed once their lock expires.
+     */
+    async claimDue(limit: number, lockMs: number): Promise<OutboxMessage[]> {
+        const now = new Date();
+        const lockedUntil = new Date(now.getTime() + lockMs);
+
+        return prisma.$queryRaw<OutboxMessage[]>`
+            UPDATE "outbox_messages"
+            SET "status" = 'processing',
+                "lockedUntil" = ${lockedUntil},
+                "attempts" = "attempts" + 1,
+                "updatedAt" = ${now}
+            WHERE "id" IN (
+                SELECT "id" FROM "outbox_messages"
+                WHERE ("status" = 'pending' AND "nextAttemptAt" <= ${now})
+                   OR ("status" = 'processing' AND "lockedUntil" < ${now})
+                ORDER BY "createdAt" ASC
+                LIMIT ${limit}
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING *
+        `;
+    }
+
+    /**
+     * Mark a message as delivered
+     */
+    async markDelivered(id: string): Promise<void> {
+        await prisma.outboxMessage.update({
+            where: { id },
+            data: {
+                status: 'delivered',
+                deliveredAt: new Date(),
+                lockedUntil: null,
+                lastError: null,
+            },
+        });
+    }
+
+    /**
+     * Schedule another attempt after a failure
+     */
+    async scheduleRetry(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+        await prisma.outboxMessage.update({
+            where: { id },
+            data: {
+                status: 'pending',
+                lockedUntil: null,
+                lastError: error,
+                nextAttemptAt,
+            },
+        });
+    }
+
+    /**
+     * Give up on a message after the maximum number of attempts
+     */
+    async markFailed(id: string, error: string): Promise<void> {
+        await prisma.outboxMessage.update({
+            where: { id },
+            data: {
+                status: 'failed',
+                lockedUntil: null,
+                lastError: error,
+            },
+        });
+    }
+
+    /**
+     * Delete delivered messages older than a date (cleanup job)
+     */
+    async deleteDeliveredBefore(date: Date): Promise<number> {
+        const result = await prisma.outboxMessage.deleteMany({
+            where: {
+                status: 'delivered',
+                deliveredAt: { lt: date },
+            },
+        });
+        return result.count;
+    }
+}
+
+export const outboxRepository = new OutboxRepository();
@@ -0,0 +1,101 @@
+// =============================================================================
+// Blink Engine - Phone Verification Repository
+// =============================================================================
+// SMS one-time code data access layer (hashes only)
+
+import { prisma, TransactionClient } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PhoneVerification {
+    id: string;
+    userId: string;
+    phoneNumber: string;
+    codeHash: string;
+    attempts: number;
+    expiresAt: Date;
+    verifiedAt: Date | null;
+    supersededAt: Date | null;
+    createdAt: Date;
+}
+
+interface CreatePhoneVerificationInput {
+    userId: string;
+    phoneNumber: string;
+    codeHash: string;
+    expiresAt: Date;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class PhoneVerificationRepository {
+    /**
+     * Create a code
+     */
+    async create(input: CreatePhoneVerificationInput, tx: TransactionClient = prisma): Promise<PhoneVerification> {
+        return tx.phoneVerification.create({
+            data: input,
+        });
+    }
+
+    /**
+     * Invalidate the user's outstanding codes
+     */
+    async supersedePending(userId: string, tx: TransactionClient = prisma): Promise<number> {
+        const result = await tx.phoneVerification.updateMany({
+            where: { userId, verifiedAt: null, supersededAt: null },
+            data: { supersededAt: new Date() },
+        });
+        return result.count;
+    }
+
+    /**
+     * Most recently sent code of a user (for the resend cooldown)
+     */
+    async findLatestByUserId(userId: string): Promise<PhoneVerification | null> {
+        return prisma.phoneVerification.findFirst({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * The user's outstanding code, if any
+     */
+    async findPendingByUserId(userId: string): Promise<PhoneVerification | null> {
+        return prisma.phoneVerification.findFirst({
+            where: { userId, verifiedAt: null, supersededAt: null },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Count an attempt, unless the limit is already reached
+     * Returns false once no attempts are left (concurrent guesses cannot exceed the limit)
+     */
+    async recordAttempt(id: string, maxAttempts: number): Promise<boolean> {
+        const result = await prisma.phoneVerification.updateMany({
+            where: { id, verifiedAt: null, supersededAt: null, attempts: { lt: maxAttempts } },
+            data: { attempts: { increment: 1 } },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Mark a code as verified
+     * Returns false if it was already used or superseded
+     */
+    async markVerified(id: string, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.phoneVerification.updateMany({
+            where: { id, verifiedAt: null, supersededAt: null },
+            data: { verifiedAt: new Date() },
+        });
+        return result.count > 0;
+    }
+}
+
+export const phoneVerificationRepository = new PhoneVerificationRepository();
@@ -0,0 +1,117 @@
+// =============================================================================
+// Blink Engine - Place Repository
+// =============================================================================
+// Saved places (geofences) data access layer
+
+import { prisma } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Place {
+    id: string;
+    userId: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    radiusMeters: number;
+    isInside: boolean;
+    presenceChangedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+interface CreatePlaceInput {
+    userId: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    radiusMeters?: number;
+    isInside: boolean;
+}
+
+interface UpdatePlaceInput {
+    name?: string;
+    latitude?: number;
+    longitude?: number;
+    radiusMeters?: number;
+    isInside?: boolean;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class PlaceRepository {
+    /**
+     * Create a place
+     */
+    async create(input: CreatePlaceInput): Promise<Place> {
+        return prisma.place.create({
+            data: input,
+        });
+    }
+
+    /**
+     * Find place by ID and owner
+     */
+    async findByIdAndUserId(id: string, userId: string): Promise<Place | null> {
+        return prisma.place.findFirst({
+            where: { id, userId },
+        });
+    }
+
+    /**
+     * Find all places of a user
+     */
+    async findAllByUserId(userId: string): Promise<Place[]> {
+        return prisma.place.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    /**
+     * Count places of a user
+     */
+    async countByUserId(userId: string): Promise<number> {
+        return prisma.place.count({
+            where: { userId },
+        });
+    }
+
+    /**
+     * Update a place
+     */
+    async update(id: string, input: UpdatePlaceInput): Promise<Place> {
+        return prisma.place.update({
+            where: { id },
+            data: input,
+        });
+    }
+
+    /**
+     * Flip the presence state of a place
+     * Conditional on the previous state so concurrent updates emit one transition
+     * Returns false if the state had already changed
+     */
+    async setPresence(id: string, isInside: boolean, changedAt: Date): Promise<boolean> {
+        const result = await prisma.place.updateMany({
+            where: { id, isInside: !isInside },
+            data: { isInside, presenceChangedAt: changedAt },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Delete a place
+     */
+    async delete(id: string): Promise<void> {
+        await prisma.place.delete({
+            where: { id },
+        });
+    }
+}
+
+export const placeRepository = new PlaceRepository();
@@ -0,0 +1,50 @@
+// =============================================================================
+// Blink Engine - Recovery Code Repository
+// =============================================================================
+// Two-factor recovery code data access layer (hashes only)
+
+import { prisma, TransactionClient } from '../config/database.js';
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class RecoveryCodeRepository {
+    /**
+     * Replace every recovery code of a user (pass none to delete them)
+     */
+    async replaceForUser(userId: string, codeHashes: string[], tx: TransactionClient = prisma): Promise<void> {
+        await tx.recoveryCode.deleteMany({
+            where: { userId },
+        });
+
+        if (codeHashes.length > 0) {
+            await tx.recoveryCode.createMany({
+                data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+            });
+        }
+    }
+
+    /**
+     * Use up a recovery code
+     * Returns false if the user has no such unused code
+     */
+    async consume(userId: string, codeHash: string): Promise<boolean> {
+        const result = await prisma.recoveryCode.updateMany({
+            where: { userId, codeHash, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Count the recovery codes a user has left
+     */
+    async countUnused(userId: string): Promise<number> {
+        return prisma.recoveryCode.count({
+            where: { userId, usedAt: null },
+        });
+    }
+}
+
+export const recoveryCodeRepository = new RecoveryCodeRepository();
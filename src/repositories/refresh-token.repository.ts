@@ -3,7 +3,7 @@
 // =============================================================================
 // Refresh token data access layer
 
-import { prisma } from '../config/database.js';
+import { prisma, TransactionClient } from '../config/database.js';
 
 // =============================================================================
 // Types
@@ -43,8 +43,8 @@ class RefreshTokenRepository {
     /**
      * Create a new refresh token
      */
-    async create(input: CreateRefreshTokenInput): Promise<RefreshToken> {
-        return prisma.refreshToken.create({
+    async create(input: CreateRefreshTokenInput, tx: TransactionClient = prisma): Promise<RefreshToken> {
+        return tx.refreshToken.create({
             data: input,
         });
     }
@@ -60,20 +60,20 @@ class RefreshTokenRepository {
     }
 
     /**
-     * Revoke all tokens in a family (token rotation breach detected)
+     * Revoke all tokens in a family (token reuse detected or session signed out)
      */
-    async revokeFamily(family: string): Promise<void> {
-        await prisma.refreshToken.updateMany({
+    async revokeFamily(family: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.refreshToken.updateMany({
             where: { family },
             data: { revoked: true },
         });
     }
 
     /**
-     * Revoke all tokens for a user (logout)
+     * Revoke all tokens for a user (logout, password reset or change)
      */
-    async revokeAllForUser(userId: string): Promise<void> {
-        await prisma.refreshToken.updateMany({
+    async revokeAllForUser(userId: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.refreshToken.updateMany({
             where: { userId },
             data: { revoked: true },
         });
@@ -0,0 +1,125 @@
+// =============================================================================
+// Blink Engine - Session Repository
+// =============================================================================
+// Signed-in devices (one per refresh token family) data access layer
+
+import { prisma, TransactionClient } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Session {
+    family: string;
+    userId: string;
+    deviceName: string | null;
+    platform: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    revokedAt: Date | null;
+}
+
+interface CreateSessionInput {
+    family: string;
+    userId: string;
+    deviceName?: string;
+    platform?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface TouchSessionInput {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class SessionRepository {
+    /**
+     * Create a session for a new refresh token family
+     */
+    async create(input: CreateSessionInput, tx: TransactionClient = prisma): Promise<Session> {
+        return tx.session.create({
+            data: input,
+        });
+    }
+
+    /**
+     * Find a session by its refresh token family
+     */
+    async findByFamily(family: string): Promise<Session | null> {
+        return prisma.session.findUnique({
+            where: { family },
+        });
+    }
+
+    /**
+     * Find sessions by family (e.g. to describe the devices that triggered SOS events)
+     */
+    async findByFamilies(families: string[]): Promise<Session[]> {
+        if (families.length === 0) return [];
+
+        return prisma.session.findMany({
+            where: { family: { in: families } },
+        });
+    }
+
+    /**
+     * Sessions of a user that are still signed in, most recently used first
+     */
+    async findActiveByUserId(userId: string): Promise<Session[]> {
+        return prisma.session.findMany({
+            where: { userId, revokedAt: null },
+            orderBy: { lastUsedAt: 'desc' },
+        });
+    }
+
+    /**
+     * Record use of a session on token refresh
+     */
+    async touch(family: string, input: TouchSessionInput): Promise<void> {
+        await prisma.session.updateMany({
+            where: { family, revokedAt: null },
+            data: {
+                lastUsedAt: new Date(),
+                ...(input.ipAddress && { ipAddress: input.ipAddress }),
+                ...(input.userAgent && { userAgent: input.userAgent }),
+            },
+        });
+    }
+
+    /**
+     * Mark a session as signed out
+     * Returns false if it was already revoked
+     */
+    async revoke(family: string, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.session.updateMany({
+            where: { family, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Mark every session of a user as signed out (logout everywhere, password reset or change)
+     * Returns the families that were signed out so their sockets can be closed
+     */
+    async revokeAllForUser(userId: string, tx: TransactionClient = prisma): Promise<string[]> {
+        const sessions = await tx.session.findMany({
+            where: { userId, revokedAt: null },
+            select: { family: true },
+        });
+        await tx.session.updateMany({
+            where: { userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        return sessions.map((session) => session.family);
+    }
+}
+
+export const sessionRepository = new SessionRepository();
@@ -0,0 +1,93 @@
+// =============================================================================
+// Blink Engine - SOS Share Token Repository
+// =============================================================================
+// Public SOS viewer token data access layer
+
+import { prisma, TransactionClient } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SosShareToken {
+    id: string;
+    sosEventId: string;
+    contactId: string;
+    expiresAt: Date;
+    revokedAt: Date | null;
+    lastAccessedAt: Date | null;
+    createdAt: Date;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class SosShareTokenRepository {
+    /**
+     * Create one token per contact for an SOS event
+     * Contacts that already have a token for the event are ignored
+     */
+    async createForContacts(
+        sosEventId: string,
+        contactIds: string[],
+        expiresAt: Date,
+        tx: TransactionClient = prisma
+    ): Promise<number> {
+        if (contactIds.length === 0) return 0;
+
+        const result = await tx.sosShareToken.createMany({
+            data: contactIds.map((contactId) => ({ sosEventId, contactId, expiresAt })),
+            skipDuplicates: true,
+        });
+        return result.count;
+    }
+
+    /**
+     * Find token by ID (the signed token's jti)
+     */
+    async findById(id: string): Promise<SosShareToken | null> {
+        return prisma.sosShareToken.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Find all tokens of an SOS event that are neither revoked nor expired
+     */
+    async findValidBySosEventId(sosEventId: string): Promise<SosShareToken[]> {
+        return prisma.sosShareToken.findMany({
+            where: {
+                sosEventId,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+    }
+
+    /**
+     * Record an access through the token
+     */
+    async touch(id: string): Promise<void> {
+        await prisma.sosShareToken.update({
+            where: { id },
+            data: { lastAccessedAt: new Date() },
+        });
+    }
+
+    /**
+     * Revoke all tokens of an SOS event (when it ends)
+     */
+    async revokeBySosEventId(sosEventId: string, tx: TransactionClient = prisma): Promise<number> {
+        const result = await tx.sosShareToken.updateMany({
+            where: {
+                sosEventId,
+                revokedAt: null,
+            },
+            data: { revokedAt: new Date() },
+        });
+        return result.count;
+    }
+}
+
+export const sosShareTokenRepository = new SosShareTokenRepository();
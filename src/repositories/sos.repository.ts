@@ -3,37 +3,71 @@
 // =============================================================================
 // SOS event data access layer
 
-import { prisma } from '../config/database.js';
+import { prisma, TransactionClient } from '../config/database.js';
 import { Prisma } from '@prisma/client';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * Statuses of an SOS that is still unfolding
+ * `duress` is an SOS the user was forced to cancel - it looks cancelled to the user only
+ */
+export const LIVE_SOS_STATUSES = ['active', 'duress'];
+
+/**
+ * Events that should keep climbing the escalation ladder
+ * Acknowledgements stop escalation, except under duress
+ */
+const ESCALATABLE: Prisma.SosEventWhereInput[] = [
+    { status: 'active', acknowledgedAt: null },
+    { status: 'duress' },
+];
+
 export interface SosEvent {
     id: string;
     userId: string;
     triggeredAt: Date;
     cancelledAt: Date | null;
     resolvedAt: Date | null;
+    expiredAt: Date | null;
+    armedUntil: Date | null;
     latitude: number;
     longitude: number;
     status: string;
     notifiedContacts: Prisma.JsonValue;
     auditLog: Prisma.JsonValue;
     idempotencyKey: string | null;
+    escalationLevel: number;
+    lastEscalatedAt: Date | null;
+    acknowledgedAt: Date | null;
+    sessionId: string | null;
     createdAt: Date;
     updatedAt: Date;
 }
 
+/**
+ * Snapshot of a contact stored in SosEvent.notifiedContacts
+ */
+export interface NotifiedContact {
+    id: string;
+    name: string;
+    phoneNumber: string;
+    email?: string | null;
+    contactUserId?: string | null;
+}
+
 interface CreateSosEventInput {
     userId: string;
     latitude: number;
     longitude: number;
     triggeredAt: Date;
+    armedUntil?: Date;
     idempotencyKey?: string;
-    notifiedContacts?: unknown[];
+    notifiedContacts?: NotifiedContact[];
     auditLog?: unknown[];
+    sessionId?: string;
 }
 
 // =============================================================================
@@ -41,6 +75,15 @@ interface CreateSosEventInput {
 // =============================================================================
 
 class SosRepository {
+    /**
+     * Find SOS event by ID
+     */
+    async findById(id: string): Promise<SosEvent | null> {
+        return prisma.sosEvent.findUnique({
+            where: { id },
+        });
+    }
+
     /**
      * Find active SOS event for a user
      */
@@ -53,6 +96,44 @@ class SosRepository {
         });
     }
 
+    /**
+     * Find the live (active or duress) SOS event for a user
+     */
+    async findLiveByUserId(userId: string): Promise<SosEvent | null> {
+        return prisma.sosEvent.findFirst({
+            where: {
+                userId,
+                status: { in: LIVE_SOS_STATUSES },
+            },
+            orderBy: { triggeredAt: 'desc' },
+        });
+    }
+
+    /**
+     * Find the armed SOS event (countdown running) for a user
+     */
+    async findArmedByUserId(userId: string): Promise<SosEvent | null> {
+        return prisma.sosEvent.findFirst({
+            where: {
+                userId,
+                status: 'armed',
+            },
+        });
+    }
+
+    /**
+     * Find armed SOS events whose countdown has elapsed
+     */
+    async findArmedDue(now: Date): Promise<SosEvent[]> {
+        return prisma.sosEvent.findMany({
+            where: {
+                status: 'armed',
+                armedUntil: { lte: now },
+            },
+            orderBy: { armedUntil: 'asc' },
+        });
+    }
+
     /**
      * Find SOS event by idempotency key
      */
@@ -76,17 +157,19 @@ class SosRepository {
     /**
      * Create a new SOS event
      */
-    async create(input: CreateSosEventInput): Promise<SosEvent> {
-        return prisma.sosEvent.create({
+    async create(input: CreateSosEventInput, tx: TransactionClient = prisma): Promise<SosEvent> {
+        return tx.sosEvent.create({
             data: {
                 userId: input.userId,
                 latitude: input.latitude,
                 longitude: input.longitude,
                 triggeredAt: input.triggeredAt,
+                armedUntil: input.armedUntil,
                 idempotencyKey: input.idempotencyKey,
-                notifiedContacts: input.notifiedContacts as Prisma.InputJsonValue,
+                notifiedContacts: input.notifiedContacts as unknown as Prisma.InputJsonValue,
                 auditLog: input.auditLog as Prisma.InputJsonValue,
-                status: 'active',
+                sessionId: input.sessionId,
+                status: input.armedUntil ? 'armed' : 'active',
             },
         });
     }
@@ -94,23 +177,61 @@ class SosRepository {
     /**
      * Cancel an SOS event
      */
-    async cancel(id: string, reason?: string): Promise<SosEvent> {
-        const existing = await prisma.sosEvent.findUnique({ where: { id } });
-        const currentAuditLog = (existing?.auditLog as unknown[]) || [];
+    async cancel(id: string, reason?: string, tx: TransactionClient = prisma): Promise<SosEvent> {
+        await this.addAuditEntries(id, [{
+            action: 'CANCELLED',
+            reason,
+            timestamp: new Date().toISOString(),
+        }], tx);
 
-        return prisma.sosEvent.update({
+        return tx.sosEvent.update({
             where: { id },
             data: {
                 status: 'cancelled',
                 cancelledAt: new Date(),
-                auditLog: [
-                    ...currentAuditLog,
-                    {
-                        action: 'CANCELLED',
-                        reason,
-                        timestamp: new Date().toISOString(),
-                    },
-                ] as Prisma.InputJsonValue,
+            },
+        });
+    }
+
+    /**
+     * Activate an armed SOS event once its countdown has elapsed
+     * triggeredAt becomes the activation time (createdAt keeps when it was armed).
+     * Returns null if the event is no longer armed (cancelled or already activated).
+     */
+    async activate(id: string, tx: TransactionClient = prisma): Promise<SosEvent | null> {
+        return this.transitionFromArmed(id, 'active', (now) => ({
+            triggeredAt: now,
+            entry: { action: 'TRIGGERED', afterCountdown: true, timestamp: now.toISOString() },
+        }), tx);
+    }
+
+    /**
+     * Cancel an armed SOS event during its countdown
+     * Returns null if the event is no longer armed (the countdown elapsed first)
+     */
+    async disarm(id: string, reason?: string, tx: TransactionClient = prisma): Promise<SosEvent | null> {
+        return this.transitionFromArmed(id, 'cancelled', (now) => ({
+            cancelledAt: now,
+            entry: { action: 'CANCELLED', reason, duringCountdown: true, timestamp: now.toISOString() },
+        }), tx);
+    }
+
+    /**
+     * Move an SOS event to duress (cancelled with the duress PIN)
+     * cancelledAt is set so the event can be presented to the user as cancelled
+     */
+    async markDuress(id: string, reason?: string, tx: TransactionClient = prisma): Promise<SosEvent> {
+        await this.addAuditEntries(id, [{
+            action: 'DURESS_CANCEL',
+            reason,
+            timestamp: new Date().toISOString(),
+        }], tx);
+
+        return tx.sosEvent.update({
+            where: { id },
+            data: {
+                status: 'duress',
+                cancelledAt: new Date(),
             },
         });
     }
@@ -118,52 +239,230 @@ class SosRepository {
     /**
      * Resolve an SOS event
      */
-    async resolve(id: string): Promise<SosEvent> {
-        const existing = await prisma.sosEvent.findUnique({ where: { id } });
-        const currentAuditLog = (existing?.auditLog as unknown[]) || [];
+    async resolve(id: string, tx: TransactionClient = prisma): Promise<SosEvent> {
+        await this.addAuditEntries(id, [{
+            action: 'RESOLVED',
+            timestamp: new Date().toISOString(),
+        }], tx);
 
-        return prisma.sosEvent.update({
+        return tx.sosEvent.update({
             where: { id },
             data: {
                 status: 'resolved',
                 resolvedAt: new Date(),
-                auditLog: [
-                    ...currentAuditLog,
-                    {
-                        action: 'RESOLVED',
-                        timestamp: new Date().toISOString(),
-                    },
-                ] as Prisma.InputJsonValue,
             },
         });
     }
 
     /**
-     * Add entry to audit log
+     * Resolve a live (active or duress) SOS event for a member of the user's circle
+     * Returns null if the event is no longer live
      */
-    async addAuditEntry(id: string, entry: Record<string, unknown>): Promise<void> {
-        const existing = await prisma.sosEvent.findUnique({ where: { id } });
-        const currentAuditLog = (existing?.auditLog as unknown[]) || [];
+    async resolveByCircle(
+        id: string,
+        resolvedBy: { userId: string; contactId: string },
+        tx: TransactionClient = prisma
+    ): Promise<SosEvent | null> {
+        const result = await tx.sosEvent.updateMany({
+            where: { id, status: { in: LIVE_SOS_STATUSES } },
+            data: {
+                status: 'resolved',
+                resolvedAt: new Date(),
+            },
+        });
+        if (result.count === 0) {
+            return null;
+        }
 
-        await prisma.sosEvent.update({
-            where: { id },
+        await this.addAuditEntries(id, [{
+            action: 'RESOLVED',
+            userId: resolvedBy.userId,
+            contactId: resolvedBy.contactId,
+            timestamp: new Date().toISOString(),
+        }], tx);
+
+        return tx.sosEvent.findUnique({ where: { id } });
+    }
+
+    /**
+     * Expire an SOS event
+     * Returns null if the event is no longer active (cancelled or resolved in the meantime)
+     */
+    async expire(id: string, ttlMinutes: number, tx: TransactionClient = prisma): Promise<SosEvent | null> {
+        const result = await tx.sosEvent.updateMany({
+            where: { id, status: { in: LIVE_SOS_STATUSES } },
             data: {
-                auditLog: [...currentAuditLog, entry] as Prisma.InputJsonValue,
+                status: 'expired',
+                expiredAt: new Date(),
+            },
+        });
+        if (result.count === 0) {
+            return null;
+        }
+
+        await this.addAuditEntries(id, [{
+            action: 'EXPIRED',
+            ttlMinutes,
+            timestamp: new Date().toISOString(),
+        }], tx);
+
+        return tx.sosEvent.findUnique({ where: { id } });
+    }
+
+    /**
+     * Find live SOS events triggered before a date (expiry candidates)
+     */
+    async findLiveTriggeredBefore(before: Date): Promise<SosEvent[]> {
+        return prisma.sosEvent.findMany({
+            where: {
+                status: { in: LIVE_SOS_STATUSES },
+                triggeredAt: { lt: before },
             },
+            orderBy: { triggeredAt: 'asc' },
         });
     }
 
     /**
-     * Find active SOS events for multiple users
+     * Add entry to audit log
+     */
+    async addAuditEntry(
+        id: string,
+        entry: Record<string, unknown>,
+        tx: TransactionClient = prisma
+    ): Promise<void> {
+        await this.addAuditEntries(id, [entry], tx);
+    }
+
+    /**
+     * Append entries to the audit log
+     * A single statement, so concurrent writers (delivery worker, escalation, acknowledgements)
+     * cannot overwrite each other's entries
+     */
+    async addAuditEntries(
+        id: string,
+        entries: Record<string, unknown>[],
+        tx: TransactionClient = prisma
+    ): Promise<void> {
+        if (entries.length === 0) return;
+
+        await tx.$executeRaw`
+            UPDATE "sos_events"
+            SET "auditLog" = COALESCE("auditLog", '[]'::jsonb) || ${JSON.stringify(entries)}::jsonb,
+                "updatedAt" = ${new Date()}
+            WHERE "id" = ${id}
+        `;
+    }
+
+    /**
+     * Find live SOS events for multiple users
      * Used for checking circle (contacts) SOS status
      */
-    async findActiveByUserIds(userIds: string[]): Promise<SosEvent[]> {
+    async findLiveByUserIds(userIds: string[]): Promise<SosEvent[]> {
         return prisma.sosEvent.findMany({
             where: {
                 userId: { in: userIds },
-                status: 'active',
+                status: { in: LIVE_SOS_STATUSES },
+            },
+        });
+    }
+
+    /**
+     * Conditionally move an armed event to another status
+     * The status check and the update are a single statement so the countdown worker
+     * and a user cancelling at the last second cannot both win
+     */
+    private async transitionFromArmed(
+        id: string,
+        status: 'active' | 'cancelled',
+        build: (now: Date) => { triggeredAt?: Date; cancelledAt?: Date; entry: Record<string, unknown> },
+        tx: TransactionClient
+    ): Promise<SosEvent | null> {
+        const { entry, ...dates } = build(new Date());
+
+        const result = await tx.sosEvent.updateMany({
+            where: { id, status: 'armed' },
+            data: {
+                status,
+                ...dates,
+            },
+        });
+        if (result.count === 0) {
+            return null;
+        }
+
+        await this.addAuditEntries(id, [entry], tx);
+
+        return tx.sosEvent.findUnique({ where: { id } });
+    }
+
+    // =============================================================================
+    // Acknowledgements & Escalation
+    // =============================================================================
+
+    /**
+     * Record that a circle member has seen the SOS
+     * Returns false if this member had already acknowledged it
+     */
+    async acknowledge(id: string, userId: string, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.sosAcknowledgement.createMany({
+            data: [{ sosEventId: id, userId }],
+            skipDuplicates: true,
+        });
+
+        await tx.sosEvent.updateMany({
+            where: { id, acknowledgedAt: null },
+            data: { acknowledgedAt: new Date() },
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Find escalatable SOS events whose current level was reached before a date
+     */
+    async findDueForEscalation(before: Date, maxLevel: number): Promise<SosEvent[]> {
+        return prisma.sosEvent.findMany({
+            where: {
+                escalationLevel: { lt: maxLevel },
+                AND: [
+                    { OR: ESCALATABLE },
+                    {
+                        OR: [
+                            { lastEscalatedAt: null, triggeredAt: { lt: before } },
+                            { lastEscalatedAt: { lt: before } },
+                        ],
+                    },
+                ],
+            },
+            orderBy: { triggeredAt: 'asc' },
+        });
+    }
+
+    /**
+     * Move an SOS event from one escalation level to the next
+     * Conditional on the current level so concurrent workers cannot escalate twice.
+     * Returns false if another worker (or an acknowledgement) got there first.
+     */
+    async advanceEscalation(
+        id: string,
+        fromLevel: number,
+        toLevel: number,
+        notifiedContacts: NotifiedContact[],
+        tx: TransactionClient = prisma
+    ): Promise<boolean> {
+        const result = await tx.sosEvent.updateMany({
+            where: {
+                id,
+                escalationLevel: fromLevel,
+                OR: ESCALATABLE,
+            },
+            data: {
+                escalationLevel: toLevel,
+                lastEscalatedAt: new Date(),
+                notifiedContacts: notifiedContacts as unknown as Prisma.InputJsonValue,
             },
         });
+        return result.count > 0;
     }
 }
 
@@ -3,7 +3,7 @@
 // =============================================================================
 // User data access layer
 
-import { prisma } from '../config/database.js';
+import { prisma, TransactionClient } from '../config/database.js';
 import { DatabaseError } from '../domain/errors/domain.errors.js';
 import { logger } from '../utils/logger.js';
 import { Prisma } from '@prisma/client';
@@ -31,6 +31,12 @@ interface UserWithPassword extends UserWithoutPassword {
     passwordHash: string;
 }
 
+export interface TwoFactorState {
+    totpSecret: string | null; // Encrypted
+    totpEnabledAt: Date | null;
+    totpLastUsedStep: number | null;
+}
+
 interface CreateUserInput {
     email: string;
     passwordHash: string;
@@ -49,6 +55,29 @@ interface UpdateUserInput {
     isTracking?: boolean;
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Columns loaded for authentication - other secrets (duress PIN, TOTP) stay out of the result
+ */
+const WITH_PASSWORD_SELECT = {
+    id: true,
+    email: true,
+    passwordHash: true,
+    name: true,
+    surname: true,
+    phoneNumber: true,
+    profileImageUrl: true,
+    isPremium: true,
+    isPhoneValidated: true,
+    isEmailValidated: true,
+    isTracking: true,
+    createdAt: true,
+    updatedAt: true,
+} satisfies Prisma.UserSelect;
+
 // =============================================================================
 // Repository
 // =============================================================================
@@ -119,6 +148,7 @@ class UserRepository {
         try {
             const user = await prisma.user.findUnique({
                 where: { email },
+                select: WITH_PASSWORD_SELECT,
             });
             return user;
         } catch (error) {
@@ -127,6 +157,146 @@ class UserRepository {
         }
     }
 
+    /**
+     * Find user by ID with password (for re-authentication)
+     */
+    async findByIdWithPassword(id: string): Promise<UserWithPassword | null> {
+        try {
+            const user = await prisma.user.findUnique({
+                where: { id },
+                select: WITH_PASSWORD_SELECT,
+            });
+            return user;
+        } catch (error) {
+            this.handlePrismaError(error, 'findByIdWithPassword');
+            return null;
+        }
+    }
+
+    /**
+     * IDs of users who verified the phone number (at most two - enough to tell it is ambiguous)
+     */
+    async findIdsByVerifiedPhoneNumber(phoneNumber: string): Promise<string[]> {
+        const users = await prisma.user.findMany({
+            where: { phoneNumber, isPhoneValidated: true },
+            select: { id: true },
+            take: 2,
+        });
+        return users.map((user) => user.id);
+    }
+
+    /**
+     * Get the duress PIN hash of a user (null if none is set)
+     */
+    async findDuressPinHash(id: string): Promise<string | null> {
+        const user = await prisma.user.findUnique({
+            where: { id },
+            select: { duressPinHash: true },
+        });
+        return user?.duressPinHash ?? null;
+    }
+
+    /**
+     * Set or clear the duress PIN hash of a user
+     */
+    async updateDuressPinHash(id: string, duressPinHash: string | null): Promise<void> {
+        await prisma.user.update({
+            where: { id },
+            data: { duressPinHash },
+        });
+    }
+
+    /**
+     * Get the two-factor state of a user
+     */
+    async findTwoFactorState(id: string): Promise<TwoFactorState | null> {
+        return prisma.user.findUnique({
+            where: { id },
+            select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+        });
+    }
+
+    /**
+     * Store a new TOTP secret during enrolment
+     * Returns false if two-factor authentication is already enabled
+     */
+    async setPendingTotpSecret(id: string, totpSecret: string): Promise<boolean> {
+        const result = await prisma.user.updateMany({
+            where: { id, totpEnabledAt: null },
+            data: { totpSecret, totpLastUsedStep: null },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Turn on two-factor authentication with the pending secret
+     * Returns false if it is already enabled or enrolment was not started
+     */
+    async enableTwoFactor(id: string, usedStep: number, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.user.updateMany({
+            where: { id, totpEnabledAt: null, totpSecret: { not: null } },
+            data: { totpEnabledAt: new Date(), totpLastUsedStep: usedStep },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Turn off two-factor authentication and forget the secret
+     */
+    async disableTwoFactor(id: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.user.update({
+            where: { id },
+            data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+        });
+    }
+
+    /**
+     * Record the time step of an accepted TOTP code
+     * Returns false if that step (or a later one) was already used - the code is a replay
+     */
+    async recordTotpStep(id: string, step: number): Promise<boolean> {
+        const result = await prisma.user.updateMany({
+            where: {
+                id,
+                OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+            },
+            data: { totpLastUsedStep: step },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Replace the user's password hash
+     */
+    async updatePasswordHash(id: string, passwordHash: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.user.update({
+            where: { id },
+            data: { passwordHash },
+        });
+    }
+
+    /**
+     * Mark the user's email address as verified
+     */
+    async markEmailValidated(id: string, tx: TransactionClient = prisma): Promise<void> {
+        await tx.user.update({
+            where: { id },
+            data: { isEmailValidated: true },
+        });
+    }
+
+    /**
+     * Mark the user's phone number as verified
+     * Only if it is still the number the code was sent to
+     */
+    async markPhoneValidated(id: string, phoneNumber: string, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.user.updateMany({
+            where: { id, phoneNumber },
+            data: { isPhoneValidated: true },
+        });
+        return result.count > 0;
+    }
+
     /**
      * Create a new user
      */
@@ -0,0 +1,100 @@
+// =============================================================================
+// Blink Engine - Verification Token Repository
+// =============================================================================
+// Single-use emailed token data access layer (hashes only)
+
+import { prisma, TransactionClient } from '../config/database.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type VerificationPurpose = 'email_verification' | 'password_reset' | 'two_factor_challenge';
+
+export interface VerificationToken {
+    id: string;
+    userId: string;
+    purpose: string;
+    tokenHash: string;
+    attempts: number;
+    expiresAt: Date;
+    usedAt: Date | null;
+    createdAt: Date;
+}
+
+interface CreateVerificationTokenInput {
+    userId: string;
+    purpose: VerificationPurpose;
+    tokenHash: string;
+    expiresAt: Date;
+}
+
+// =============================================================================
+// Repository
+// =============================================================================
+
+class VerificationTokenRepository {
+    /**
+     * Create a token
+     */
+    async create(input: CreateVerificationTokenInput, tx: TransactionClient = prisma): Promise<VerificationToken> {
+        return tx.verificationToken.create({
+            data: input,
+        });
+    }
+
+    /**
+     * Find an unused, unexpired token by its hash
+     */
+    async findValidByHash(tokenHash: string, purpose: VerificationPurpose): Promise<VerificationToken | null> {
+        return prisma.verificationToken.findFirst({
+            where: {
+                tokenHash,
+                purpose,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+    }
+
+    /**
+     * Count a code entered against a token, unless the limit is already reached
+     * Returns false once no attempts are left
+     */
+    async recordAttempt(id: string, maxAttempts: number): Promise<boolean> {
+        const result = await prisma.verificationToken.updateMany({
+            where: { id, usedAt: null, attempts: { lt: maxAttempts } },
+            data: { attempts: { increment: 1 } },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Consume a token
+     * Returns false if it was already used (concurrent redemption)
+     */
+    async markUsed(id: string, tx: TransactionClient = prisma): Promise<boolean> {
+        const result = await tx.verificationToken.updateMany({
+            where: { id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        return result.count > 0;
+    }
+
+    /**
+     * Invalidate every outstanding token of a user for a purpose
+     */
+    async invalidateForUser(
+        userId: string,
+        purpose: VerificationPurpose,
+        tx: TransactionClient = prisma
+    ): Promise<number> {
+        const result = await tx.verificationToken.updateMany({
+            where: { userId, purpose, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        return result.count;
+    }
+}
+
+export const verificationTokenRepository = new VerificationTokenRepository();
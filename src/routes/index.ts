@@ -9,8 +9,16 @@ import { userRoutes } from './v1/user.routes.js';
 import { contactRoutes } from './v1/contact.routes.js';
 import { locationRoutes } from './v1/location.routes.js';
 import { sosRoutes } from './v1/sos.routes.js';
+import { sosShareRoutes } from './v1/sos-share.routes.js';
 import { mapsRoutes } from './v1/maps.routes.js';
 import { waitlistRoutes } from './v1/waitlist.routes.js';
+import { checkInRoutes } from './v1/check-in.routes.js';
+import { journeyRoutes } from './v1/journey.routes.js';
+import { placeRoutes } from './v1/place.routes.js';
+import { deviceRoutes } from './v1/device.routes.js';
+import { inboxRoutes } from './v1/inbox.routes.js';
+import { adminRoutes } from './v1/admin.routes.js';
+import { smsRoutes } from './v1/sms.routes.js';
 
 const router = Router();
 
@@ -20,7 +28,15 @@ router.use('/v1/users', userRoutes);
 router.use('/v1/contacts', contactRoutes);
 router.use('/v1/locations', locationRoutes);
 router.use('/v1/sos', sosRoutes);
+router.use('/v1/sos-share', sosShareRoutes);
 router.use('/v1/maps', mapsRoutes);
 router.use('/v1/waitlist', waitlistRoutes);
+router.use('/v1/check-ins', checkInRoutes);
+router.use('/v1/journeys', journeyRoutes);
+router.use('/v1/places', placeRoutes);
+router.use('/v1/devices', deviceRoutes);
+router.use('/v1/inbox', inboxRoutes);
+router.use('/v1/admin', adminRoutes);
+router.use('/v1/sms', smsRoutes);
 
 export { router as apiRoutes };
@@ -0,0 +1,25 @@
+// =============================================================================
+// Blink Engine - Admin Routes
+// =============================================================================
+// Operator endpoints, authenticated with the admin API key
+
+import { Router } from 'express';
+import { requireAdminKey } from '../../middleware/auth.middleware.js';
+import { validateParams, validateQuery } from '../../middleware/validation.middleware.js';
+import * as adminController from '../../controllers/admin.controller.js';
+import {
+    deadLettersQuerySchema,
+    idParamSchema,
+} from '../../controllers/admin.controller.js';
+
+const router = Router();
+
+// All admin routes require the admin API key
+router.use(requireAdminKey);
+
+// Notification dead letters
+router.get('/dead-letters', validateQuery(deadLettersQuerySchema), adminController.listDeadLetters);
+router.get('/dead-letters/:id', validateParams(idParamSchema), adminController.getDeadLetter);
+router.post('/dead-letters/:id/replay', validateParams(idParamSchema), adminController.replayDeadLetter);
+
+export { router as adminRoutes };
@@ -8,7 +8,22 @@ import { authRateLimiter } from '../../middleware/rate-limit.middleware.js';
 import { validateBody } from '../../middleware/validation.middleware.js';
 import { authenticate } from '../../middleware/auth.middleware.js';
 import * as authController from '../../controllers/auth.controller.js';
-import { registerSchema, loginSchema, refreshSchema } from '../../controllers/auth.controller.js';
+import * as twoFactorController from '../../controllers/two-factor.controller.js';
+import {
+    registerSchema,
+    loginSchema,
+    refreshSchema,
+    verifyEmailSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    changePasswordSchema,
+    verifyTwoFactorSchema,
+} from '../../controllers/auth.controller.js';
+import {
+    confirmTwoFactorSchema,
+    disableTwoFactorSchema,
+    regenerateRecoveryCodesSchema,
+} from '../../controllers/two-factor.controller.js';
 
 const router = Router();
 
@@ -16,9 +31,24 @@ const router = Router();
 router.post('/register', authRateLimiter, validateBody(registerSchema), authController.register);
 router.post('/login', authRateLimiter, validateBody(loginSchema), authController.login);
 router.post('/refresh', authRateLimiter, validateBody(refreshSchema), authController.refresh);
+router.post('/verify-email', authRateLimiter, validateBody(verifyEmailSchema), authController.verifyEmail);
+router.post('/password/forgot', authRateLimiter, validateBody(forgotPasswordSchema), authController.forgotPassword);
+router.post('/password/reset', authRateLimiter, validateBody(resetPasswordSchema), authController.resetPassword);
+router.post('/2fa/verify', authRateLimiter, validateBody(verifyTwoFactorSchema), authController.verifyTwoFactor);
 
 // Protected routes
 router.post('/logout', authenticate, authController.logout);
 router.get('/me', authenticate, authController.me);
+router.get('/sessions', authenticate, authController.listSessions);
+router.delete('/sessions/:family', authenticate, authController.revokeSession);
+router.post('/verify-email/resend', authenticate, authRateLimiter, authController.resendVerificationEmail);
+router.post('/password/change', authenticate, authRateLimiter, validateBody(changePasswordSchema), authController.changePassword);
+
+// Two-factor authentication
+router.get('/2fa', authenticate, twoFactorController.getStatus);
+router.post('/2fa/enroll', authenticate, authRateLimiter, twoFactorController.enroll);
+router.post('/2fa/confirm', authenticate, authRateLimiter, validateBody(confirmTwoFactorSchema), twoFactorController.confirm);
+router.post('/2fa/disable', authenticate, authRateLimiter, validateBody(disableTwoFactorSchema), twoFactorController.disable);
+router.post('/2fa/recovery-codes', authenticate, authRateLimiter, validateBody(regenerateRecoveryCodesSchema), twoFactorController.regenerateRecoveryCodes);
 
 export { router as authRoutes };
@@ -0,0 +1,27 @@
+// =============================================================================
+// Blink Engine - Check-in Routes
+// =============================================================================
+// Scheduled safety check-in endpoints
+
+import { Router } from 'express';
+import { authenticate } from '../../middleware/auth.middleware.js';
+import { validateBody, validateParams } from '../../middleware/validation.middleware.js';
+import * as checkInController from '../../controllers/check-in.controller.js';
+import {
+    checkInIdParamSchema,
+    createCheckInSchema,
+    extendCheckInSchema,
+} from '../../controllers/check-in.controller.js';
+
+const router = Router();
+
+// All check-in routes require authentication
+router.use(authenticate);
+
+router.get('/', checkInController.listCheckIns);
+router.post('/', validateBody(createCheckInSchema), checkInController.createCheckIn);
+router.post('/:id/extend', validateParams(checkInIdParamSchema), validateBody(extendCheckInSchema), checkInController.extendCheckIn);
+router.post('/:id/confirm', validateParams(checkInIdParamSchema), checkInController.confirmCheckIn);
+router.post('/:id/cancel', validateParams(checkInIdParamSchema), checkInController.cancelCheckIn);
+
+export { router as checkInRoutes };
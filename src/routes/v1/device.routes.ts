@@ -0,0 +1,23 @@
+// =============================================================================
+// Blink Engine - Device Routes
+// =============================================================================
+// Push token registry endpoints
+
+import { Router } from 'express';
+import { authenticate } from '../../middleware/auth.middleware.js';
+import { validateBody } from '../../middleware/validation.middleware.js';
+import * as deviceController from '../../controllers/device.controller.js';
+import {
+    registerDeviceSchema,
+    unregisterDeviceSchema,
+} from '../../controllers/device.controller.js';
+
+const router = Router();
+
+// All device routes require authentication
+router.use(authenticate);
+
+router.post('/', validateBody(registerDeviceSchema), deviceController.registerDevice);
+router.delete('/', validateBody(unregisterDeviceSchema), deviceController.unregisterDevice);
+
+export { router as deviceRoutes };
@@ -0,0 +1,25 @@
+// =============================================================================
+// Blink Engine - Inbox Routes
+// =============================================================================
+// Notification inbox endpoints
+
+import { Router } from 'express';
+import { authenticate } from '../../middleware/auth.middleware.js';
+import { validateBody, validateQuery } from '../../middleware/validation.middleware.js';
+import * as inboxController from '../../controllers/inbox.controller.js';
+import {
+    inboxQuerySchema,
+    markReadSchema,
+} from '../../controllers/inbox.controller.js';
+
+const router = Router();
+
+// All inbox routes require authentication
+router.use(authenticate);
+
+router.get('/', validateQuery(inboxQuerySchema), inboxController.listItems);
+router.get('/unread-count', inboxController.getUnreadCount);
+router.post('/read', validateBody(markReadSchema), inboxController.markRead);
+router.post('/read-all', inboxController.markAllRead);
+
+export { router as inboxRoutes };
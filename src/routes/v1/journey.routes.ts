@@ -0,0 +1,24 @@
+// =============================================================================
+// Blink Engine - Journey Routes
+// =============================================================================
+// "Walk me home" journey endpoints
+
+import { Router } from 'express';
+import { authenticate } from '../../middleware/auth.middleware.js';
+import { validateBody, validateParams } from '../../middleware/validation.middleware.js';
+import * as journeyController from '../../controllers/journey.controller.js';
+import { journeyIdParamSchema, startJourneySchema } from '../../controllers/journey.controller.js';
+
+const router = Router();
+
+// All journey routes require authentication
+router.use(authenticate);
+
+router.post('/', validateBody(startJourneySchema), journeyController.startJourney);
+router.get('/active', journeyController.getActiveJourney);
+router.post('/:id/cancel', validateParams(journeyIdParamSchema), journeyController.cancelJourney);
+
+// Traveller or watcher
+router.post('/:id/escalate', validateParams(journeyIdParamSchema), journeyController.escalateJourney);
+
+export { router as journeyRoutes };
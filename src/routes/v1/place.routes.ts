@@ -0,0 +1,27 @@
+// =============================================================================
+// Blink Engine - Place Routes
+// =============================================================================
+// Saved place (geofence) endpoints
+
+import { Router } from 'express';
+import { authenticate } from '../../middleware/auth.middleware.js';
+import { validateBody, validateParams } from '../../middleware/validation.middleware.js';
+import * as placeController from '../../controllers/place.controller.js';
+import {
+    placeIdParamSchema,
+    createPlaceSchema,
+    updatePlaceSchema,
+} from '../../controllers/place.controller.js';
+
+const router = Router();
+
+// All place routes require authentication
+router.use(authenticate);
+
+router.get('/', placeController.listPlaces);
+router.post('/', validateBody(createPlaceSchema), placeController.createPlace);
+router.get('/:id', validateParams(placeIdParamSchema), placeController.getPlace);
+router.patch('/:id', validateParams(placeIdParamSchema), validateBody(updatePlaceSchema), placeController.updatePlace);
+router.delete('/:id', validateParams(placeIdParamSchema), placeController.deletePlace);
+
+export { router as placeRoutes };
@@ -0,0 +1,25 @@
+// =============================================================================
+// Blink Engine - SMS Routes
+// =============================================================================
+// Inbound SMS webhook, authenticated with the provider's HMAC signature
+
+import { Router } from 'express';
+import { config } from '../../config/index.js';
+import { requireInboundSmsSignature } from '../../middleware/auth.middleware.js';
+import { validateBody } from '../../middleware/validation.middleware.js';
+import * as smsController from '../../controllers/sms.controller.js';
+import {
+    inboundSmsSchema,
+    localSmsSchema,
+} from '../../controllers/sms.controller.js';
+
+const router = Router();
+
+router.post('/inbound', requireInboundSmsSignature, validateBody(inboundSmsSchema), smsController.receiveInbound);
+
+// Local fake provider - unauthenticated, so only mounted in development when switched on
+if (config.isDev && config.inboundSms.localSenderEnabled) {
+    router.post('/local/send', validateBody(localSmsSchema), smsController.sendLocal);
+}
+
+export { router as smsRoutes };
@@ -0,0 +1,15 @@
+// =============================================================================
+// Blink Engine - SOS Share Routes
+// =============================================================================
+// Public SOS viewer endpoints - the signed token is the credential
+
+import { Router } from 'express';
+import { validateParams } from '../../middleware/validation.middleware.js';
+import * as sosShareController from '../../controllers/sos-share.controller.js';
+import { shareTokenParamSchema } from '../../controllers/sos-share.controller.js';
+
+const router = Router();
+
+router.get('/:token', validateParams(shareTokenParamSchema), sosShareController.viewSharedSos);
+
+export { router as sosShareRoutes };
@@ -6,9 +6,9 @@
 import { Router } from 'express';
 import { authenticate } from '../../middleware/auth.middleware.js';
 import { sosRateLimiter } from '../../middleware/rate-limit.middleware.js';
-import { validateBody } from '../../middleware/validation.middleware.js';
+import { validateBody, validateParams } from '../../middleware/validation.middleware.js';
 import * as sosController from '../../controllers/sos.controller.js';
-import { triggerSosSchema, cancelSosSchema } from '../../controllers/sos.controller.js';
+import { triggerSosSchema, cancelSosSchema, sosIdParamSchema } from '../../controllers/sos.controller.js';
 
 const router = Router();
 
@@ -21,9 +21,14 @@ router.post('/trigger', validateBody(triggerSosSchema), sosController.triggerSos
 router.post('/cancel', validateBody(cancelSosSchema), sosController.cancelSos);
 router.post('/resolve', sosController.resolveSos);
 
+// Circle member actions
+router.post('/:id/acknowledge', validateParams(sosIdParamSchema), sosController.acknowledgeSos);
+router.post('/:id/resolve', validateParams(sosIdParamSchema), sosController.resolveCircleSos);
+
 // SOS status
 router.get('/active', sosController.getActiveSos);
 router.get('/history', sosController.getSosHistory);
 router.get('/circle-status', sosController.getCircleSosStatus);
+router.get('/:id/trail', validateParams(sosIdParamSchema), sosController.getSosTrail);
 
 export { router as sosRoutes };
@@ -8,7 +8,13 @@ import multer from 'multer';
 import { authenticate } from '../../middleware/auth.middleware.js';
 import { validateBody } from '../../middleware/validation.middleware.js';
 import * as userController from '../../controllers/user.controller.js';
-import { updateProfileSchema } from '../../controllers/user.controller.js';
+import {
+    updateProfileSchema,
+    setDuressPinSchema,
+    removeDuressPinSchema,
+    verifyPhoneSchema,
+    updateNotificationPreferencesSchema,
+} from '../../controllers/user.controller.js';
 
 const router = Router();
 
@@ -26,5 +32,17 @@ router.get('/profile', userController.getProfile);
 router.patch('/profile', validateBody(updateProfileSchema), userController.updateProfile);
 router.post('/profile/image', upload.single('image'), userController.uploadProfileImage);
 
+// Phone verification
+router.post('/profile/phone/send-code', userController.sendPhoneVerificationCode);
+router.post('/profile/phone/verify', validateBody(verifyPhoneSchema), userController.verifyPhone);
+
+// Safety settings
+router.put('/profile/duress-pin', validateBody(setDuressPinSchema), userController.setDuressPin);
+router.delete('/profile/duress-pin', validateBody(removeDuressPinSchema), userController.removeDuressPin);
+
+// Notification preferences
+router.get('/notification-preferences', userController.getNotificationPreferences);
+router.patch('/notification-preferences', validateBody(updateNotificationPreferencesSchema), userController.updateNotificationPreferences);
+
 export { router as userRoutes };
 
@@ -10,12 +10,25 @@ import { config } from '../config/index.js';
 import {
     InvalidCredentialsError,
     EmailAlreadyExistsError,
+    ValidationError,
     NotFoundError,
     RefreshTokenRevokedError,
     DomainError,
 } from '../domain/errors/domain.errors.js';
 import { userRepository, UserWithoutPassword } from '../repositories/user.repository.js';
 import { refreshTokenRepository } from '../repositories/refresh-token.repository.js';
+import { sessionRepository } from '../repositories/session.repository.js';
+import { deviceRepository } from '../repositories/device.repository.js';
+import { verificationTokenRepository } from '../repositories/verification-token.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { runInTransaction } from '../config/database.js';
+import { mailService } from './mail.service.js';
+import { socketService } from './socket.service.js';
+import { generateToken, hashToken } from '../utils/token.js';
+import { emailVerificationService } from './email-verification.service.js';
+import { twoFactorService, TwoFactorChallenge } from './two-factor.service.js';
+import { logger } from '../utils/logger.js';
+import { normalizePhoneNumber, INVALID_PHONE_NUMBER_MESSAGE } from '../utils/phone.js';
 import {
     generateAccessToken,
     generateRefreshToken,
@@ -45,6 +58,36 @@ interface AuthResponse {
     tokens: AuthTokens;
 }
 
+/**
+ * Login either signs the user in, or asks for a second factor when 2FA is on
+ */
+type LoginResult = AuthResponse | TwoFactorChallenge;
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/**
+ * Device details captured when a session is created
+ */
+export interface SessionContext extends AuditContext {
+    deviceName?: string;
+    platform?: string;
+}
+
+export interface SessionView {
+    family: string;
+    deviceName: string | null;
+    platform: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    current: boolean;
+}
+
 // =============================================================================
 // Service
 // =============================================================================
@@ -53,7 +96,7 @@ class AuthService {
     /**
      * Register a new user
      */
-    async register(input: RegisterInput): Promise<Result<AuthResponse, DomainError>> {
+    async register(input: RegisterInput, context: SessionContext = {}): Promise<Result<AuthResponse, DomainError>> {
         // Normalize email to lowercase
         const email = input.email.toLowerCase();
 
@@ -63,6 +106,16 @@ class AuthService {
             return fail(new EmailAlreadyExistsError());
         }
 
+        // Phone numbers are stored in E.164
+        let phoneNumber: string | undefined;
+        if (input.phoneNumber) {
+            const normalized = normalizePhoneNumber(input.phoneNumber, config.phone.defaultCountryCode);
+            if (!normalized) {
+                return fail(new ValidationError(INVALID_PHONE_NUMBER_MESSAGE));
+            }
+            phoneNumber = normalized;
+        }
+
         // Hash password
         const passwordHash = await bcrypt.hash(input.password, config.security.bcryptRounds);
 
@@ -72,11 +125,18 @@ class AuthService {
             passwordHash,
             name: input.name,
             surname: input.surname,
-            phoneNumber: input.phoneNumber,
+            phoneNumber,
         });
 
+        // Ask them to confirm their email - failures must not block sign-up (they can resend)
+        try {
+            await emailVerificationService.sendVerification(user);
+        } catch (error) {
+            logger.error('Failed to send verification email', { userId: user.id, error });
+        }
+
         // Generate tokens
-        const tokens = await this.createTokens(user.id, user.email);
+        const tokens = await this.createTokens(user.id, user.email, context);
 
         return ok({
             user,
@@ -86,8 +146,13 @@ class AuthService {
 
     /**
      * Authenticate user with email and password
+     * With two-factor authentication on, a challenge is returned instead of tokens
      */
-    async login(email: string, password: string): Promise<Result<AuthResponse, DomainError>> {
+    async login(
+        email: string,
+        password: string,
+        context: SessionContext = {}
+    ): Promise<Result<LoginResult, DomainError>> {
         // Normalize email to lowercase
         const normalizedEmail = email.toLowerCase();
 
@@ -103,8 +168,13 @@ class AuthService {
             return fail(new InvalidCredentialsError());
         }
 
+        // A second factor is required before any tokens are issued
+        if (await twoFactorService.isEnabled(user.id)) {
+            return ok(await twoFactorService.createChallenge(user.id));
+        }
+
         // Generate tokens
-        const tokens = await this.createTokens(user.id, user.email);
+        const tokens = await this.createTokens(user.id, user.email, context);
 
         // Return user without password
         const { passwordHash: _, ...userWithoutPassword } = user;
@@ -115,11 +185,40 @@ class AuthService {
         });
     }
 
+    /**
+     * Finish a two-factor login with the challenge token and a code (or a recovery code)
+     */
+    async completeTwoFactorLogin(
+        challengeToken: string,
+        code: string,
+        context: SessionContext = {}
+    ): Promise<Result<AuthResponse, DomainError>> {
+        const redeemed = await twoFactorService.redeemChallenge(challengeToken, code, context);
+        if (!redeemed.success) {
+            return redeemed;
+        }
+
+        const user = await userRepository.findById(redeemed.data);
+        if (!user) {
+            return fail(new NotFoundError('User'));
+        }
+
+        const tokens = await this.createTokens(user.id, user.email, context);
+
+        return ok({
+            user,
+            tokens,
+        });
+    }
+
     /**
      * Refresh tokens using a valid refresh token
      * Implements token rotation - old token is revoked, new one is issued
      */
-    async refreshTokens(refreshToken: string): Promise<Result<AuthTokens, DomainError>> {
+    async refreshTokens(
+        refreshToken: string,
+        context: AuditContext = {}
+    ): Promise<Result<AuthTokens, DomainError>> {
         // Verify the token signature
         const payload = verifyRefreshToken(refreshToken);
 
@@ -131,8 +230,13 @@ class AuthService {
 
         // Check if token is revoked
         if (storedToken.revoked) {
-            // Token reuse detected! Revoke all tokens in this family
-            await refreshTokenRepository.revokeFamily(storedToken.family);
+            // Token reuse detected! Revoke all tokens in this family and sign the session out
+            await runInTransaction(async (tx) => {
+                await refreshTokenRepository.revokeFamily(storedToken.family, tx);
+                await sessionRepository.revoke(storedToken.family, tx);
+                await deviceRepository.deleteBySession(storedToken.family, tx);
+            });
+            socketService.disconnectSession(storedToken.family);
             return fail(new RefreshTokenRevokedError());
         }
 
@@ -150,17 +254,237 @@ class AuthService {
             return fail(new NotFoundError('User'));
         }
 
+        // Families issued before sessions existed get one on their next refresh
+        const session = await sessionRepository.findByFamily(storedToken.family);
+        if (!session) {
+            await sessionRepository.create({
+                family: storedToken.family,
+                userId: user.id,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            });
+        } else {
+            await sessionRepository.touch(storedToken.family, context);
+        }
+
         // Generate new tokens with the same family
-        const tokens = await this.createTokens(user.id, user.email, storedToken.family);
+        const tokens = await this.createTokens(user.id, user.email, context, storedToken.family);
 
         return ok(tokens);
     }
 
     /**
-     * Logout - revoke all refresh tokens for user
+     * Logout - sign out the current session
+     * Tokens without a session sign out every session of the user
      */
-    async logout(userId: string): Promise<void> {
-        await refreshTokenRepository.revokeAllForUser(userId);
+    async logout(userId: string, sessionId?: string): Promise<void> {
+        const revokedFamilies = await runInTransaction(async (tx) => {
+            if (sessionId) {
+                await refreshTokenRepository.revokeFamily(sessionId, tx);
+                await sessionRepository.revoke(sessionId, tx);
+                await deviceRepository.deleteBySession(sessionId, tx);
+                return [sessionId];
+            }
+
+            await refreshTokenRepository.revokeAllForUser(userId, tx);
+            const families = await sessionRepository.revokeAllForUser(userId, tx);
+            await deviceRepository.deleteAllForUser(userId, tx);
+            return families;
+        });
+
+        for (const family of revokedFamilies) {
+            socketService.disconnectSession(family);
+        }
+    }
+
+    /**
+     * List the devices the user is signed in on
+     */
+    async listSessions(userId: string, currentSessionId?: string): Promise<Result<SessionView[], DomainError>> {
+        const sessions = await sessionRepository.findActiveByUserId(userId);
+
+        return ok(sessions.map((session) => ({
+            family: session.family,
+            deviceName: session.deviceName,
+            platform: session.platform,
+            ipAddress: session.ipAddress,
+            userAgent: session.userAgent,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            current: session.family === currentSessionId,
+        })));
+    }
+
+    /**
+     * Sign out one of the user's sessions (e.g. a lost or stolen phone)
+     * Its refresh and access tokens stop working, its sockets are disconnected
+     * and its devices stop getting pushes.
+     */
+    async revokeSession(
+        userId: string,
+        family: string,
+        context: AuditContext
+    ): Promise<Result<void, DomainError>> {
+        const session = await sessionRepository.findByFamily(family);
+        if (!session || session.userId !== userId) {
+            return fail(new NotFoundError('Session', family));
+        }
+
+        await runInTransaction(async (tx) => {
+            await refreshTokenRepository.revokeFamily(family, tx);
+            await deviceRepository.deleteBySession(family, tx);
+            if (!(await sessionRepository.revoke(family, tx))) return;
+
+            await auditRepository.create({
+                userId,
+                action: 'SESSION_REVOKED',
+                resourceType: 'Session',
+                resourceId: family,
+                metadata: {
+                    deviceName: session.deviceName,
+                    platform: session.platform,
+                },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+        });
+
+        // Open sockets of the session would otherwise keep receiving events until their token expires
+        socketService.disconnectSession(family);
+
+        return ok(undefined);
+    }
+
+    /**
+     * Email a password reset link
+     * Always succeeds so the response does not reveal whether the email has an account -
+     * the link is issued in the background, so both paths also take the same time
+     */
+    async requestPasswordReset(email: string, context: AuditContext): Promise<Result<void, DomainError>> {
+        const user = await userRepository.findByEmail(email.toLowerCase());
+        if (!user) {
+            logger.info('Password reset requested for unknown email', {
+                correlationId: context.correlationId,
+            });
+            return ok(undefined);
+        }
+
+        this.issuePasswordReset(user, context)
+            .catch((error) => logger.error('Failed to send password reset', {
+                correlationId: context.correlationId,
+                userId: user.id,
+                error,
+            }));
+
+        return ok(undefined);
+    }
+
+    /**
+     * Set a new password with a reset token (single use)
+     * Every session is signed out
+     */
+    async resetPassword(
+        token: string,
+        newPassword: string,
+        context: AuditContext
+    ): Promise<Result<void, DomainError>> {
+        const record = await verificationTokenRepository.findValidByHash(hashToken(token), 'password_reset');
+        if (!record) {
+            return fail(new ValidationError('Invalid or expired reset link'));
+        }
+
+        const passwordHash = await bcrypt.hash(newPassword, config.security.bcryptRounds);
+
+        const revokedFamilies = await runInTransaction(async (tx) => {
+            if (!(await verificationTokenRepository.markUsed(record.id, tx))) return null;
+
+            await userRepository.updatePasswordHash(record.userId, passwordHash, tx);
+            await refreshTokenRepository.revokeAllForUser(record.userId, tx);
+            const families = await sessionRepository.revokeAllForUser(record.userId, tx);
+            await deviceRepository.deleteAllForUser(record.userId, tx);
+
+            await auditRepository.create({
+                userId: record.userId,
+                action: 'PASSWORD_RESET',
+                resourceType: 'User',
+                resourceId: record.userId,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return families;
+        });
+
+        if (!revokedFamilies) {
+            return fail(new ValidationError('Invalid or expired reset link'));
+        }
+
+        for (const family of revokedFamilies) {
+            socketService.disconnectSession(family);
+        }
+
+        return ok(undefined);
+    }
+
+    /**
+     * Change the password of a signed-in user
+     * Every session is signed out; the caller gets fresh tokens to stay signed in
+     */
+    async changePassword(
+        userId: string,
+        currentPassword: string,
+        newPassword: string,
+        context: AuditContext & { sessionId?: string }
+    ): Promise<Result<AuthTokens, DomainError>> {
+        const user = await userRepository.findByIdWithPassword(userId);
+        if (!user) {
+            return fail(new NotFoundError('User'));
+        }
+
+        const isValid = await bcrypt.compare(currentPassword, user.passwordHash);
+        if (!isValid) {
+            return fail(new InvalidCredentialsError());
+        }
+
+        const passwordHash = await bcrypt.hash(newPassword, config.security.bcryptRounds);
+
+        // The caller's new session keeps the device details of the current one
+        const currentSession = context.sessionId
+            ? await sessionRepository.findByFamily(context.sessionId)
+            : null;
+
+        const revokedFamilies = await runInTransaction(async (tx) => {
+            await userRepository.updatePasswordHash(userId, passwordHash, tx);
+            await refreshTokenRepository.revokeAllForUser(userId, tx);
+            const families = await sessionRepository.revokeAllForUser(userId, tx);
+            await deviceRepository.deleteAllForUser(userId, tx);
+            await verificationTokenRepository.invalidateForUser(userId, 'password_reset', tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'PASSWORD_CHANGED',
+                resourceType: 'User',
+                resourceId: userId,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return families;
+        });
+
+        for (const family of revokedFamilies) {
+            socketService.disconnectSession(family);
+        }
+
+        const tokens = await this.createTokens(user.id, user.email, {
+            ...context,
+            deviceName: currentSession?.deviceName ?? undefined,
+            platform: currentSession?.platform ?? undefined,
+        });
+        return ok(tokens);
     }
 
     /**
@@ -174,18 +498,49 @@ class AuthService {
         return ok(user);
     }
 
+    /**
+     * Store a new reset token and email the link
+     * Only the latest link works
+     */
+    private async issuePasswordReset(user: UserWithoutPassword, context: AuditContext): Promise<void> {
+        const token = generateToken();
+        await runInTransaction(async (tx) => {
+            await verificationTokenRepository.invalidateForUser(user.id, 'password_reset', tx);
+            await verificationTokenRepository.create({
+                userId: user.id,
+                purpose: 'password_reset',
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + config.mail.passwordResetTtlMinutes * 60 * 1000),
+            }, tx);
+
+            await auditRepository.create({
+                userId: user.id,
+                action: 'PASSWORD_RESET_REQUESTED',
+                resourceType: 'User',
+                resourceId: user.id,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+        });
+
+        await mailService.sendPasswordReset(user.email, user.name, token);
+    }
+
     /**
      * Create access and refresh tokens
+     * Without a family a new one is started, along with its session
      */
     private async createTokens(
         userId: string,
         email: string,
+        context: SessionContext,
         family?: string
     ): Promise<AuthTokens> {
         const tokenFamily = family || randomUUID();
 
         // Generate tokens
-        const accessToken = generateAccessToken(userId, email);
+        const accessToken = generateAccessToken(userId, email, tokenFamily);
         const refreshToken = generateRefreshToken(userId, tokenFamily);
 
         // Calculate expiry (parse duration string like "7d")
@@ -193,12 +548,28 @@ class AuthService {
         const expiresAt = new Date(Date.now() + expiresIn * 1000);
 
         // Store refresh token
-        await refreshTokenRepository.create({
+        const storedToken = {
             token: refreshToken,
             userId,
             family: tokenFamily,
             expiresAt,
-        });
+        };
+
+        if (family) {
+            await refreshTokenRepository.create(storedToken);
+        } else {
+            await runInTransaction(async (tx) => {
+                await sessionRepository.create({
+                    family: tokenFamily,
+                    userId,
+                    deviceName: context.deviceName,
+                    platform: context.platform,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent,
+                }, tx);
+                await refreshTokenRepository.create(storedToken, tx);
+            });
+        }
 
         return {
             accessToken,
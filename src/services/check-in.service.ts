@@ -0,0 +1,262 @@
+// =============================================================================
+// Blink Engine - Check-in Service
+// =============================================================================
+// Scheduled safety check-ins: an SOS fires if the user does not confirm in time
+
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    NotFoundError,
+    ConflictError,
+    ValidationError,
+    SosAlreadyActiveError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { checkInRepository, CheckIn } from '../repositories/check-in.repository.js';
+import { locationRepository } from '../repositories/location.repository.js';
+import { sosRepository } from '../repositories/sos.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { sosService } from './sos.service.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CreateCheckInInput {
+    dueAt: Date;
+    latitude: number;
+    longitude: number;
+    note?: string;
+}
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_PENDING_CHECK_INS = 5;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class CheckInService {
+    /**
+     * Schedule a check-in
+     */
+    async createCheckIn(
+        userId: string,
+        input: CreateCheckInInput,
+        context: AuditContext
+    ): Promise<Result<CheckIn, DomainError>> {
+        if (input.dueAt.getTime() <= Date.now()) {
+            return fail(new ValidationError('Check-in time must be in the future'));
+        }
+
+        const pending = await checkInRepository.countPendingByUserId(userId);
+        if (pending >= MAX_PENDING_CHECK_INS) {
+            return fail(new ConflictError(`You can have at most ${MAX_PENDING_CHECK_INS} pending check-ins`));
+        }
+
+        const checkIn = await checkInRepository.create({ userId, ...input });
+        await this.audit(checkIn, 'CHECK_IN_CREATED', context, { dueAt: checkIn.dueAt.toISOString() });
+
+        return ok(checkIn);
+    }
+
+    /**
+     * List the user's recent check-ins
+     */
+    async getCheckIns(userId: string): Promise<Result<CheckIn[], DomainError>> {
+        const checkIns = await checkInRepository.findAllByUserId(userId);
+        return ok(checkIns);
+    }
+
+    /**
+     * Move a pending check-in to a later (or earlier) time
+     */
+    async extendCheckIn(
+        userId: string,
+        id: string,
+        dueAt: Date,
+        context: AuditContext
+    ): Promise<Result<CheckIn, DomainError>> {
+        if (dueAt.getTime() <= Date.now()) {
+            return fail(new ValidationError('Check-in time must be in the future'));
+        }
+
+        const owned = await this.findOwned(userId, id);
+        if (!owned.success) {
+            return owned;
+        }
+
+        const checkIn = await checkInRepository.extend(id, dueAt);
+        if (!checkIn) {
+            return fail(new ConflictError('Check-in is no longer pending'));
+        }
+
+        await this.audit(checkIn, 'CHECK_IN_EXTENDED', context, {
+            previousDueAt: owned.data.dueAt.toISOString(),
+            dueAt: dueAt.toISOString(),
+        });
+
+        return ok(checkIn);
+    }
+
+    /**
+     * Confirm the user is safe
+     */
+    async confirmCheckIn(
+        userId: string,
+        id: string,
+        context: AuditContext
+    ): Promise<Result<CheckIn, DomainError>> {
+        const owned = await this.findOwned(userId, id);
+        if (!owned.success) {
+            return owned;
+        }
+
+        const checkIn = await checkInRepository.confirm(id);
+        if (!checkIn) {
+            return fail(new ConflictError('Check-in is no longer pending'));
+        }
+
+        await this.audit(checkIn, 'CHECK_IN_CONFIRMED', context);
+
+        return ok(checkIn);
+    }
+
+    /**
+     * Call off a pending check-in
+     */
+    async cancelCheckIn(
+        userId: string,
+        id: string,
+        context: AuditContext
+    ): Promise<Result<CheckIn, DomainError>> {
+        const owned = await this.findOwned(userId, id);
+        if (!owned.success) {
+            return owned;
+        }
+
+        const checkIn = await checkInRepository.cancel(id);
+        if (!checkIn) {
+            return fail(new ConflictError('Check-in is no longer pending'));
+        }
+
+        await this.audit(checkIn, 'CHECK_IN_CANCELLED', context);
+
+        return ok(checkIn);
+    }
+
+    /**
+     * Trigger an SOS for every check-in that passed its due time unconfirmed
+     * Returns the number of check-ins processed
+     */
+    async processMissed(): Promise<Result<number, DomainError>> {
+        const due = await checkInRepository.findDue(new Date());
+
+        let missed = 0;
+        for (const checkIn of due) {
+            try {
+                if (await this.handleMissed(checkIn)) {
+                    missed++;
+                }
+            } catch (error) {
+                logger.error('Failed to process missed check-in', { checkInId: checkIn.id, error });
+            }
+        }
+
+        return ok(missed);
+    }
+
+    /**
+     * Fire the SOS first, then close the check-in
+     * The trigger is idempotent per check-in, so after a crash in between the next run finds the same SOS
+     */
+    private async handleMissed(checkIn: CheckIn): Promise<boolean> {
+        // Prefer a location reported after the check-in was scheduled
+        const latest = await locationRepository.findLatestByUserId(checkIn.userId);
+        const location = latest && latest.timestamp > checkIn.createdAt
+            ? { latitude: latest.latitude, longitude: latest.longitude }
+            : { latitude: checkIn.latitude, longitude: checkIn.longitude };
+
+        const result = await sosService.triggerSos(checkIn.userId, {
+            ...location,
+            idempotencyKey: `check-in:${checkIn.id}`,
+        }, {
+            source: 'check_in',
+            sourceId: checkIn.id,
+        });
+
+        let sosEventId: string;
+        if (result.success) {
+            sosEventId = result.data.id;
+        } else if (result.error instanceof SosAlreadyActiveError) {
+            // The user is already in an emergency - link the check-in to it
+            const activeSos = await sosRepository.findLiveByUserId(checkIn.userId)
+                ?? await sosRepository.findArmedByUserId(checkIn.userId);
+            if (!activeSos) {
+                throw result.error;
+            }
+            sosEventId = activeSos.id;
+        } else {
+            throw result.error;
+        }
+
+        const updated = await checkInRepository.markMissed(checkIn.id, sosEventId);
+        if (!updated) {
+            // Confirmed or cancelled at the last second - the SOS stands, the user can cancel it
+            return false;
+        }
+
+        await this.audit(updated, 'CHECK_IN_MISSED', {}, { sosEventId });
+
+        logger.warn('Check-in missed - SOS triggered', {
+            userId: checkIn.userId,
+            checkInId: checkIn.id,
+            sosId: sosEventId,
+        });
+
+        return true;
+    }
+
+    /**
+     * Find a check-in belonging to the user
+     */
+    private async findOwned(userId: string, id: string): Promise<Result<CheckIn, DomainError>> {
+        const checkIn = await checkInRepository.findById(id);
+        if (!checkIn || checkIn.userId !== userId) {
+            return fail(new NotFoundError('CheckIn', id));
+        }
+        return ok(checkIn);
+    }
+
+    /**
+     * Write a check-in change to the audit log
+     */
+    private async audit(
+        checkIn: CheckIn,
+        action: string,
+        context: AuditContext,
+        metadata?: Record<string, unknown>
+    ): Promise<void> {
+        await auditRepository.create({
+            userId: checkIn.userId,
+            action,
+            resourceType: 'CheckIn',
+            resourceId: checkIn.id,
+            metadata,
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+    }
+}
+
+export const checkInService = new CheckInService();
@@ -4,10 +4,15 @@
 // Emergency contact business logic
 
 import { Result, ok, fail } from '../utils/result.js';
-import { NotFoundError, ConflictError, ValidationError, UnauthorizedError, DomainError } from '../domain/errors/domain.errors.js';
+import { NotFoundError, ConflictError, ValidationError, UnauthorizedError, EmailNotVerifiedError, DomainError } from '../domain/errors/domain.errors.js';
 import { contactRepository, Contact, ContactInvite } from '../repositories/contact.repository.js';
 import { userRepository } from '../repositories/user.repository.js';
 import { inviteCodeRepository } from '../repositories/invite-code.repository.js';
+import { config } from '../config/index.js';
+import { normalizePhoneNumber, INVALID_PHONE_NUMBER_MESSAGE } from '../utils/phone.js';
+import { logger } from '../utils/logger.js';
+import { notificationService } from './notification.service.js';
+import { inboxService } from './inbox.service.js';
 
 // =============================================================================
 // Types
@@ -24,6 +29,7 @@ interface UpdateContactInput {
     name?: string;
     phoneNumber?: string;
     email?: string;
+    isMuted?: boolean; // Silences notifications about the contact, except SOS
 }
 
 interface InviteCodeResponse {
@@ -51,6 +57,12 @@ class ContactService {
         userId: string,
         input: CreateContactInput
     ): Promise<Result<Contact, DomainError>> {
+        // Stored in E.164 so the same number matches whatever format it was typed in
+        const phoneNumber = normalizePhoneNumber(input.phoneNumber, config.phone.defaultCountryCode);
+        if (!phoneNumber) {
+            return fail(new ValidationError(INVALID_PHONE_NUMBER_MESSAGE));
+        }
+
         // If this is the first contact, make it primary
         const existingContacts = await contactRepository.findAllByUserId(userId);
         const isPrimary = input.isPrimary || existingContacts.length === 0;
@@ -63,7 +75,7 @@ class ContactService {
         const contact = await contactRepository.create({
             userId,
             name: input.name,
-            phoneNumber: input.phoneNumber,
+            phoneNumber,
             email: input.email,
             isPrimary,
         });
@@ -95,7 +107,16 @@ class ContactService {
             return fail(new NotFoundError('Contact', contactId));
         }
 
-        const updatedContact = await contactRepository.update(contactId, input);
+        let phoneNumber: string | undefined;
+        if (input.phoneNumber !== undefined) {
+            const normalized = normalizePhoneNumber(input.phoneNumber, config.phone.defaultCountryCode);
+            if (!normalized) {
+                return fail(new ValidationError(INVALID_PHONE_NUMBER_MESSAGE));
+            }
+            phoneNumber = normalized;
+        }
+
+        const updatedContact = await contactRepository.update(contactId, { ...input, phoneNumber });
         return ok(updatedContact);
     }
 
@@ -117,6 +138,14 @@ class ContactService {
             if (reciprocalContact) {
                 // Mark as disconnected so they get notified
                 await contactRepository.update(reciprocalContact.id, { status: 'disconnected' });
+
+                const user = await userRepository.findById(userId);
+                inboxService.post([contact.contactUserId], {
+                    type: 'contact_disconnected',
+                    title: 'Contact removed',
+                    body: `${user?.name ?? 'A contact'} removed you from their circle`,
+                    data: { userId, contactId: reciprocalContact.id },
+                }).catch((error) => logger.error('Failed to add disconnect to inbox', { contactId, error }));
             }
         }
 
@@ -235,6 +264,12 @@ class ContactService {
             return fail(new ValidationError('Cannot invite yourself'));
         }
 
+        // Invites reach other people - only from accounts with a confirmed email
+        const sender = await userRepository.findById(senderId);
+        if (!sender?.isEmailValidated) {
+            return fail(new EmailNotVerifiedError('Verify your email address before inviting contacts'));
+        }
+
         // Check if already friends
         const existingContacts = await contactRepository.findAllByUserId(senderId);
         const alreadyFriend = existingContacts.some(c => c.contactUserId === receiverId);
@@ -249,6 +284,17 @@ class ContactService {
         }
 
         const invite = await contactRepository.createInvite(senderId, receiverId);
+
+        const received = {
+            title: 'New circle invite',
+            body: `${sender.name} invited you to their circle`,
+            data: { inviteId: invite.id, senderId },
+        };
+        inboxService.post([receiverId], { type: 'invite_received', ...received })
+            .catch((error) => logger.error('Failed to add invite to inbox', { inviteId: invite.id, error }));
+        notificationService.notifyUsers([receiverId], { type: 'invite_received', subjectUserId: senderId, ...received })
+            .catch((error) => logger.error('Failed to notify invite receiver', { inviteId: invite.id, error }));
+
         return ok({ inviteId: invite.id, status: invite.status });
     }
 
@@ -339,6 +385,17 @@ class ContactService {
         });
 
         await contactRepository.updateInviteStatus(inviteId, 'accepted');
+
+        const accepted = {
+            title: 'Invite accepted',
+            body: `${receiver.name} joined your circle`,
+            data: { inviteId, receiverId: receiver.id },
+        };
+        inboxService.post([sender.id], { type: 'invite_accepted', ...accepted })
+            .catch((error) => logger.error('Failed to add invite to inbox', { inviteId, error }));
+        notificationService.notifyUsers([sender.id], { type: 'invite_accepted', subjectUserId: receiver.id, ...accepted })
+            .catch((error) => logger.error('Failed to notify invite sender', { inviteId, error }));
+
         return ok(undefined);
     }
 
@@ -0,0 +1,318 @@
+// =============================================================================
+// Blink Engine - Delivery Queue Service
+// =============================================================================
+// Durable push, SMS and email delivery with retry, backoff and a dead-letter queue
+
+import { Result, ok, fail } from '../utils/result.js';
+import { NotFoundError, ConflictError, DomainError } from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { runInTransaction, TransactionClient } from '../config/database.js';
+import { logger } from '../utils/logger.js';
+import { deliveryJobRepository, DeliveryJob } from '../repositories/delivery-job.repository.js';
+import {
+    deliveryDeadLetterRepository,
+    DeliveryDeadLetter,
+} from '../repositories/delivery-dead-letter.repository.js';
+import { notificationDeliveryRepository } from '../repositories/notification-delivery.repository.js';
+import { sosRepository } from '../repositories/sos.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import {
+    NotificationChannelName,
+    NotificationMessage,
+    NotificationPriority,
+    DeliveryResult,
+} from '../providers/notification-channel.js';
+import { notificationService } from './notification.service.js';
+import { deliveryWorker } from '../workers/delivery.worker.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A message to queue, optionally tied to an SOS event and one of its contacts
+ */
+export interface QueuedDelivery {
+    message: NotificationMessage;
+    sosEventId?: string;
+    contactId?: string;
+    dedupKey?: string; // Queued at most once per key
+    correlationId?: string; // Carried into the SOS audit trail
+}
+
+interface StoredMessage {
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+    correlationId?: string;
+}
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface ListDeadLettersOptions {
+    includeReplayed?: boolean;
+    channel?: NotificationChannelName;
+    sosEventId?: string;
+    limit?: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LOCK_MS = 60000; // A claimed job is reclaimable after 1 minute
+
+// Exponential backoff per priority; SOS deliveries are critical and retry within seconds
+const RETRY_BACKOFF: Record<NotificationPriority, { baseDelayMs: number; maxDelayMs: number }> = {
+    critical: { baseDelayMs: 2000, maxDelayMs: 60 * 1000 },
+    normal: { baseDelayMs: 30 * 1000, maxDelayMs: 60 * 60 * 1000 },
+};
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class DeliveryQueueService {
+    /**
+     * Queue messages and wake the delivery worker
+     * Returns the number of jobs queued (duplicates by dedup key are ignored)
+     */
+    async enqueue(deliveries: QueuedDelivery[]): Promise<number> {
+        const queued = await deliveryJobRepository.enqueue(deliveries.map((delivery) => ({
+            sosEventId: delivery.sosEventId,
+            contactId: delivery.contactId,
+            channel: delivery.message.channel,
+            destination: delivery.message.destination,
+            message: this.toStoredMessage(delivery),
+            priority: delivery.message.priority,
+            dedupKey: delivery.dedupKey,
+            maxAttempts: this.getMaxAttempts(delivery.sosEventId),
+        })));
+
+        if (queued > 0) {
+            deliveryWorker.wake();
+        }
+
+        return queued;
+    }
+
+    /**
+     * Claim and attempt one batch of due jobs
+     * Returns the number of jobs attempted
+     */
+    async processDue(): Promise<Result<number, DomainError>> {
+        const jobs = await deliveryJobRepository.claimDue(config.delivery.batchSize, LOCK_MS);
+        for (const job of jobs) {
+            try {
+                await this.process(job);
+            } catch (error) {
+                // Left in processing - reclaimed once the lock expires
+                logger.error('Failed to process delivery job', { jobId: job.id, error });
+            }
+        }
+
+        return ok(jobs.length);
+    }
+
+    /**
+     * List dead letters, newest first
+     */
+    async listDeadLetters(options: ListDeadLettersOptions): Promise<Result<DeliveryDeadLetter[], DomainError>> {
+        const deadLetters = await deliveryDeadLetterRepository.findMany({
+            includeReplayed: options.includeReplayed ?? false,
+            channel: options.channel,
+            sosEventId: options.sosEventId,
+            limit: options.limit ?? 50,
+        });
+        return ok(deadLetters);
+    }
+
+    /**
+     * Get a dead letter
+     */
+    async getDeadLetter(id: string): Promise<Result<DeliveryDeadLetter, DomainError>> {
+        const deadLetter = await deliveryDeadLetterRepository.findById(id);
+        if (!deadLetter) {
+            return fail(new NotFoundError('DeliveryDeadLetter', id));
+        }
+        return ok(deadLetter);
+    }
+
+    /**
+     * Queue a dead letter's job again with a fresh set of attempts
+     */
+    async replayDeadLetter(id: string, context: AuditContext): Promise<Result<DeliveryDeadLetter, DomainError>> {
+        const deadLetter = await deliveryDeadLetterRepository.findById(id);
+        if (!deadLetter) {
+            return fail(new NotFoundError('DeliveryDeadLetter', id));
+        }
+
+        const replayed = await runInTransaction(async (tx) => {
+            const claimed = await deliveryDeadLetterRepository.claimForReplay(id, tx);
+            if (!claimed) return null;
+
+            const job = await deliveryJobRepository.requeueDead(
+                deadLetter.jobId,
+                this.getMaxAttempts(deadLetter.sosEventId),
+                tx
+            );
+            if (!job) return null;
+
+            await auditRepository.create({
+                action: 'DELIVERY_REPLAYED',
+                resourceType: 'DeliveryDeadLetter',
+                resourceId: id,
+                metadata: { jobId: job.id, sosEventId: deadLetter.sosEventId, channel: deadLetter.channel },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            if (deadLetter.sosEventId) {
+                await sosRepository.addAuditEntries(deadLetter.sosEventId, [{
+                    action: 'CONTACT_NOTIFICATION_REPLAYED',
+                    contactId: deadLetter.contactId,
+                    channel: deadLetter.channel,
+                    jobId: job.id,
+                    timestamp: new Date().toISOString(),
+                    correlationId: context.correlationId,
+                }], tx);
+            }
+
+            return deliveryDeadLetterRepository.setReplayJob(id, job.id, tx);
+        });
+
+        if (!replayed) {
+            return fail(new ConflictError('Dead letter has already been replayed'));
+        }
+
+        deliveryWorker.wake();
+
+        logger.info('Dead letter replayed', {
+            correlationId: context.correlationId,
+            deadLetterId: id,
+            jobId: replayed.replayJobId,
+        });
+
+        return ok(replayed);
+    }
+
+    /**
+     * Attempt a job and record the outcome: done, retry later or dead-letter
+     */
+    private async process(job: DeliveryJob): Promise<void> {
+        const result = await notificationService.send(this.toMessage(job));
+
+        await notificationDeliveryRepository.create({
+            sosEventId: job.sosEventId ?? undefined,
+            contactId: job.contactId ?? undefined,
+            channel: job.channel,
+            destination: job.destination,
+            status: result.status,
+            providerMessageId: result.providerMessageId,
+            error: result.error,
+        });
+
+        if (result.status !== 'failed') {
+            await deliveryJobRepository.markCompleted(job.id, result.status, result.error);
+            await this.auditSosAttempt(job, 'CONTACT_NOTIFIED', result);
+            return;
+        }
+
+        const error = result.error ?? 'Delivery failed';
+
+        if (job.attempts >= job.maxAttempts) {
+            await runInTransaction(async (tx) => {
+                await deliveryDeadLetterRepository.createFromJob(job, error, tx);
+                await deliveryJobRepository.markDead(job.id, error, tx);
+                await this.auditSosAttempt(job, 'CONTACT_NOTIFICATION_DEAD_LETTERED', result, {}, tx);
+            });
+
+            logger.error('Delivery failed permanently, dead-lettered', {
+                jobId: job.id,
+                sosEventId: job.sosEventId,
+                channel: job.channel,
+                attempts: job.attempts,
+                error,
+            });
+            return;
+        }
+
+        const backoff = RETRY_BACKOFF[job.priority as NotificationPriority] ?? RETRY_BACKOFF.normal;
+        const delay = Math.min(backoff.baseDelayMs * 2 ** (job.attempts - 1), backoff.maxDelayMs);
+        const nextAttemptAt = new Date(Date.now() + delay);
+
+        await deliveryJobRepository.scheduleRetry(job.id, error, nextAttemptAt);
+        await this.auditSosAttempt(job, 'CONTACT_NOTIFICATION_FAILED', result, {
+            nextAttemptAt: nextAttemptAt.toISOString(),
+        });
+
+        logger.warn('Delivery failed, retry scheduled', {
+            jobId: job.id,
+            sosEventId: job.sosEventId,
+            channel: job.channel,
+            attempts: job.attempts,
+            retryInMs: delay,
+            error,
+        });
+    }
+
+    /**
+     * Append an attempt to the SOS event's audit trail (no-op for other deliveries)
+     */
+    private async auditSosAttempt(
+        job: DeliveryJob,
+        action: string,
+        result: DeliveryResult,
+        extra: Record<string, unknown> = {},
+        tx?: TransactionClient
+    ): Promise<void> {
+        if (!job.sosEventId) return;
+
+        await sosRepository.addAuditEntries(job.sosEventId, [{
+            action,
+            contactId: job.contactId,
+            channel: job.channel,
+            status: result.status,
+            error: result.error,
+            attempt: job.attempts,
+            ...extra,
+            timestamp: new Date().toISOString(),
+            correlationId: (job.message as unknown as StoredMessage).correlationId,
+        }], tx);
+    }
+
+    /**
+     * SOS deliveries get more attempts
+     */
+    private getMaxAttempts(sosEventId: string | null | undefined): number {
+        return sosEventId ? config.delivery.sosMaxAttempts : config.delivery.maxAttempts;
+    }
+
+    /**
+     * What a job stores besides its channel, destination and priority
+     */
+    private toStoredMessage(delivery: QueuedDelivery): Record<string, unknown> {
+        const { title, body, data } = delivery.message;
+        const stored: StoredMessage = { title, body, data, correlationId: delivery.correlationId };
+        return { ...stored };
+    }
+
+    private toMessage(job: DeliveryJob): NotificationMessage {
+        const stored = job.message as unknown as StoredMessage;
+        return {
+            channel: job.channel as NotificationChannelName,
+            destination: job.destination,
+            title: stored.title,
+            body: stored.body,
+            priority: job.priority as NotificationPriority,
+            data: stored.data,
+        };
+    }
+}
+
+export const deliveryQueueService = new DeliveryQueueService();
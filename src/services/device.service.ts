@@ -0,0 +1,56 @@
+// =============================================================================
+// Blink Engine - Device Service
+// =============================================================================
+// Registers app installs (push tokens) so the user can be reached in the background
+
+import { Result, ok, fail } from '../utils/result.js';
+import { NotFoundError, DomainError } from '../domain/errors/domain.errors.js';
+import { deviceRepository, Device } from '../repositories/device.repository.js';
+import { PushProviderName } from '../providers/push-provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RegisterDeviceInput {
+    provider: PushProviderName;
+    token: string;
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class DeviceService {
+    /**
+     * Register the push token of the current app install
+     * The token is tied to the session, so signing that session out stops its pushes.
+     * Apps should register on every launch - providers rotate tokens.
+     */
+    async registerDevice(
+        userId: string,
+        sessionId: string | undefined,
+        input: RegisterDeviceInput
+    ): Promise<Result<Device, DomainError>> {
+        const device = await deviceRepository.register({
+            userId,
+            sessionId,
+            provider: input.provider,
+            token: input.token,
+        });
+        return ok(device);
+    }
+
+    /**
+     * Stop pushes to an app install (e.g. the user turned notifications off)
+     */
+    async unregisterDevice(userId: string, token: string): Promise<Result<void, DomainError>> {
+        const deleted = await deviceRepository.deleteForUser(userId, token);
+        if (!deleted) {
+            return fail(new NotFoundError('Device'));
+        }
+        return ok(undefined);
+    }
+}
+
+export const deviceService = new DeviceService();
@@ -0,0 +1,114 @@
+// =============================================================================
+// Blink Engine - Email Verification Service
+// =============================================================================
+// Confirms ownership of the account's email address
+
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    NotFoundError,
+    ConflictError,
+    ValidationError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { runInTransaction } from '../config/database.js';
+import { userRepository, UserWithoutPassword } from '../repositories/user.repository.js';
+import { verificationTokenRepository } from '../repositories/verification-token.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { mailService } from './mail.service.js';
+import { generateToken, hashToken } from '../utils/token.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class EmailVerificationService {
+    /**
+     * Issue a verification token and email it
+     * Earlier tokens stop working so only the latest email's link is valid
+     */
+    async sendVerification(user: UserWithoutPassword): Promise<Result<void, DomainError>> {
+        if (user.isEmailValidated) {
+            return fail(new ConflictError('Email address is already verified'));
+        }
+
+        const token = generateToken();
+        const expiresAt = new Date(Date.now() + config.mail.emailVerificationTtlHours * 60 * 60 * 1000);
+
+        await runInTransaction(async (tx) => {
+            await verificationTokenRepository.invalidateForUser(user.id, 'email_verification', tx);
+            await verificationTokenRepository.create({
+                userId: user.id,
+                purpose: 'email_verification',
+                tokenHash: hashToken(token),
+                expiresAt,
+            }, tx);
+        });
+
+        const result = await mailService.sendEmailVerification(user.email, user.name, token);
+        if (result.status === 'failed') {
+            logger.warn('Verification email not delivered', { userId: user.id });
+        }
+
+        return ok(undefined);
+    }
+
+    /**
+     * Send a new verification email to the current user
+     */
+    async resendVerification(userId: string): Promise<Result<void, DomainError>> {
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            return fail(new NotFoundError('User'));
+        }
+
+        return this.sendVerification(user);
+    }
+
+    /**
+     * Redeem a verification token (single use)
+     */
+    async confirmEmail(token: string, context: AuditContext): Promise<Result<void, DomainError>> {
+        const record = await verificationTokenRepository.findValidByHash(hashToken(token), 'email_verification');
+        if (!record) {
+            return fail(new ValidationError('Invalid or expired verification link'));
+        }
+
+        const confirmed = await runInTransaction(async (tx) => {
+            if (!(await verificationTokenRepository.markUsed(record.id, tx))) return false;
+
+            await userRepository.markEmailValidated(record.userId, tx);
+
+            await auditRepository.create({
+                userId: record.userId,
+                action: 'EMAIL_VERIFIED',
+                resourceType: 'User',
+                resourceId: record.userId,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return true;
+        });
+
+        if (!confirmed) {
+            return fail(new ValidationError('Invalid or expired verification link'));
+        }
+
+        return ok(undefined);
+    }
+}
+
+export const emailVerificationService = new EmailVerificationService();
@@ -0,0 +1,118 @@
+// =============================================================================
+// Blink Engine - Inbox Service
+// =============================================================================
+// Persisted notification inbox: what happened while the user was away
+
+import { Result, ok, fail } from '../utils/result.js';
+import { ValidationError, DomainError } from '../domain/errors/domain.errors.js';
+import { inboxRepository, InboxItem } from '../repositories/inbox.repository.js';
+import { socketService } from './socket.service.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type InboxItemType =
+    | 'invite_received'
+    | 'invite_accepted'
+    | 'contact_disconnected'
+    | 'sos_started'
+    | 'sos_ended'
+    | 'place_arrival';
+
+export interface InboxEntry {
+    type: InboxItemType;
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+    dedupKey?: string; // Per recipient; set when the event may be delivered more than once
+}
+
+export interface InboxPage {
+    items: InboxItem[];
+    nextCursor: string | null;
+    unreadCount: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class InboxService {
+    /**
+     * Add an entry to each recipient's inbox and emit `inbox:new` with their unread count
+     * Recipients who already have the entry (same dedup key) are skipped
+     */
+    async post(recipientIds: string[], entry: InboxEntry): Promise<void> {
+        const items = await inboxRepository.createMany([...new Set(recipientIds)].map((userId) => ({
+            userId,
+            type: entry.type,
+            title: entry.title,
+            body: entry.body,
+            data: entry.data,
+            dedupKey: entry.dedupKey,
+        })));
+
+        await Promise.all(items.map(async (item) => {
+            const unreadCount = await inboxRepository.countUnread(item.userId);
+            socketService.emitToUsers([item.userId], 'inbox:new', { item, unreadCount });
+        }));
+    }
+
+    /**
+     * Newest items first; pass the returned cursor to get the next page
+     */
+    async listItems(
+        userId: string,
+        options: { cursor?: string; limit?: number }
+    ): Promise<Result<InboxPage, DomainError>> {
+        if (options.cursor && !await inboxRepository.existsForUser(options.cursor, userId)) {
+            return fail(new ValidationError('Invalid cursor', { cursor: options.cursor }));
+        }
+
+        const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+        const [page, unreadCount] = await Promise.all([
+            inboxRepository.findPage(userId, limit, options.cursor),
+            inboxRepository.countUnread(userId),
+        ]);
+
+        const items = page.slice(0, limit);
+        return ok({
+            items,
+            nextCursor: page.length > limit ? items[items.length - 1].id : null,
+            unreadCount,
+        });
+    }
+
+    /**
+     * Count unread items (badge)
+     */
+    async getUnreadCount(userId: string): Promise<Result<number, DomainError>> {
+        return ok(await inboxRepository.countUnread(userId));
+    }
+
+    /**
+     * Mark items as read; IDs that are not the user's or already read are ignored
+     * Returns the remaining unread count
+     */
+    async markRead(userId: string, ids: string[]): Promise<Result<number, DomainError>> {
+        await inboxRepository.markRead(userId, ids);
+        return ok(await inboxRepository.countUnread(userId));
+    }
+
+    /**
+     * Mark every item as read
+     */
+    async markAllRead(userId: string): Promise<Result<number, DomainError>> {
+        await inboxRepository.markAllRead(userId);
+        return ok(0);
+    }
+}
+
+export const inboxService = new InboxService();
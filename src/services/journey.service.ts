@@ -0,0 +1,424 @@
+// =============================================================================
+// Blink Engine - Journey Service
+// =============================================================================
+// "Walk me home": trip sharing with chosen contacts, arrival detection and overdue alerts
+
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    NotFoundError,
+    ForbiddenError,
+    ConflictError,
+    ValidationError,
+    SosAlreadyActiveError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { journeyRepository, Journey, JourneyWatcher } from '../repositories/journey.repository.js';
+import { sosRepository } from '../repositories/sos.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { Location } from '../repositories/location.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { contactService } from './contact.service.js';
+import { sosService } from './sos.service.js';
+import { socketService } from './socket.service.js';
+import { notificationService } from './notification.service.js';
+import { distanceMeters, Coordinates } from '../utils/geo.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface StartJourneyInput {
+    origin: Coordinates;
+    destination: Coordinates & { name?: string };
+    expectedArrivalAt: Date;
+    contactIds: string[];
+    arrivalRadiusMeters?: number;
+}
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+type JourneyAlertReason = 'overdue' | 'stationary';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Moving less than this from the last anchor point counts as standing still (GPS jitter)
+const MOVEMENT_THRESHOLD_METERS = 30;
+// Below this speed (m/s) no ETA is estimated
+const MIN_ETA_SPEED = 0.5;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class JourneyService {
+    /**
+     * Start a journey shared with the chosen contacts
+     * Watchers must be accepted contacts with a Blink account (they receive socket events)
+     */
+    async startJourney(
+        userId: string,
+        input: StartJourneyInput,
+        context: AuditContext
+    ): Promise<Result<Journey, DomainError>> {
+        if (input.expectedArrivalAt.getTime() <= Date.now()) {
+            return fail(new ValidationError('Expected arrival time must be in the future'));
+        }
+
+        const existing = await journeyRepository.findActiveByUserId(userId);
+        if (existing) {
+            return fail(new ConflictError('A journey is already in progress'));
+        }
+
+        const contacts = await contactService.getContactsWithUser(userId);
+        const chosen = contacts.filter(c => input.contactIds.includes(c.id));
+        if (chosen.length !== new Set(input.contactIds).size) {
+            return fail(new ValidationError('Watchers must be accepted contacts that use Blink'));
+        }
+
+        const watchers: JourneyWatcher[] = chosen.map(c => ({
+            contactId: c.id,
+            contactUserId: c.contactUserId!,
+            name: c.name,
+        }));
+
+        const journey = await journeyRepository.create({
+            userId,
+            destinationLatitude: input.destination.latitude,
+            destinationLongitude: input.destination.longitude,
+            destinationName: input.destination.name,
+            arrivalRadiusMeters: input.arrivalRadiusMeters,
+            expectedArrivalAt: input.expectedArrivalAt,
+            watchers,
+            anchorLatitude: input.origin.latitude,
+            anchorLongitude: input.origin.longitude,
+        });
+
+        await this.audit(journey, userId, 'JOURNEY_STARTED', context, {
+            expectedArrivalAt: journey.expectedArrivalAt.toISOString(),
+            watchers: watchers.map(w => w.contactId),
+        });
+
+        this.emitUpdate(journey, { status: 'active' });
+        this.notifyWatchers(journey, 'journey_update', (name, destination) =>
+            `${name} started a journey to ${destination}`);
+
+        return ok(journey);
+    }
+
+    /**
+     * Get the user's active journey
+     */
+    async getActiveJourney(userId: string): Promise<Result<Journey | null, DomainError>> {
+        const journey = await journeyRepository.findActiveByUserId(userId);
+        return ok(journey);
+    }
+
+    /**
+     * End a journey before arrival
+     */
+    async cancelJourney(
+        userId: string,
+        id: string,
+        context: AuditContext
+    ): Promise<Result<Journey, DomainError>> {
+        const journey = await journeyRepository.findById(id);
+        if (!journey || journey.userId !== userId) {
+            return fail(new NotFoundError('Journey', id));
+        }
+
+        const cancelled = await journeyRepository.end(id, 'cancelled');
+        if (!cancelled) {
+            return fail(new ConflictError('Journey has already ended'));
+        }
+
+        await this.audit(cancelled, userId, 'JOURNEY_CANCELLED', context);
+        this.emitUpdate(cancelled, { status: 'cancelled' });
+        this.notifyWatchers(cancelled, 'journey_update', (name, destination) =>
+            `${name} ended their journey to ${destination}`);
+
+        return ok(cancelled);
+    }
+
+    /**
+     * Turn a journey into an SOS - by the user or one of their watchers
+     * Uses the regular trigger path so history and circle status stay consistent
+     */
+    async escalateJourney(
+        actorId: string,
+        id: string,
+        context: AuditContext
+    ): Promise<Result<Journey, DomainError>> {
+        const journey = await journeyRepository.findById(id);
+        if (!journey) {
+            return fail(new NotFoundError('Journey', id));
+        }
+
+        const isWatcher = this.getWatchers(journey).some(w => w.contactUserId === actorId);
+        if (journey.userId !== actorId && !isWatcher) {
+            return fail(new ForbiddenError('Only the traveller and their watchers can escalate this journey'));
+        }
+
+        if (journey.status !== 'active') {
+            return fail(new ConflictError('Journey has already ended'));
+        }
+
+        const result = await sosService.triggerSos(journey.userId, {
+            ...this.getLastKnownLocation(journey),
+            idempotencyKey: `journey:${journey.id}`,
+        }, {
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            source: 'journey',
+            sourceId: journey.id,
+        });
+
+        let sosEventId: string;
+        if (result.success) {
+            sosEventId = result.data.id;
+        } else if (result.error instanceof SosAlreadyActiveError) {
+            // Already in an emergency - link the journey to it
+            const activeSos = await sosRepository.findLiveByUserId(journey.userId)
+                ?? await sosRepository.findArmedByUserId(journey.userId);
+            if (!activeSos) {
+                return fail(result.error);
+            }
+            sosEventId = activeSos.id;
+        } else {
+            return fail(result.error);
+        }
+
+        const escalated = await journeyRepository.end(journey.id, 'escalated', sosEventId);
+        if (!escalated) {
+            return fail(new ConflictError('Journey has already ended'));
+        }
+
+        await this.audit(escalated, actorId, 'JOURNEY_ESCALATED', context, { sosEventId });
+        this.emitUpdate(escalated, { status: 'escalated', sosEventId });
+
+        logger.warn('Journey escalated to SOS', {
+            correlationId: context.correlationId,
+            journeyId: journey.id,
+            userId: journey.userId,
+            escalatedBy: actorId,
+            sosId: sosEventId,
+        });
+
+        return ok(escalated);
+    }
+
+    /**
+     * Apply a location update to the user's active journey
+     * Completes the journey on arrival, otherwise tracks movement and streams progress
+     */
+    async recordProgress(userId: string, location: Location): Promise<void> {
+        const journey = await journeyRepository.findActiveByUserId(userId);
+        if (!journey) return;
+
+        const point = { latitude: location.latitude, longitude: location.longitude };
+        const remaining = distanceMeters(point, {
+            latitude: journey.destinationLatitude,
+            longitude: journey.destinationLongitude,
+        });
+
+        if (remaining <= journey.arrivalRadiusMeters) {
+            const arrived = await journeyRepository.end(journey.id, 'arrived');
+            if (arrived) {
+                await this.audit(arrived, userId, 'JOURNEY_ARRIVED', {});
+                this.emitUpdate(arrived, { status: 'arrived', location: this.toPayload(location) });
+                this.notifyWatchers(arrived, 'journey_update', (name, destination) =>
+                    `${name} arrived at ${destination}`);
+            }
+            return;
+        }
+
+        const anchor = journey.anchorLatitude !== null && journey.anchorLongitude !== null
+            ? { latitude: journey.anchorLatitude, longitude: journey.anchorLongitude }
+            : null;
+        const moved = !anchor || distanceMeters(anchor, point) >= MOVEMENT_THRESHOLD_METERS;
+
+        await journeyRepository.recordProgress(journey.id, {
+            lastLatitude: location.latitude,
+            lastLongitude: location.longitude,
+            lastUpdateAt: location.timestamp,
+            ...(moved && {
+                movedAt: new Date(),
+                anchorLatitude: location.latitude,
+                anchorLongitude: location.longitude,
+                stationaryAlertedAt: null,
+            }),
+        });
+
+        const estimatedArrivalAt = location.speed && location.speed >= MIN_ETA_SPEED
+            ? new Date(Date.now() + (remaining / location.speed) * 1000)
+            : null;
+
+        this.emitUpdate(journey, {
+            status: 'active',
+            location: this.toPayload(location),
+            distanceRemainingMeters: Math.round(remaining),
+            estimatedArrivalAt,
+        });
+    }
+
+    /**
+     * Alert watchers of journeys that are overdue or have stopped moving
+     * Returns the number of alerts sent
+     */
+    async checkJourneys(): Promise<Result<number, DomainError>> {
+        const journeys = await journeyRepository.findAllActive();
+        const now = Date.now();
+        const overdueAfterMs = config.journeys.overdueGraceMinutes * 60 * 1000;
+        const stationaryAfterMs = config.journeys.stationaryMinutes * 60 * 1000;
+
+        let alerts = 0;
+        for (const journey of journeys) {
+            try {
+                if (!journey.overdueAlertedAt && now - journey.expectedArrivalAt.getTime() > overdueAfterMs) {
+                    if (await this.alert(journey, 'overdue')) alerts++;
+                }
+                if (!journey.stationaryAlertedAt && now - journey.movedAt.getTime() > stationaryAfterMs) {
+                    if (await this.alert(journey, 'stationary')) alerts++;
+                }
+            } catch (error) {
+                logger.error('Failed to check journey', { journeyId: journey.id, error });
+            }
+        }
+
+        return ok(alerts);
+    }
+
+    /**
+     * Send `journey:alert` to the watchers, at most once per reason
+     * (stationary alerts re-arm once the user moves again)
+     */
+    private async alert(journey: Journey, reason: JourneyAlertReason): Promise<boolean> {
+        const claimed = await journeyRepository.markAlerted(journey.id, reason);
+        if (!claimed) return false;
+
+        await this.audit(journey, journey.userId, 'JOURNEY_ALERT', {}, { reason });
+
+        const recipientIds = this.getWatchers(journey).map(w => w.contactUserId);
+        socketService.emitToUsers(recipientIds, 'journey:alert', {
+            journeyId: journey.id,
+            userId: journey.userId,
+            reason,
+            expectedArrivalAt: journey.expectedArrivalAt,
+            lastLocation: this.getLastKnownLocation(journey),
+            lastUpdateAt: journey.lastUpdateAt,
+            canEscalate: true, // POST /v1/journeys/:id/escalate
+        });
+        this.notifyWatchers(journey, 'journey_alert', (name, destination) => reason === 'overdue'
+            ? `${name} has not arrived at ${destination} yet`
+            : `${name} has stopped moving on the way to ${destination}`);
+
+        logger.warn('Journey alert sent', { journeyId: journey.id, userId: journey.userId, reason });
+
+        return true;
+    }
+
+    /**
+     * Emit `journey:update` to the watchers
+     */
+    private emitUpdate(journey: Journey, update: Record<string, unknown>): void {
+        const recipientIds = this.getWatchers(journey).map(w => w.contactUserId);
+        if (recipientIds.length === 0) return;
+
+        socketService.emitToUsers(recipientIds, 'journey:update', {
+            journeyId: journey.id,
+            userId: journey.userId,
+            destination: {
+                latitude: journey.destinationLatitude,
+                longitude: journey.destinationLongitude,
+                name: journey.destinationName,
+            },
+            expectedArrivalAt: journey.expectedArrivalAt,
+            ...update,
+        });
+    }
+
+    /**
+     * Notify the watchers on the channels their preferences allow (fire-and-forget)
+     * Progress pings only go out as socket events
+     */
+    private notifyWatchers(
+        journey: Journey,
+        type: 'journey_update' | 'journey_alert',
+        describe: (name: string, destination: string) => string
+    ): void {
+        const recipientIds = this.getWatchers(journey).map(w => w.contactUserId);
+        if (recipientIds.length === 0) return;
+
+        userRepository.findById(journey.userId)
+            .then((user) => notificationService.notifyUsers(recipientIds, {
+                type,
+                subjectUserId: journey.userId,
+                title: type === 'journey_alert' ? 'Journey alert' : 'Journey update',
+                body: describe(user?.name ?? 'Your contact', journey.destinationName ?? 'their destination'),
+                data: { journeyId: journey.id, userId: journey.userId, status: journey.status },
+            }))
+            .catch((error) => logger.error('Failed to send journey notifications', { journeyId: journey.id, error }));
+    }
+
+    /**
+     * Latest reported position, or where the journey started
+     */
+    private getLastKnownLocation(journey: Journey): Coordinates {
+        if (journey.lastLatitude !== null && journey.lastLongitude !== null) {
+            return { latitude: journey.lastLatitude, longitude: journey.lastLongitude };
+        }
+        return { latitude: journey.anchorLatitude!, longitude: journey.anchorLongitude! };
+    }
+
+    /**
+     * Watchers snapshot of a journey
+     */
+    private getWatchers(journey: Journey): JourneyWatcher[] {
+        return (journey.watchers as unknown as JourneyWatcher[] | null) ?? [];
+    }
+
+    /**
+     * Location as sent in socket events (same shape as `location:update`)
+     */
+    private toPayload(location: Location) {
+        return {
+            lat: location.latitude,
+            lng: location.longitude,
+            timestamp: location.timestamp,
+            speed: location.speed,
+            heading: location.heading,
+        };
+    }
+
+    /**
+     * Write a journey change to the audit log
+     */
+    private async audit(
+        journey: Journey,
+        userId: string,
+        action: string,
+        context: AuditContext,
+        metadata?: Record<string, unknown>
+    ): Promise<void> {
+        await auditRepository.create({
+            userId,
+            action,
+            resourceType: 'Journey',
+            resourceId: journey.id,
+            metadata,
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+    }
+}
+
+export const journeyService = new JourneyService();
@@ -9,8 +9,15 @@ import { locationRepository, Location } from '../repositories/location.repositor
 
 import { userRepository } from '../repositories/user.repository.js';
 import { contactRepository } from '../repositories/contact.repository.js';
+import { sosRepository, SosEvent } from '../repositories/sos.repository.js';
+import { contactService } from './contact.service.js';
+import { journeyService } from './journey.service.js';
+import { placeService, PlaceTransition, LocationPoint } from './place.service.js';
+import { logger } from '../utils/logger.js';
 // Placeholder for SocketService until implemented
 import { socketService } from './socket.service.js';
+import { notificationService } from './notification.service.js';
+import { inboxService } from './inbox.service.js';
 
 // =============================================================================
 // Types
@@ -26,6 +33,18 @@ interface RecordLocationInput {
     timestamp: Date;
 }
 
+/**
+ * A point streamed as `sos:location` - a stored location or a batch point
+ */
+interface SosLocationPoint {
+    latitude: number;
+    longitude: number;
+    accuracy?: number | null;
+    speed?: number | null;
+    heading?: number | null;
+    timestamp: Date;
+}
+
 interface LocationHistoryOptions {
     from?: Date;
     to?: Date;
@@ -41,54 +60,45 @@ class LocationService {
      * Update user location and broadcast based on privacy rules
      * Rule: If isTracking is OFF, save but don't broadcast.
      * Rule: If isTracking is ON, broadcast only to contacts who ALSO have isTracking ON.
+     * Rule: During a live SOS, the point joins the SOS trail and is always streamed to the circle.
+     * Rule: During a journey, progress is always streamed to the journey's watchers.
+     * Rule: Place enter/exit events follow the same isTracking rules as location updates.
      */
     async updateLocation(
         userId: string,
         input: RecordLocationInput
     ): Promise<Result<Location, DomainError>> {
-        // 1. Save location to DB
+        // 1. Save location to DB, attached to the live SOS if there is one
+        const liveSos = await sosRepository.findLiveByUserId(userId);
         const location = await locationRepository.create({
             userId,
             ...input,
+            sosEventId: liveSos?.id,
         });
 
-        // 2. Fetch User Settings
-        const user = await userRepository.findById(userId);
-        if (!user) {
-            // Should not happen if auth middleware worked, but safety first
-            return ok(location);
+        // An emergency overrides the tracking toggle
+        if (liveSos) {
+            await this.streamSosLocations(liveSos, [location]);
         }
 
-        // 3. Privacy Enforcement
-        if (!user.isTracking) {
-            // User has disabled live tracking. Do not broadcast.
-            return ok(location);
+        // A journey is shared with its watchers whatever the tracking toggle says
+        try {
+            await journeyService.recordProgress(userId, location);
+        } catch (error) {
+            logger.error('Failed to record journey progress', { userId, error });
         }
 
-        // 4. Find recipients (Hard Permission Enforcement)
-        // Fetch all contacts
-        const contacts = await contactRepository.findAllByUserId(userId);
-
-        // We need to check if these contacts ALSO have isTracking enabled.
-        // We need to fetch the User record for each contact.
-        // Optimization: In a real app, do a join or `findMany` with `in`.
-        // Here we iterate (assuming circle size is small, < 20).
+        // Presence is tracked whatever the toggle says; events follow the privacy rules
+        const transitions = await this.detectPlaceTransitions(userId, [location]);
 
-        const recipientIds: string[] = [];
-
-        for (const contact of contacts) {
-            if (contact.contactUserId) {
-                const contactUser = await userRepository.findById(contact.contactUserId);
-                if (contactUser && contactUser.isTracking) {
-                    recipientIds.push(contactUser.id);
-                }
-            }
-        }
+        // 2. Find recipients (Hard Permission Enforcement)
+        const recipientIds = await this.getTrackingRecipientIds(userId);
+        this.emitPlaceTransitions(userId, recipientIds, transitions);
 
-        // 5. Broadcast via WebSocket
+        // 3. Broadcast via WebSocket
         if (recipientIds.length > 0) {
             socketService.emitToUsers(recipientIds, 'location:update', {
-                userId: user.id,
+                userId,
                 location: {
                     lat: location.latitude,
                     lng: location.longitude,
@@ -119,9 +129,28 @@ class LocationService {
         userId: string,
         inputs: RecordLocationInput[]
     ): Promise<Result<number, DomainError>> {
+        // Points buffered during a live SOS still belong to its trail, and are streamed like live points
+        const liveSos = await sosRepository.findLiveByUserId(userId);
+        const sosPoints = liveSos ? inputs.filter((input) => input.timestamp >= liveSos.triggeredAt) : [];
         const count = await locationRepository.createMany(
-            inputs.map((input) => ({ userId, ...input }))
+            inputs.map((input) => ({
+                userId,
+                ...input,
+                sosEventId: liveSos && sosPoints.includes(input) ? liveSos.id : undefined,
+            }))
         );
+
+        if (liveSos && sosPoints.length > 0) {
+            const ordered = [...sosPoints].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+            await this.streamSosLocations(liveSos, ordered);
+        }
+
+        const transitions = await this.detectPlaceTransitions(userId, inputs);
+        if (transitions.length > 0) {
+            const recipientIds = await this.getTrackingRecipientIds(userId);
+            this.emitPlaceTransitions(userId, recipientIds, transitions);
+        }
+
         return ok(count);
     }
 
@@ -148,6 +177,141 @@ class LocationService {
         const location = await locationRepository.findLatestByUserId(userId);
         return ok(location);
     }
+
+    /**
+     * Users who may see this user's live location
+     * Rule: If isTracking is OFF, nobody. If ON, only contacts who ALSO have isTracking ON.
+     */
+    private async getTrackingRecipientIds(userId: string): Promise<string[]> {
+        const user = await userRepository.findById(userId);
+        if (!user || !user.isTracking) {
+            // User has disabled live tracking (or is gone). Do not broadcast.
+            return [];
+        }
+
+        // We need to check if these contacts ALSO have isTracking enabled.
+        // Optimization: In a real app, do a join or `findMany` with `in`.
+        // Here we iterate (assuming circle size is small, < 20).
+        const contacts = await contactRepository.findAllByUserId(userId);
+        const recipientIds: string[] = [];
+
+        for (const contact of contacts) {
+            if (contact.contactUserId) {
+                const contactUser = await userRepository.findById(contact.contactUserId);
+                if (contactUser && contactUser.isTracking) {
+                    recipientIds.push(contactUser.id);
+                }
+            }
+        }
+
+        return recipientIds;
+    }
+
+    /**
+     * Evaluate points against the user's places
+     * Failures are logged - the points are already stored
+     */
+    private async detectPlaceTransitions(
+        userId: string,
+        points: LocationPoint[]
+    ): Promise<PlaceTransition[]> {
+        try {
+            return await placeService.detectTransitions(userId, points);
+        } catch (error) {
+            logger.error('Failed to evaluate places', { userId, error });
+            return [];
+        }
+    }
+
+    /**
+     * Emit `place:enter` / `place:exit` in the order they happened
+     * and notify recipients (inbox for arrivals, plus the channels their preferences allow)
+     */
+    private emitPlaceTransitions(
+        userId: string,
+        recipientIds: string[],
+        transitions: PlaceTransition[]
+    ): void {
+        if (recipientIds.length === 0) return;
+
+        for (const transition of transitions) {
+            socketService.emitToUsers(recipientIds, `place:${transition.type}`, {
+                userId,
+                place: {
+                    id: transition.place.id,
+                    name: transition.place.name,
+                    latitude: transition.place.latitude,
+                    longitude: transition.place.longitude,
+                    radiusMeters: transition.place.radiusMeters,
+                },
+                timestamp: transition.timestamp,
+            });
+        }
+
+        this.notifyPlaceTransitions(userId, recipientIds, transitions)
+            .catch((error) => logger.error('Failed to send place notifications', { userId, error }));
+    }
+
+    private async notifyPlaceTransitions(
+        userId: string,
+        recipientIds: string[],
+        transitions: PlaceTransition[]
+    ): Promise<void> {
+        if (transitions.length === 0) return;
+
+        const user = await userRepository.findById(userId);
+        if (!user) return;
+
+        for (const transition of transitions) {
+            const arrived = transition.type === 'enter';
+            const title = transition.place.name;
+            const body = arrived
+                ? `${user.name} arrived at ${transition.place.name}`
+                : `${user.name} left ${transition.place.name}`;
+            const data = { userId, placeId: transition.place.id };
+
+            if (arrived) {
+                await inboxService.post(recipientIds, { type: 'place_arrival', title, body, data });
+            }
+            await notificationService.notifyUsers(recipientIds, {
+                type: arrived ? 'place_enter' : 'place_exit',
+                subjectUserId: userId,
+                title,
+                body,
+                data,
+            });
+        }
+    }
+
+    /**
+     * Emit `sos:location` to every Blink user in the circle, regardless of tracking settings
+     * One event per point, in the given order. Failures are logged - the points are already stored on the trail
+     */
+    private async streamSosLocations(sosEvent: SosEvent, points: SosLocationPoint[]): Promise<void> {
+        try {
+            const contactsWithUser = await contactService.getContactsWithUser(sosEvent.userId);
+            const recipientIds = contactsWithUser.map(c => c.contactUserId!);
+
+            if (recipientIds.length === 0) return;
+
+            for (const point of points) {
+                socketService.emitToUsers(recipientIds, 'sos:location', {
+                    sosEventId: sosEvent.id,
+                    userId: sosEvent.userId,
+                    location: {
+                        lat: point.latitude,
+                        lng: point.longitude,
+                        accuracy: point.accuracy,
+                        timestamp: point.timestamp,
+                        speed: point.speed,
+                        heading: point.heading,
+                    },
+                });
+            }
+        } catch (error) {
+            logger.error('Failed to stream SOS location', { sosId: sosEvent.id, error });
+        }
+    }
 }
 
 export const locationService = new LocationService();
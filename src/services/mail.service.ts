@@ -0,0 +1,99 @@
+// =============================================================================
+// Blink Engine - Mail Service
+// =============================================================================
+// Account emails delivered through the configured mail adapter
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { Mailer, MailMessage, MailResult } from '../providers/mailer.js';
+import { LocalMailer } from '../providers/local.mailer.js';
+import { SmtpMailer } from '../providers/smtp.mailer.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SMTP_TIMEOUT_MS = 10000;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class MailService {
+    private mailer: Mailer | null = null;
+
+    /**
+     * Send an email; failures are logged and returned, never thrown
+     */
+    async send(message: MailMessage): Promise<MailResult> {
+        const result = await this.getMailer().send(message);
+
+        if (result.status === 'failed') {
+            logger.error('Mail delivery failed', {
+                mailer: this.getMailer().name,
+                subject: message.subject,
+                error: result.error,
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Ask the user to confirm their email address
+     */
+    async sendEmailVerification(to: string, name: string, token: string): Promise<MailResult> {
+        const link = `${config.mail.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+        const hours = config.mail.emailVerificationTtlHours;
+
+        return this.send({
+            to,
+            subject: 'Confirm your email address',
+            text: `Hi ${name},\n\nConfirm your email address for Blink by opening this link:\n${link}\n\nThe link expires in ${hours} hours. If you did not create a Blink account, ignore this email.`,
+        });
+    }
+
+    /**
+     * Send a password reset link
+     */
+    async sendPasswordReset(to: string, name: string, token: string): Promise<MailResult> {
+        const link = `${config.mail.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+        const minutes = config.mail.passwordResetTtlMinutes;
+
+        return this.send({
+            to,
+            subject: 'Reset your password',
+            text: `Hi ${name},\n\nSomeone asked to reset the password of your Blink account. Choose a new password here:\n${link}\n\nThe link expires in ${minutes} minutes and works once. If this wasn't you, ignore this email - your password stays the same.`,
+        });
+    }
+
+    /**
+     * Lazily build the mail adapter from configuration
+     */
+    private getMailer(): Mailer {
+        if (this.mailer) {
+            return this.mailer;
+        }
+
+        if (config.mail.driver === 'smtp' && config.mail.smtpHost) {
+            this.mailer = new SmtpMailer({
+                host: config.mail.smtpHost,
+                port: config.mail.smtpPort,
+                secure: config.mail.smtpSecure,
+                user: config.mail.smtpUser,
+                password: config.mail.smtpPassword,
+                from: config.mail.from,
+                timeoutMs: SMTP_TIMEOUT_MS,
+            });
+        } else {
+            if (config.mail.driver === 'smtp') {
+                logger.warn('MAIL_DRIVER is smtp but SMTP_HOST is not set - using the local mailer');
+            }
+            this.mailer = new LocalMailer(config.mail.localFile);
+        }
+
+        return this.mailer;
+    }
+}
+
+export const mailService = new MailService();
@@ -0,0 +1,105 @@
+// =============================================================================
+// Blink Engine - Notification Preference Service
+// =============================================================================
+// Per-user channels, quiet hours and time zone for non-SOS notifications
+
+import { Result, ok, fail } from '../utils/result.js';
+import { ValidationError, DomainError } from '../domain/errors/domain.errors.js';
+import {
+    NotificationPreferenceRecord,
+    notificationPreferenceRepository,
+} from '../repositories/notification-preference.repository.js';
+import {
+    NotificationPreferences,
+    NotificationEventType,
+    QuietHours,
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    NOTIFICATION_EVENT_TYPES,
+    isValidTimeZone,
+} from '../domain/notification-policy.js';
+import { NotificationChannelName } from '../providers/notification-channel.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface UpdatePreferencesInput {
+    channels?: Partial<Record<NotificationEventType, NotificationChannelName[]>>;
+    quietHours?: QuietHours | null; // null turns quiet hours off
+    timeZone?: string;
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class NotificationPreferenceService {
+    /**
+     * Get the user's settings, with defaults for anything they have not changed
+     */
+    async getPreferences(userId: string): Promise<Result<NotificationPreferences, DomainError>> {
+        const record = await notificationPreferenceRepository.findByUserId(userId);
+        return ok(this.toPreferences(record));
+    }
+
+    /**
+     * Get the settings of several users (for fan-out)
+     */
+    async getPreferencesForUsers(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+        const records = await notificationPreferenceRepository.findByUserIds(userIds);
+        const byUserId = new Map(records.map((record) => [record.userId, record]));
+
+        return new Map(userIds.map((userId) => [userId, this.toPreferences(byUserId.get(userId) ?? null)]));
+    }
+
+    /**
+     * Change some of the user's settings; omitted fields keep their value
+     */
+    async updatePreferences(
+        userId: string,
+        input: UpdatePreferencesInput
+    ): Promise<Result<NotificationPreferences, DomainError>> {
+        if (input.timeZone !== undefined && !isValidTimeZone(input.timeZone)) {
+            return fail(new ValidationError('Unknown time zone', { timeZone: input.timeZone }));
+        }
+
+        const current = this.toPreferences(await notificationPreferenceRepository.findByUserId(userId));
+        const quietHours = input.quietHours === undefined ? current.quietHours : input.quietHours;
+
+        const saved = await notificationPreferenceRepository.save(userId, {
+            channels: { ...current.channels, ...input.channels },
+            quietHoursStart: quietHours?.start ?? null,
+            quietHoursEnd: quietHours?.end ?? null,
+            timeZone: input.timeZone ?? current.timeZone,
+        });
+
+        return ok(this.toPreferences(saved));
+    }
+
+    /**
+     * Stored settings merged over the defaults
+     */
+    private toPreferences(record: NotificationPreferenceRecord | null): NotificationPreferences {
+        if (!record) {
+            return structuredClone(DEFAULT_NOTIFICATION_PREFERENCES);
+        }
+
+        const stored = (record.channels as Partial<Record<NotificationEventType, NotificationChannelName[]>> | null) ?? {};
+        const channels = Object.fromEntries(
+            NOTIFICATION_EVENT_TYPES.map((type) => [
+                type,
+                stored[type] ?? DEFAULT_NOTIFICATION_PREFERENCES.channels[type],
+            ])
+        ) as Record<NotificationEventType, NotificationChannelName[]>;
+
+        return {
+            channels,
+            quietHours: record.quietHoursStart && record.quietHoursEnd
+                ? { start: record.quietHoursStart, end: record.quietHoursEnd }
+                : null,
+            timeZone: record.timeZone,
+        };
+    }
+}
+
+export const notificationPreferenceService = new NotificationPreferenceService();
@@ -0,0 +1,312 @@
+// =============================================================================
+// Blink Engine - Notification Service
+// =============================================================================
+// Fans SOS alerts out to emergency contacts over push, SMS and email
+
+import { Result, ok, fail } from '../utils/result.js';
+import { NotFoundError, DomainError } from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { SosEvent, NotifiedContact } from '../repositories/sos.repository.js';
+import { userRepository, UserWithoutPassword } from '../repositories/user.repository.js';
+import { contactRepository } from '../repositories/contact.repository.js';
+import { sosShareService } from './sos-share.service.js';
+import {
+    NotificationChannel,
+    NotificationChannelName,
+    NotificationMessage,
+    DeliveryResult,
+} from '../providers/notification-channel.js';
+import { LocalChannel } from '../providers/local.channel.js';
+import { WebhookChannel } from '../providers/webhook.channel.js';
+import { pushService } from './push.service.js';
+import { notificationPreferenceService } from './notification-preference.service.js';
+import { deliveryQueueService, QueuedDelivery } from './delivery-queue.service.js';
+import {
+    decideDelivery,
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    NotificationEventType,
+    SafetyEventType,
+} from '../domain/notification-policy.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface NotificationContext {
+    correlationId?: string;
+}
+
+interface SosNotificationContext extends NotificationContext {
+    eventType: SafetyEventType; // sos_escalated when an escalation added the contacts
+}
+
+/**
+ * A non-SOS event for a user, e.g. a contact arriving at a saved place
+ */
+export interface UserNotification {
+    type: NotificationEventType;
+    subjectUserId: string; // Who the event is about - recipients can mute them
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MESSAGE_CHANNEL_NAMES = ['sms', 'email'] as const; // Addressed directly, unlike push
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class NotificationService {
+    private channels: Map<NotificationChannelName, NotificationChannel> | null = null;
+
+    /**
+     * Notify every contact in the SOS event's notifiedContacts snapshot
+     * Channels come from the notification policy like any other event, which never
+     * suppresses SOS events: preferences, quiet hours and mutes do not apply, and each
+     * contact is reached on every channel they have a destination for.
+     * Messages are queued as critical deliveries; every attempt is appended to the SOS event audit log.
+     * Safe to call again for the same event: contacts already queued on a channel are skipped.
+     * Returns the number of messages queued.
+     */
+    async notifySosContacts(
+        sosEvent: SosEvent,
+        context: SosNotificationContext
+    ): Promise<Result<number, DomainError>> {
+        const user = await userRepository.findById(sosEvent.userId);
+        if (!user) {
+            return fail(new NotFoundError('User', sosEvent.userId));
+        }
+
+        const contacts = (sosEvent.notifiedContacts as unknown as NotifiedContact[] | null) ?? [];
+
+        const mapsUrl = `https://maps.google.com/?q=${sosEvent.latitude},${sosEvent.longitude}`;
+        const viewerLinks = await sosShareService.getViewerLinks(sosEvent.id);
+
+        // Contacts who are Blink users are decided on with their own preferences and mutes
+        const contactUserIds = contacts.flatMap((contact) => contact.contactUserId ? [contact.contactUserId] : []);
+        const [preferences, muting] = await Promise.all([
+            notificationPreferenceService.getPreferencesForUsers(contactUserIds),
+            contactRepository.findUserIdsMuting(contactUserIds, sosEvent.userId),
+        ]);
+        const mutedBy = new Set(muting);
+        const now = new Date();
+
+        const deliveries: QueuedDelivery[] = [];
+        for (const contact of contacts) {
+            const decision = decideDelivery(
+                (contact.contactUserId && preferences.get(contact.contactUserId)) || DEFAULT_NOTIFICATION_PREFERENCES,
+                {
+                    eventType: context.eventType,
+                    subjectMuted: !!contact.contactUserId && mutedBy.has(contact.contactUserId),
+                    now,
+                }
+            );
+
+            for (const channel of decision.channels) {
+                const destination = this.getDestination(contact, channel);
+                if (!destination) continue;
+
+                const viewerUrl = viewerLinks.get(contact.id);
+                const followLive = viewerUrl ? ` Follow live: ${viewerUrl}` : '';
+
+                deliveries.push({
+                    sosEventId: sosEvent.id,
+                    contactId: contact.id,
+                    dedupKey: `sos:${sosEvent.id}:${contact.id}:${channel}`,
+                    correlationId: context.correlationId,
+                    message: {
+                        channel,
+                        destination,
+                        title: 'SOS Alert',
+                        body: `${user.name} ${user.surname} triggered an SOS and may need help. Last known location: ${mapsUrl}${followLive}`,
+                        priority: 'critical',
+                        data: {
+                            sosEventId: sosEvent.id,
+                            userId: sosEvent.userId,
+                            latitude: sosEvent.latitude,
+                            longitude: sosEvent.longitude,
+                            viewerUrl,
+                        },
+                    },
+                });
+            }
+        }
+
+        const queued = await deliveryQueueService.enqueue(deliveries);
+
+        logger.info('SOS notifications queued', {
+            correlationId: context.correlationId,
+            sosId: sosEvent.id,
+            queued,
+            alreadyQueued: deliveries.length - queued,
+        });
+
+        return ok(queued);
+    }
+
+    /**
+     * Notify users of a non-SOS event on the channels their preferences allow
+     * Muted subjects, quiet hours and disabled channels suppress delivery.
+     * Allowed messages are queued for delivery (with retries); realtime socket events
+     * are sent separately and always.
+     */
+    async notifyUsers(recipientIds: string[], notification: UserNotification): Promise<void> {
+        const recipients = recipientIds.filter((id) => id !== notification.subjectUserId);
+        if (recipients.length === 0) return;
+
+        const [preferences, muting] = await Promise.all([
+            notificationPreferenceService.getPreferencesForUsers(recipients),
+            contactRepository.findUserIdsMuting(recipients, notification.subjectUserId),
+        ]);
+        const mutedBy = new Set(muting);
+        const now = new Date();
+
+        await Promise.all(recipients.map(async (recipientId) => {
+            const decision = decideDelivery(preferences.get(recipientId) ?? DEFAULT_NOTIFICATION_PREFERENCES, {
+                eventType: notification.type,
+                subjectMuted: mutedBy.has(recipientId),
+                now,
+            });
+
+            if (decision.channels.length === 0) {
+                logger.debug('Notification suppressed', {
+                    recipientId,
+                    type: notification.type,
+                    suppressedBy: decision.suppressedBy,
+                });
+                return;
+            }
+
+            try {
+                const recipient = decision.channels.some((channel) => channel !== 'push')
+                    ? await userRepository.findById(recipientId)
+                    : null;
+
+                const deliveries: QueuedDelivery[] = [];
+                for (const channel of decision.channels) {
+                    const destination = this.getUserDestination(recipientId, recipient, channel);
+                    if (!destination) continue;
+
+                    deliveries.push({
+                        message: {
+                            channel,
+                            destination,
+                            title: notification.title,
+                            body: notification.body,
+                            priority: 'normal',
+                            data: { type: notification.type, ...notification.data },
+                        },
+                    });
+                }
+
+                await deliveryQueueService.enqueue(deliveries);
+            } catch (error) {
+                logger.error('Failed to notify user', { recipientId, type: notification.type, error });
+            }
+        }));
+    }
+
+    /**
+     * Send one message on its channel (one attempt - retries belong to the delivery queue)
+     */
+    async send(message: NotificationMessage): Promise<DeliveryResult> {
+        const channel = this.getChannels().get(message.channel);
+
+        if (!channel) {
+            return { status: 'skipped', error: 'Channel not configured' };
+        }
+
+        try {
+            return await channel.send(message);
+        } catch (error) {
+            return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    /**
+     * Resolve where a user can be reached on a channel - only verified phone numbers and emails
+     */
+    private getUserDestination(
+        userId: string,
+        user: UserWithoutPassword | null,
+        channel: NotificationChannelName
+    ): string | null {
+        switch (channel) {
+            case 'push':
+                return userId;
+            case 'sms':
+                return user?.isPhoneValidated ? user.phoneNumber : null;
+            case 'email':
+                return user?.isEmailValidated ? user.email : null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Resolve where a contact can be reached on a channel
+     */
+    private getDestination(contact: NotifiedContact, channel: NotificationChannelName): string | null {
+        switch (channel) {
+            case 'push':
+                return contact.contactUserId ?? null;
+            case 'sms':
+                return contact.phoneNumber || null;
+            case 'email':
+                return contact.email ?? null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Lazily build channel adapters from configuration
+     * Push goes to the recipient's registered devices through the push service
+     */
+    private getChannels(): Map<NotificationChannelName, NotificationChannel> {
+        if (this.channels) {
+            return this.channels;
+        }
+
+        const channels = new Map<NotificationChannelName, NotificationChannel>();
+        if (pushService.isEnabled()) {
+            channels.set('push', pushService);
+        }
+
+        if (config.notifications.driver === 'local') {
+            for (const name of MESSAGE_CHANNEL_NAMES) {
+                channels.set(name, new LocalChannel(name, config.notifications.localFile));
+            }
+        } else {
+            const urls: Record<Exclude<NotificationChannelName, 'push'>, string | undefined> = {
+                sms: config.notifications.smsWebhookUrl,
+                email: config.notifications.emailWebhookUrl,
+            };
+
+            for (const name of MESSAGE_CHANNEL_NAMES) {
+                const url = urls[name];
+                if (!url) continue;
+                channels.set(
+                    name,
+                    new WebhookChannel(
+                        name,
+                        url,
+                        config.notifications.webhookApiKey,
+                        config.notifications.timeoutMs
+                    )
+                );
+            }
+        }
+
+        this.channels = channels;
+        return channels;
+    }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,178 @@
+// =============================================================================
+// Blink Engine - Phone Verification Service
+// =============================================================================
+// Confirms the user's phone number with a one-time code sent by SMS
+
+import { randomInt, timingSafeEqual } from 'crypto';
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    NotFoundError,
+    ConflictError,
+    ValidationError,
+    RateLimitExceededError,
+    InternalError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { runInTransaction } from '../config/database.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { phoneVerificationRepository } from '../repositories/phone-verification.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { notificationService } from './notification.service.js';
+import { hashToken } from '../utils/token.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface SendCodeResult {
+    phoneNumber: string;
+    expiresAt: Date;
+    resendAfter: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CODE_LENGTH = 6;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class PhoneVerificationService {
+    /**
+     * Text a one-time code to the phone number on the user's profile
+     * A new code replaces the previous one; resends are subject to a cooldown
+     */
+    async sendCode(userId: string, context: AuditContext): Promise<Result<SendCodeResult, DomainError>> {
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            return fail(new NotFoundError('User'));
+        }
+        if (!user.phoneNumber) {
+            return fail(new ValidationError('Add a phone number to your profile first'));
+        }
+        if (user.isPhoneValidated) {
+            return fail(new ConflictError('Phone number is already verified'));
+        }
+
+        const pending = await phoneVerificationRepository.findPendingByUserId(userId);
+        if (pending) {
+            const resendAfter = pending.createdAt.getTime() + config.phone.otpResendCooldownSeconds * 1000;
+            if (resendAfter > Date.now()) {
+                return fail(new RateLimitExceededError(Math.ceil((resendAfter - Date.now()) / 1000)));
+            }
+        }
+
+        const code = randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+        const expiresAt = new Date(Date.now() + config.phone.otpTtlMinutes * 60 * 1000);
+
+        const verification = await runInTransaction(async (tx) => {
+            await phoneVerificationRepository.supersedePending(userId, tx);
+            return phoneVerificationRepository.create({
+                userId,
+                phoneNumber: user.phoneNumber!,
+                codeHash: this.hashCode(userId, code),
+                expiresAt,
+            }, tx);
+        });
+
+        // Sent straight away rather than queued - the user is waiting for the code
+        const sent = await notificationService.send({
+            channel: 'sms',
+            destination: user.phoneNumber,
+            title: 'Blink verification code',
+            body: `Your Blink verification code is ${code}. It expires in ${config.phone.otpTtlMinutes} minutes.`,
+            priority: 'normal',
+        });
+        if (sent.status !== 'sent') {
+            // Let them try again straight away rather than wait out the cooldown
+            await phoneVerificationRepository.supersedePending(userId);
+            logger.error('Failed to send phone verification code', {
+                correlationId: context.correlationId,
+                userId,
+                error: sent.error,
+            });
+            return fail(new InternalError('Could not send the verification code, please try again'));
+        }
+
+        return ok({
+            phoneNumber: verification.phoneNumber,
+            expiresAt,
+            resendAfter: new Date(verification.createdAt.getTime() + config.phone.otpResendCooldownSeconds * 1000),
+        });
+    }
+
+    /**
+     * Check a code and mark the phone number as verified
+     */
+    async verifyCode(userId: string, code: string, context: AuditContext): Promise<Result<void, DomainError>> {
+        const pending = await phoneVerificationRepository.findPendingByUserId(userId);
+        if (!pending || pending.expiresAt <= new Date()) {
+            return fail(new ValidationError('This code has expired - request a new one'));
+        }
+
+        if (!(await phoneVerificationRepository.recordAttempt(pending.id, config.phone.otpMaxAttempts))) {
+            return fail(new ValidationError('Too many incorrect attempts - request a new code'));
+        }
+
+        const expected = Buffer.from(pending.codeHash);
+        const actual = Buffer.from(this.hashCode(userId, code));
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return fail(new ValidationError('Incorrect code', {
+                attemptsLeft: Math.max(config.phone.otpMaxAttempts - pending.attempts - 1, 0),
+            }));
+        }
+
+        const verified = await runInTransaction(async (tx) => {
+            if (!(await phoneVerificationRepository.markVerified(pending.id, tx))) return false;
+
+            // The number may have changed since the code was sent
+            if (!(await userRepository.markPhoneValidated(userId, pending.phoneNumber, tx))) return false;
+
+            await auditRepository.create({
+                userId,
+                action: 'PHONE_VERIFIED',
+                resourceType: 'User',
+                resourceId: userId,
+                metadata: { phoneNumber: pending.phoneNumber },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return true;
+        });
+
+        if (!verified) {
+            return fail(new ValidationError('This code is no longer valid - request a new one'));
+        }
+
+        return ok(undefined);
+    }
+
+    /**
+     * Invalidate outstanding codes (e.g. after the phone number changed)
+     */
+    async cancelPending(userId: string): Promise<void> {
+        await phoneVerificationRepository.supersedePending(userId);
+    }
+
+    /**
+     * Codes are hashed with the user ID so equal codes do not share a hash
+     */
+    private hashCode(userId: string, code: string): string {
+        return hashToken(`${userId}:${code}`);
+    }
+}
+
+export const phoneVerificationService = new PhoneVerificationService();
@@ -0,0 +1,197 @@
+// =============================================================================
+// Blink Engine - Place Service
+// =============================================================================
+// Saved places and enter/exit detection (geofencing)
+
+import { Result, ok, fail } from '../utils/result.js';
+import { NotFoundError, ConflictError, DomainError } from '../domain/errors/domain.errors.js';
+import { placeRepository, Place } from '../repositories/place.repository.js';
+import { locationRepository } from '../repositories/location.repository.js';
+import { distanceMeters, Coordinates } from '../utils/geo.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CreatePlaceInput {
+    name: string;
+    latitude: number;
+    longitude: number;
+    radiusMeters?: number;
+}
+
+interface UpdatePlaceInput {
+    name?: string;
+    latitude?: number;
+    longitude?: number;
+    radiusMeters?: number;
+}
+
+export interface LocationPoint extends Coordinates {
+    accuracy?: number | null;
+    timestamp: Date;
+}
+
+export interface PlaceTransition {
+    type: 'enter' | 'exit';
+    place: Place;
+    timestamp: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_PLACES_PER_USER = 20;
+const DEFAULT_RADIUS_METERS = 150; // Matches the schema default
+
+// Hysteresis: entering needs the point inside the radius, leaving needs it
+// beyond radius + buffer, so jitter around the edge does not flap
+const MIN_EXIT_BUFFER_METERS = 30;
+const EXIT_BUFFER_RATIO = 0.2;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class PlaceService {
+    /**
+     * Create a place
+     * Presence starts from the latest known location without emitting an event
+     */
+    async createPlace(userId: string, input: CreatePlaceInput): Promise<Result<Place, DomainError>> {
+        const count = await placeRepository.countByUserId(userId);
+        if (count >= MAX_PLACES_PER_USER) {
+            return fail(new ConflictError(`You can save at most ${MAX_PLACES_PER_USER} places`));
+        }
+
+        const isInside = await this.isInsideNow(userId, input);
+        const place = await placeRepository.create({ userId, ...input, isInside });
+        return ok(place);
+    }
+
+    /**
+     * List the user's places
+     */
+    async getPlaces(userId: string): Promise<Result<Place[], DomainError>> {
+        const places = await placeRepository.findAllByUserId(userId);
+        return ok(places);
+    }
+
+    /**
+     * Get a specific place
+     */
+    async getPlace(userId: string, placeId: string): Promise<Result<Place, DomainError>> {
+        const place = await placeRepository.findByIdAndUserId(placeId, userId);
+        if (!place) {
+            return fail(new NotFoundError('Place', placeId));
+        }
+        return ok(place);
+    }
+
+    /**
+     * Update a place
+     * Moving or resizing it re-evaluates presence silently
+     */
+    async updatePlace(
+        userId: string,
+        placeId: string,
+        input: UpdatePlaceInput
+    ): Promise<Result<Place, DomainError>> {
+        const place = await placeRepository.findByIdAndUserId(placeId, userId);
+        if (!place) {
+            return fail(new NotFoundError('Place', placeId));
+        }
+
+        const geometryChanged = input.latitude !== undefined
+            || input.longitude !== undefined
+            || input.radiusMeters !== undefined;
+
+        const isInside = geometryChanged
+            ? await this.isInsideNow(userId, {
+                latitude: input.latitude ?? place.latitude,
+                longitude: input.longitude ?? place.longitude,
+                radiusMeters: input.radiusMeters ?? place.radiusMeters,
+            })
+            : undefined;
+
+        const updatedPlace = await placeRepository.update(placeId, { ...input, isInside });
+        return ok(updatedPlace);
+    }
+
+    /**
+     * Delete a place
+     */
+    async deletePlace(userId: string, placeId: string): Promise<Result<void, DomainError>> {
+        const place = await placeRepository.findByIdAndUserId(placeId, userId);
+        if (!place) {
+            return fail(new NotFoundError('Place', placeId));
+        }
+
+        await placeRepository.delete(placeId);
+        return ok(undefined);
+    }
+
+    /**
+     * Evaluate location points (oldest first) against the user's places
+     * Persists presence changes and returns the enter/exit transitions in order
+     */
+    async detectTransitions(userId: string, points: LocationPoint[]): Promise<PlaceTransition[]> {
+        const places = await placeRepository.findAllByUserId(userId);
+        if (places.length === 0 || points.length === 0) return [];
+
+        const ordered = [...points].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const transitions: PlaceTransition[] = [];
+
+        for (const place of places) {
+            let isInside = place.isInside;
+
+            for (const point of ordered) {
+                const next = this.nextPresence(place, isInside, point);
+                if (next === null) continue;
+
+                isInside = next;
+                if (await placeRepository.setPresence(place.id, isInside, point.timestamp)) {
+                    transitions.push({
+                        type: isInside ? 'enter' : 'exit',
+                        place: { ...place, isInside, presenceChangedAt: point.timestamp },
+                        timestamp: point.timestamp,
+                    });
+                }
+            }
+        }
+
+        return transitions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    /**
+     * New presence for a point, or null if it does not change
+     * Points less precise than the place itself are ignored
+     */
+    private nextPresence(place: Place, isInside: boolean, point: LocationPoint): boolean | null {
+        if (point.accuracy && point.accuracy > place.radiusMeters) return null;
+
+        const distance = distanceMeters(point, place);
+        if (!isInside && distance <= place.radiusMeters) return true;
+
+        const exitBuffer = Math.max(MIN_EXIT_BUFFER_METERS, place.radiusMeters * EXIT_BUFFER_RATIO);
+        if (isInside && distance > place.radiusMeters + exitBuffer) return false;
+
+        return null;
+    }
+
+    /**
+     * Whether the user's latest known location is inside an area
+     */
+    private async isInsideNow(
+        userId: string,
+        area: Coordinates & { radiusMeters?: number }
+    ): Promise<boolean> {
+        const latest = await locationRepository.findLatestByUserId(userId);
+        if (!latest) return false;
+
+        return distanceMeters(latest, area) <= (area.radiusMeters ?? DEFAULT_RADIUS_METERS);
+    }
+}
+
+export const placeService = new PlaceService();
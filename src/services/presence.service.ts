@@ -0,0 +1,162 @@
+// =============================================================================
+// Blink Engine - Presence Service
+// =============================================================================
+// Who is connected, on how many devices, and when they were last seen
+// Kept in Redis so every instance sees the same state; in memory without it
+
+import { getRedis, isRedisUnavailable } from '../config/redis.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Presence {
+    userId: string;
+    isOnline: boolean;
+    deviceCount: number;
+    lastSeenAt: Date | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Sockets are refreshed by their instance; a crashed instance's sockets go stale
+export const PRESENCE_HEARTBEAT_MS = 30000;
+const PRESENCE_STALE_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+const socketsKey = (userId: string) => `presence:user:${userId}:sockets`;
+const lastSeenKey = (userId: string) => `presence:user:${userId}:last_seen`;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class PresenceService {
+    // Fallback state for a single instance without Redis
+    private readonly localSockets = new Map<string, Map<string, number>>(); // userId -> socketId -> heartbeat
+    private readonly localLastSeen = new Map<string, Date>();
+
+    /**
+     * Record a connected socket
+     * Null while Redis is reconnecting - the next heartbeat records it
+     */
+    async connect(userId: string, socketId: string): Promise<Presence | null> {
+        if (isRedisUnavailable(getRedis())) return null;
+
+        await this.touch([{ userId, socketId }]);
+        return this.getOne(userId);
+    }
+
+    /**
+     * Record a disconnected socket; last seen is the moment the last device left
+     * Null while Redis is reconnecting - the socket goes stale instead
+     */
+    async disconnect(userId: string, socketId: string): Promise<Presence | null> {
+        const now = Date.now();
+        const redis = getRedis();
+
+        if (isRedisUnavailable(redis)) return null;
+
+        if (redis) {
+            await redis
+                .multi()
+                .zrem(socketsKey(userId), socketId)
+                .set(lastSeenKey(userId), String(now))
+                .exec();
+        } else {
+            this.localSockets.get(userId)?.delete(socketId);
+            this.localLastSeen.set(userId, new Date(now));
+        }
+
+        return this.getOne(userId);
+    }
+
+    /**
+     * Refresh the heartbeat of sockets held by this instance
+     */
+    async touch(entries: { userId: string; socketId: string }[]): Promise<void> {
+        if (entries.length === 0) return;
+
+        const now = Date.now();
+        const redis = getRedis();
+
+        if (isRedisUnavailable(redis)) return;
+
+        if (redis) {
+            const pipeline = redis.pipeline();
+            for (const { userId, socketId } of entries) {
+                pipeline.zadd(socketsKey(userId), now, socketId);
+                pipeline.set(lastSeenKey(userId), String(now));
+            }
+            await pipeline.exec();
+            return;
+        }
+
+        for (const { userId, socketId } of entries) {
+            const sockets = this.localSockets.get(userId) ?? new Map<string, number>();
+            sockets.set(socketId, now);
+            this.localSockets.set(userId, sockets);
+            this.localLastSeen.set(userId, new Date(now));
+        }
+    }
+
+    /**
+     * Presence of several users (stale sockets are pruned on read)
+     * Nobody is reported while Redis is reconnecting - callers treat missing users as offline
+     */
+    async getPresence(userIds: string[]): Promise<Map<string, Presence>> {
+        const result = new Map<string, Presence>();
+        if (userIds.length === 0) return result;
+
+        const staleBefore = Date.now() - PRESENCE_STALE_MS;
+        const redis = getRedis();
+
+        if (isRedisUnavailable(redis)) return result;
+
+        if (redis) {
+            const pipeline = redis.pipeline();
+            for (const userId of userIds) {
+                pipeline.zremrangebyscore(socketsKey(userId), '-inf', staleBefore);
+                pipeline.zcard(socketsKey(userId));
+                pipeline.get(lastSeenKey(userId));
+            }
+            const replies = (await pipeline.exec()) ?? [];
+
+            userIds.forEach((userId, index) => {
+                const deviceCount = Number(replies[index * 3 + 1]?.[1] ?? 0);
+                const lastSeen = replies[index * 3 + 2]?.[1] as string | null | undefined;
+                result.set(userId, {
+                    userId,
+                    isOnline: deviceCount > 0,
+                    deviceCount,
+                    lastSeenAt: lastSeen ? new Date(Number(lastSeen)) : null,
+                });
+            });
+            return result;
+        }
+
+        for (const userId of userIds) {
+            const sockets = this.localSockets.get(userId);
+            sockets?.forEach((heartbeat, socketId) => {
+                if (heartbeat < staleBefore) sockets.delete(socketId);
+            });
+
+            const deviceCount = sockets?.size ?? 0;
+            result.set(userId, {
+                userId,
+                isOnline: deviceCount > 0,
+                deviceCount,
+                lastSeenAt: this.localLastSeen.get(userId) ?? null,
+            });
+        }
+        return result;
+    }
+
+    private async getOne(userId: string): Promise<Presence | null> {
+        const presence = await this.getPresence([userId]);
+        return presence.get(userId) ?? null;
+    }
+}
+
+export const presenceService = new PresenceService();
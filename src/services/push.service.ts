@@ -0,0 +1,105 @@
+// =============================================================================
+// Blink Engine - Push Service
+// =============================================================================
+// Delivers push notifications to every registered device of a user
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { deviceRepository, Device } from '../repositories/device.repository.js';
+import {
+    NotificationChannel,
+    NotificationMessage,
+    DeliveryResult,
+} from '../providers/notification-channel.js';
+import { PushProvider, PushProviderName, PushResult } from '../providers/push-provider.js';
+import { LocalPushProvider } from '../providers/local.push-provider.js';
+import { WebhookPushProvider } from '../providers/webhook.push-provider.js';
+
+// =============================================================================
+// Service
+// =============================================================================
+
+/**
+ * The `push` notification channel - the destination is a user ID
+ */
+class PushService implements NotificationChannel {
+    readonly name = 'push';
+    private provider: PushProvider | null = null;
+
+    /**
+     * Whether push delivery is configured
+     */
+    isEnabled(): boolean {
+        return config.notifications.driver === 'local' || Boolean(config.notifications.pushWebhookUrl);
+    }
+
+    /**
+     * Send the message to each of the user's devices
+     * Sent if any device accepted it; tokens the provider rejects as invalid are pruned
+     */
+    async send(message: NotificationMessage): Promise<DeliveryResult> {
+        const devices = await deviceRepository.findByUserId(message.destination);
+        if (devices.length === 0) {
+            return { status: 'skipped', error: 'No registered devices' };
+        }
+
+        const results = await Promise.all(devices.map((device) => this.sendToDevice(device, message)));
+
+        const sent = results.find((result) => result.status === 'sent');
+        if (sent) {
+            return { status: 'sent', providerMessageId: sent.providerMessageId };
+        }
+
+        const failed = results.find((result) => result.status === 'failed');
+        if (failed) {
+            return { status: 'failed', error: failed.error };
+        }
+
+        // Every token was invalid - nothing left to retry
+        return { status: 'skipped', error: 'No valid device tokens' };
+    }
+
+    /**
+     * Send to one device, pruning its token if the provider rejects it
+     */
+    private async sendToDevice(device: Device, message: NotificationMessage): Promise<PushResult> {
+        const result = await this.getProvider().send({
+            provider: device.provider as PushProviderName,
+            token: device.token,
+            title: message.title,
+            body: message.body,
+            priority: message.priority,
+            data: message.data,
+        });
+
+        if (result.status === 'invalid_token') {
+            await deviceRepository.deleteByToken(device.token);
+            logger.info('Pruned invalid push token', {
+                userId: device.userId,
+                deviceId: device.id,
+                provider: device.provider,
+                error: result.error,
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Lazily build the provider from configuration
+     */
+    private getProvider(): PushProvider {
+        if (this.provider) {
+            return this.provider;
+        }
+
+        const url = config.notifications.pushWebhookUrl;
+        this.provider = config.notifications.driver === 'webhook' && url
+            ? new WebhookPushProvider(url, config.notifications.webhookApiKey, config.notifications.timeoutMs)
+            : new LocalPushProvider();
+
+        return this.provider;
+    }
+}
+
+export const pushService = new PushService();
@@ -0,0 +1,239 @@
+// =============================================================================
+// Blink Engine - Realtime Buffer Service
+// =============================================================================
+// Per-user event sequence numbers, a bounded replay buffer and pending acks
+// Kept in Redis so any instance can replay or retry; in memory without it
+
+import { getRedis, isRedisUnavailable } from '../config/redis.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RealtimeEnvelope {
+    seq: number;
+    event: string;
+    data: unknown;
+    emittedAt: string;
+}
+
+export interface ReplayResult {
+    events: RealtimeEnvelope[];
+    complete: boolean; // false if events were dropped from the buffer (refetch over REST)
+    latestSeq: number;
+}
+
+export interface PendingRetry {
+    userId: string;
+    envelope: RealtimeEnvelope;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_BUFFERED_EVENTS = 200; // Per user
+const REPLAY_WINDOW_MS = 60 * 60 * 1000;
+const ACK_RETRY_MS = 10000;
+const UNACKED_TTL_MS = 24 * 60 * 60 * 1000; // Retries stop if no device of the user acks within a day
+
+const seqKey = (userId: string) => `realtime:user:${userId}:seq`;
+const eventsKey = (userId: string) => `realtime:user:${userId}:events`;
+// Events awaiting an ack live apart from the replay buffer, so high-frequency events cannot push them out
+const unackedKey = (userId: string) => `realtime:user:${userId}:unacked`; // field = seq
+const PENDING_KEY = 'realtime:pending'; // member `${userId}:${seq}`, score = next retry time
+
+const pendingMember = (userId: string, seq: number) => `${userId}:${seq}`;
+
+const parseMember = (member: string): { userId: string; seq: number } => {
+    const separator = member.lastIndexOf(':');
+    return { userId: member.slice(0, separator), seq: Number(member.slice(separator + 1)) };
+};
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class RealtimeBufferService {
+    // Fallback state for a single instance without Redis
+    private readonly localSeq = new Map<string, number>();
+    private readonly localEvents = new Map<string, RealtimeEnvelope[]>();
+    private readonly localPending = new Map<string, { retryAt: number; envelope: RealtimeEnvelope }>();
+
+    /**
+     * Assign the next sequence number for the user and buffer the event
+     * Events that need an ack are retried until `acknowledge` is called.
+     * Returns null while Redis is reconnecting - the event is sent unbuffered rather than delayed.
+     */
+    async record(userId: string, event: string, data: unknown, requiresAck: boolean): Promise<RealtimeEnvelope | null> {
+        const redis = getRedis();
+        const now = Date.now();
+
+        if (isRedisUnavailable(redis)) {
+            if (requiresAck) {
+                logger.warn('Realtime buffer unavailable - event sent without retries', { userId, event });
+            }
+            return null;
+        }
+
+        if (!redis) {
+            const seq = (this.localSeq.get(userId) ?? 0) + 1;
+            this.localSeq.set(userId, seq);
+
+            const envelope = { seq, event, data, emittedAt: new Date(now).toISOString() };
+            const events = this.pruneLocal(userId);
+            events.push(envelope);
+            events.splice(0, Math.max(events.length - MAX_BUFFERED_EVENTS, 0));
+            this.localEvents.set(userId, events);
+
+            if (requiresAck) {
+                this.localPending.set(pendingMember(userId, seq), { retryAt: now + ACK_RETRY_MS, envelope });
+            }
+            return envelope;
+        }
+
+        const seq = await redis.incr(seqKey(userId));
+        const envelope = { seq, event, data, emittedAt: new Date(now).toISOString() };
+
+        const multi = redis
+            .multi()
+            .zadd(eventsKey(userId), seq, JSON.stringify(envelope))
+            .zremrangebyrank(eventsKey(userId), 0, -(MAX_BUFFERED_EVENTS + 1))
+            .pexpire(eventsKey(userId), REPLAY_WINDOW_MS);
+        if (requiresAck) {
+            multi
+                .hset(unackedKey(userId), String(seq), JSON.stringify(envelope))
+                .pexpire(unackedKey(userId), UNACKED_TTL_MS)
+                .zadd(PENDING_KEY, now + ACK_RETRY_MS, pendingMember(userId, seq));
+        }
+        await multi.exec();
+
+        return envelope;
+    }
+
+    /**
+     * Buffered events after `lastSeq`, oldest first
+     */
+    async getSince(userId: string, lastSeq: number): Promise<ReplayResult> {
+        const redis = getRedis();
+
+        // Nothing to replay from while Redis is reconnecting - the client refetches over REST
+        if (isRedisUnavailable(redis)) {
+            return { events: [], complete: false, latestSeq: lastSeq };
+        }
+
+        let latestSeq: number;
+        let events: RealtimeEnvelope[];
+        if (redis) {
+            const [seq, members] = await Promise.all([
+                redis.get(seqKey(userId)),
+                redis.zrangebyscore(eventsKey(userId), `(${lastSeq}`, '+inf'),
+            ]);
+            latestSeq = Number(seq ?? 0);
+            events = members
+                .map((member) => JSON.parse(member) as RealtimeEnvelope)
+                .filter((envelope) => Date.now() - Date.parse(envelope.emittedAt) <= REPLAY_WINDOW_MS);
+        } else {
+            latestSeq = this.localSeq.get(userId) ?? 0;
+            events = this.pruneLocal(userId).filter((envelope) => envelope.seq > lastSeq);
+        }
+
+        // A client ahead of the server saw a sequence that was reset - it has to refetch
+        const complete = lastSeq <= latestSeq
+            && (lastSeq === latestSeq || events[0]?.seq === lastSeq + 1);
+
+        return { events, complete, latestSeq };
+    }
+
+    /**
+     * Stop retrying an event
+     */
+    async acknowledge(userId: string, seq: number): Promise<void> {
+        const redis = getRedis();
+        if (isRedisUnavailable(redis)) {
+            return; // The event is retried once Redis is back and the device acks it again
+        }
+
+        if (redis) {
+            await redis
+                .multi()
+                .zrem(PENDING_KEY, pendingMember(userId, seq))
+                .hdel(unackedKey(userId), String(seq))
+                .exec();
+        } else {
+            this.localPending.delete(pendingMember(userId, seq));
+        }
+    }
+
+    /**
+     * Claim unacknowledged events whose retry is due and schedule their next attempt
+     * An event is only given up on once its unacked entry expired (see UNACKED_TTL_MS)
+     */
+    async claimDueRetries(limit: number): Promise<PendingRetry[]> {
+        const now = Date.now();
+        const redis = getRedis();
+
+        if (isRedisUnavailable(redis)) {
+            return [];
+        }
+
+        if (!redis) {
+            const due = [...this.localPending.entries()]
+                .filter(([, pending]) => pending.retryAt <= now)
+                .slice(0, limit);
+
+            return due.map(([member, pending]) => {
+                if (now - Date.parse(pending.envelope.emittedAt) > UNACKED_TTL_MS) {
+                    this.giveUp(member);
+                    this.localPending.delete(member);
+                    return null;
+                }
+                this.localPending.set(member, { ...pending, retryAt: now + ACK_RETRY_MS });
+                return { userId: parseMember(member).userId, envelope: pending.envelope };
+            }).filter((retry): retry is PendingRetry => retry !== null);
+        }
+
+        const members = await redis.zrangebyscore(PENDING_KEY, '-inf', now, 'LIMIT', 0, limit);
+
+        const retries: PendingRetry[] = [];
+        for (const member of members) {
+            const { userId, seq } = parseMember(member);
+
+            const stored = await redis.hget(unackedKey(userId), String(seq));
+            if (!stored) {
+                this.giveUp(member);
+                await redis.zrem(PENDING_KEY, member);
+                continue;
+            }
+
+            // XX: an ack that raced with this claim must not be undone
+            await redis.zadd(PENDING_KEY, 'XX', now + ACK_RETRY_MS, member);
+
+            retries.push({ userId, envelope: JSON.parse(stored) as RealtimeEnvelope });
+        }
+
+        return retries;
+    }
+
+    /**
+     * Log an event that is no longer retried although it was never acknowledged
+     */
+    private giveUp(member: string): void {
+        const { userId, seq } = parseMember(member);
+        logger.warn('Unacknowledged realtime event expired - retries stopped', { userId, seq });
+    }
+
+    /**
+     * Drop local events that left the replay window
+     */
+    private pruneLocal(userId: string): RealtimeEnvelope[] {
+        const cutoff = Date.now() - REPLAY_WINDOW_MS;
+        const events = (this.localEvents.get(userId) ?? [])
+            .filter((envelope) => Date.parse(envelope.emittedAt) >= cutoff);
+        this.localEvents.set(userId, events);
+        return events;
+    }
+}
+
+export const realtimeBufferService = new RealtimeBufferService();
@@ -0,0 +1,244 @@
+// =============================================================================
+// Blink Engine - SMS Command Service
+// =============================================================================
+// Offline SOS: texts from a user's verified number trigger, cancel and resolve SOS events
+
+import { Result, ok } from '../utils/result.js';
+import { DomainError, SosAlreadyActiveError, SosNotActiveError } from '../domain/errors/domain.errors.js';
+import { parseSmsCommand, redactSmsBody, SmsCommand } from '../domain/sms-command.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { normalizePhoneNumber } from '../utils/phone.js';
+import { inboundSmsRepository } from '../repositories/inbound-sms.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { locationRepository } from '../repositories/location.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { SosEvent } from '../repositories/sos.repository.js';
+import { sosService } from './sos.service.js';
+import { deliveryQueueService } from './delivery-queue.service.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A text as delivered by the SMS provider
+ */
+export interface InboundSmsInput {
+    messageId: string; // Provider message ID - the same text delivered twice has the same ID
+    from: string;
+    body: string;
+}
+
+export interface InboundSmsReceipt {
+    id: string;
+    status: string;
+}
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface CommandOutcome {
+    status: 'processed' | 'rejected' | 'ignored';
+    sosEventId?: string;
+    error?: string;
+    reply: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const REPLIES = {
+    sosSent: 'Blink: SOS sent to your emergency contacts. Reply SAFE once you are safe, or CANCEL to cancel it.',
+    sosAlreadyActive: 'Blink: you already have an active SOS. Reply SAFE once you are safe, or CANCEL to cancel it.',
+    sosNoLocation: 'Blink: we do not know where you are. Send SOS with your position, e.g. SOS -33.9249,18.4241',
+    resolved: 'Blink: glad you are safe. Your SOS has ended and your contacts have been told.',
+    cancelled: 'Blink: your SOS has been cancelled.',
+    notActive: 'Blink: you have no active SOS.',
+    failed: 'Blink: we could not process your message. Please try again or use the app.',
+    help: 'Blink: reply SOS (optionally with your position, e.g. SOS -33.9249,18.4241) to alert your emergency contacts, SAFE to end an SOS, or CANCEL to cancel it.',
+};
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class SmsCommandService {
+    /**
+     * Handle a text received on the inbound webhook
+     * The provider message ID makes this idempotent: a redelivered text is answered from the
+     * stored outcome, and an SOS it triggers is keyed on it too
+     */
+    async handleInbound(input: InboundSmsInput, context: AuditContext): Promise<Result<InboundSmsReceipt, DomainError>> {
+        const message = await inboundSmsRepository.createIfAbsent({
+            providerMessageId: input.messageId,
+            fromNumber: input.from,
+            body: redactSmsBody(input.body),
+        });
+
+        // Already handled - a message still in received is a first delivery, or a retry after
+        // handling was interrupted, and is (re)processed
+        if (message.status !== 'received') {
+            logger.info('Inbound SMS - duplicate delivery', {
+                correlationId: context.correlationId,
+                inboundSmsId: message.id,
+            });
+            return ok({ id: message.id, status: message.status });
+        }
+
+        const command = parseSmsCommand(input.body);
+        const phoneNumber = normalizePhoneNumber(input.from, config.phone.defaultCountryCode);
+        const userIds = phoneNumber ? await userRepository.findIdsByVerifiedPhoneNumber(phoneNumber) : [];
+
+        // Unknown or shared numbers get no reply, so texting the number reveals nothing about accounts
+        if (!phoneNumber || userIds.length !== 1) {
+            const error = userIds.length > 1 ? 'Number verified by more than one account' : 'Unknown sender';
+            await inboundSmsRepository.recordOutcome(message.id, { command: command.type, status: 'ignored', error });
+            await this.audit(message.id, undefined, command, { status: 'ignored', error }, context);
+
+            logger.warn('Inbound SMS ignored', { correlationId: context.correlationId, inboundSmsId: message.id, error });
+            return ok({ id: message.id, status: 'ignored' });
+        }
+
+        const userId = userIds[0];
+        const outcome = await this.execute(userId, command, message.id, input.messageId, context);
+
+        const recorded = await inboundSmsRepository.recordOutcome(message.id, {
+            userId,
+            command: command.type,
+            status: outcome.status,
+            sosEventId: outcome.sosEventId,
+            error: outcome.error,
+        });
+
+        // A concurrent delivery of the same text already recorded and answered it
+        if (!recorded) {
+            return ok({ id: message.id, status: outcome.status });
+        }
+
+        await this.audit(message.id, userId, command, outcome, context);
+
+        await deliveryQueueService.enqueue([{
+            message: {
+                channel: 'sms',
+                destination: phoneNumber,
+                title: 'Blink',
+                body: outcome.reply,
+                priority: 'normal',
+            },
+            dedupKey: `sms-reply:${message.id}`,
+            correlationId: context.correlationId,
+        }]);
+
+        logger.info('Inbound SMS handled', {
+            correlationId: context.correlationId,
+            inboundSmsId: message.id,
+            userId,
+            command: command.type,
+            status: outcome.status,
+            sosEventId: outcome.sosEventId,
+        });
+
+        return ok({ id: message.id, status: outcome.status });
+    }
+
+    /**
+     * Carry out a command for the user the number belongs to
+     */
+    private async execute(
+        userId: string,
+        command: SmsCommand,
+        inboundSmsId: string,
+        providerMessageId: string,
+        context: AuditContext
+    ): Promise<CommandOutcome> {
+        const sosContext = { ...context, source: 'sms' as const, sourceId: inboundSmsId };
+
+        switch (command.type) {
+            case 'sos': {
+                let location = command.latitude !== undefined && command.longitude !== undefined
+                    ? { latitude: command.latitude, longitude: command.longitude }
+                    : null;
+
+                // Without a position in the text, fall back to the last one the app reported
+                if (!location) {
+                    const latest = await locationRepository.findLatestByUserId(userId);
+                    location = latest && { latitude: latest.latitude, longitude: latest.longitude };
+                }
+
+                if (!location) {
+                    return { status: 'rejected', error: 'No location', reply: REPLIES.sosNoLocation };
+                }
+
+                const result = await sosService.triggerSos(userId, {
+                    ...location,
+                    idempotencyKey: `sms:${providerMessageId}`,
+                }, sosContext);
+
+                return this.toOutcome(result, REPLIES.sosSent, REPLIES.sosAlreadyActive);
+            }
+            case 'safe': {
+                const result = await sosService.resolveSos(userId, sosContext);
+                return this.toOutcome(result, REPLIES.resolved, REPLIES.notActive);
+            }
+            case 'cancel': {
+                // With the duress PIN the SOS stays live - the reply is the same either way
+                const result = await sosService.cancelSos(userId, 'Cancelled by SMS', command.pin, sosContext);
+                return this.toOutcome(result, REPLIES.cancelled, REPLIES.notActive);
+            }
+            case 'unknown':
+                return { status: 'ignored', error: 'Unrecognised command', reply: REPLIES.help };
+        }
+    }
+
+    /**
+     * Map an SOS result to an outcome and reply
+     * SosAlreadyActive and SosNotActive are expected refusals; anything else is a failure
+     */
+    private toOutcome(
+        result: Result<SosEvent, DomainError>,
+        successReply: string,
+        refusedReply: string
+    ): CommandOutcome {
+        if (result.success) {
+            return { status: 'processed', sosEventId: result.data.id, reply: successReply };
+        }
+
+        const refused = result.error instanceof SosAlreadyActiveError || result.error instanceof SosNotActiveError;
+        return {
+            status: 'rejected',
+            error: result.error.message,
+            reply: refused ? refusedReply : REPLIES.failed,
+        };
+    }
+
+    private async audit(
+        inboundSmsId: string,
+        userId: string | undefined,
+        command: SmsCommand,
+        outcome: Omit<CommandOutcome, 'reply'>,
+        context: AuditContext
+    ): Promise<void> {
+        await auditRepository.create({
+            userId,
+            action: 'SMS_COMMAND',
+            resourceType: 'InboundSms',
+            resourceId: inboundSmsId,
+            metadata: {
+                command: command.type,
+                status: outcome.status,
+                sosEventId: outcome.sosEventId,
+                error: outcome.error,
+            },
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+    }
+}
+
+export const smsCommandService = new SmsCommandService();
@@ -1,10 +1,28 @@
 import { Server, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { logger } from '../utils/logger.js';
 import { Server as HttpServer } from 'http';
+import { getRedis, createRedisSubscriber } from '../config/redis.js';
+import { presenceService, Presence, PRESENCE_HEARTBEAT_MS } from './presence.service.js';
+import { contactService } from './contact.service.js';
+import { realtimeBufferService, RealtimeEnvelope } from './realtime-buffer.service.js';
+import { verifyAccessToken } from '../middleware/auth.middleware.js';
+import { DomainError, TokenInvalidError, UnauthorizedError } from '../domain/errors/domain.errors.js';
+
+type AuthAck = (response: { success: true; expiresAt: string } | { success: false; error: unknown }) => void;
+
+type ReplayAck = (response: { complete: boolean; latestSeq: number }) => void;
+
+const MAX_TIMER_MS = 2 ** 31 - 1; // setTimeout overflows beyond this
+const RETRY_BATCH_SIZE = 100;
+
+// Safety-critical events are retried until a device of the recipient sends `events:ack`
+const ACKED_EVENTS = new Set(['sos:alert', 'sos:escalated', 'sos:acknowledged']);
 
 class SocketService {
     private io: Server | null = null;
-    private userSockets: Map<string, string> = new Map(); // userId -> socketId
+    private expiryTimers: Map<string, NodeJS.Timeout> = new Map(); // socketId -> access token expiry
+    private heartbeat: NodeJS.Timeout | null = null;
 
     initialize(httpServer: HttpServer, corsOrigins: string | string[]) {
         this.io = new Server(httpServer, {
@@ -15,26 +33,124 @@ class SocketService {
             }
         });
 
+        // Fan emits out through Redis so users connected to other instances receive them
+        const pubClient = getRedis();
+        const subClient = createRedisSubscriber();
+        if (pubClient && subClient) {
+            this.io.adapter(createAdapter(pubClient, subClient));
+            logger.info('Socket.io Redis adapter enabled');
+        } else {
+            logger.warn('REDIS_URL not set - socket events only reach clients on this instance');
+        }
+
+        // Handshake auth - same access token as the REST API
+        // Clients send it as `auth.token` (or an `Authorization: Bearer` header)
+        this.io.use(async (socket, next) => {
+            try {
+                const token = this.extractToken(socket);
+                if (!token) {
+                    throw new UnauthorizedError('No authentication token provided');
+                }
+
+                const payload = await verifyAccessToken(token);
+                socket.data.userId = payload.sub;
+                socket.data.sessionId = payload.sid;
+                socket.data.expiresAt = payload.exp;
+                next();
+            } catch (error) {
+                next(this.toHandshakeError(error));
+            }
+        });
+
         this.io.on('connection', (socket: Socket) => {
-            logger.info(`Socket connected: ${socket.id}`);
-
-            // Auth (Simplified for now - in prod use middleware)
-            // Client should join a room named "user:{userId}"
-            socket.on('join', (userId: string) => {
-                logger.info(`Socket ${socket.id} joined user room: ${userId}`);
-                socket.join(`user:${userId}`);
-                this.userSockets.set(userId, socket.id);
+            const userId = socket.data.userId as string;
+            logger.info(`Socket connected: ${socket.id}`, { userId });
+
+            // Room membership comes only from the verified token
+            socket.join(`user:${userId}`);
+            this.joinSession(socket);
+            this.scheduleExpiry(socket);
+            this.updatePresence(userId, () => presenceService.connect(userId, socket.id));
+
+            // Reconnecting clients send the last sequence they processed
+            const lastSeq = Number(socket.handshake.auth?.lastSeq);
+            if (Number.isInteger(lastSeq) && lastSeq >= 0) {
+                this.replay(socket, userId, lastSeq);
+            }
+
+            socket.on('events:replay', (since: unknown, ack?: ReplayAck) => {
+                const seq = Number(since);
+                if (!Number.isInteger(seq) || seq < 0) return;
+                this.replay(socket, userId, seq, ack);
+            });
+
+            socket.on('events:ack', (seqs: unknown) => {
+                const acked = (Array.isArray(seqs) ? seqs : [seqs]).filter(Number.isInteger) as number[];
+                Promise.all(acked.map((seq) => realtimeBufferService.acknowledge(userId, seq)))
+                    .catch((error) => logger.error('Failed to record event ack', { userId, error }));
+            });
+
+            // Swap in a fresh access token to keep the connection open
+            socket.on('auth:refresh', async (token: unknown, ack?: AuthAck) => {
+                try {
+                    if (typeof token !== 'string') {
+                        throw new TokenInvalidError();
+                    }
+
+                    const payload = await verifyAccessToken(token);
+                    if (payload.sub !== userId) {
+                        throw new TokenInvalidError();
+                    }
+
+                    // The client may have signed in again, so the socket can move to another session
+                    if (payload.sid !== socket.data.sessionId) {
+                        this.leaveSession(socket);
+                        socket.data.sessionId = payload.sid;
+                        this.joinSession(socket);
+                    }
+
+                    socket.data.expiresAt = payload.exp;
+                    this.scheduleExpiry(socket);
+                    ack?.({ success: true, expiresAt: new Date(payload.exp * 1000).toISOString() });
+                } catch (error) {
+                    logger.warn(`Socket ${socket.id} token refresh rejected`, { userId });
+                    ack?.({ success: false, error: this.toHandshakeError(error).data });
+                }
             });
 
             socket.on('disconnect', () => {
                 logger.info(`Socket disconnected: ${socket.id}`);
-                // Cleanup map if needed
+                this.clearExpiry(socket.id);
+                this.updatePresence(userId, () => presenceService.disconnect(userId, socket.id));
             });
         });
+
+        // Keep this instance's sockets fresh in the shared presence store
+        this.heartbeat = setInterval(() => {
+            const entries = [...(this.io?.of('/').sockets.values() ?? [])]
+                .map((socket) => ({ userId: socket.data.userId as string, socketId: socket.id }));
+            presenceService.touch(entries).catch((error) => {
+                logger.error('Failed to refresh presence', error);
+            });
+        }, PRESENCE_HEARTBEAT_MS);
+        this.heartbeat.unref();
+    }
+
+    /**
+     * Stop background timers (graceful shutdown)
+     */
+    close() {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+        this.expiryTimers.forEach((timer) => clearTimeout(timer));
+        this.expiryTimers.clear();
     }
 
     /**
      * Emit an event to specific users
+     * Each user's events carry a `seq` so reconnecting clients can replay what they missed
      */
     emitToUsers(userIds: string[], event: string, data: any) {
         if (!this.io) {
@@ -43,10 +159,46 @@ class SocketService {
         }
 
         userIds.forEach(userId => {
-            this.io?.to(`user:${userId}`).emit(event, data);
+            realtimeBufferService.record(userId, event, data, ACKED_EVENTS.has(event))
+                .then((envelope) => {
+                    if (envelope) this.emitEnvelope(userId, envelope);
+                    else this.io?.to(`user:${userId}`).emit(event, data);
+                })
+                .catch((error) => {
+                    // Never drop the live event because the buffer is unavailable
+                    logger.error('Failed to buffer realtime event', { userId, event, error });
+                    this.io?.to(`user:${userId}`).emit(event, data);
+                });
         });
     }
 
+    /**
+     * Re-emit unacknowledged safety events (called by the retry worker)
+     * Returns the number of events re-sent
+     */
+    async retryUnacknowledged(): Promise<number> {
+        if (!this.io) return 0;
+
+        const retries = await realtimeBufferService.claimDueRetries(RETRY_BATCH_SIZE);
+        for (const { userId, envelope } of retries) {
+            this.emitEnvelope(userId, envelope);
+        }
+        return retries.length;
+    }
+
+    /**
+     * Disconnect every socket of a session that was signed out (on any instance)
+     * Clients get `auth:revoked` first so they do not reconnect with the same session
+     */
+    disconnectSession(sessionId: string) {
+        if (!this.io) return;
+
+        const room = `session:${sessionId}`;
+        this.io.to(room).emit('auth:revoked');
+        this.io.in(room).disconnectSockets(true);
+        logger.info('Disconnected sockets of revoked session', { sessionId });
+    }
+
     /**
      * Emit to all connected clients (use sparingly)
      */
@@ -54,6 +206,135 @@ class SocketService {
         if (!this.io) return;
         this.io.emit(event, data);
     }
+
+    /**
+     * Emit a buffered event to every device of a user
+     */
+    private emitEnvelope(userId: string, envelope: RealtimeEnvelope) {
+        this.io?.to(`user:${userId}`).emit(envelope.event, this.toPayload(envelope));
+    }
+
+    /**
+     * Event payload with its sequence number (and whether the client must ack it)
+     */
+    private toPayload(envelope: RealtimeEnvelope): Record<string, unknown> {
+        return {
+            ...(envelope.data as Record<string, unknown>),
+            seq: envelope.seq,
+            requiresAck: ACKED_EVENTS.has(envelope.event) || undefined,
+        };
+    }
+
+    /**
+     * Send one socket the events it missed, then `events:replayed`
+     * `complete: false` means the gap is older than the buffer - the client should refetch over REST
+     */
+    private replay(socket: Socket, userId: string, lastSeq: number, ack?: ReplayAck) {
+        realtimeBufferService.getSince(userId, lastSeq)
+            .then(({ events, complete, latestSeq }) => {
+                for (const envelope of events) {
+                    socket.emit(envelope.event, { ...this.toPayload(envelope), replayed: true });
+                }
+
+                const result = { complete, latestSeq };
+                socket.emit('events:replayed', result);
+                ack?.(result);
+
+                logger.info(`Socket ${socket.id} replayed missed events`, {
+                    userId,
+                    lastSeq,
+                    replayed: events.length,
+                    complete,
+                });
+            })
+            .catch((error) => {
+                logger.error('Failed to replay realtime events', { userId, error });
+            });
+    }
+
+    /**
+     * Apply a presence change and tell the user's circle with `presence:changed`
+     * Presence is best effort - failures are logged, the connection is unaffected
+     */
+    private updatePresence(userId: string, change: () => Promise<Presence | null>) {
+        change()
+            .then(async (presence) => {
+                if (!presence) return;
+
+                const contacts = await contactService.getContactsWithUser(userId);
+                const recipientIds = contacts.map((c) => c.contactUserId!);
+                this.emitToUsers(recipientIds, 'presence:changed', presence);
+            })
+            .catch((error) => {
+                logger.error('Failed to update presence', { userId, error });
+            });
+    }
+
+    /**
+     * Read the access token from the handshake
+     */
+    private extractToken(socket: Socket): string | null {
+        const authToken = socket.handshake.auth?.token;
+        if (typeof authToken === 'string' && authToken) return authToken;
+
+        const authHeader = socket.handshake.headers.authorization;
+        if (!authHeader) return null;
+
+        const [type, token] = authHeader.split(' ');
+        if (type !== 'Bearer' || !token) return null;
+
+        return token;
+    }
+
+    /**
+     * Session rooms let a revoked session's sockets be disconnected across instances
+     * Tokens issued before sessions existed carry no session and join no room
+     */
+    private joinSession(socket: Socket) {
+        if (socket.data.sessionId) {
+            socket.join(`session:${socket.data.sessionId}`);
+        }
+    }
+
+    private leaveSession(socket: Socket) {
+        if (socket.data.sessionId) {
+            socket.leave(`session:${socket.data.sessionId}`);
+        }
+    }
+
+    /**
+     * Disconnect the socket when its access token expires
+     * Clients get `auth:expired` first so they can reconnect with a fresh token
+     */
+    private scheduleExpiry(socket: Socket) {
+        this.clearExpiry(socket.id);
+
+        const delay = Math.min((socket.data.expiresAt as number) * 1000 - Date.now(), MAX_TIMER_MS);
+        const timer = setTimeout(() => {
+            this.expiryTimers.delete(socket.id);
+            logger.info(`Socket ${socket.id} access token expired`, { userId: socket.data.userId });
+            socket.emit('auth:expired');
+            socket.disconnect(true);
+        }, Math.max(delay, 0));
+
+        this.expiryTimers.set(socket.id, timer);
+    }
+
+    private clearExpiry(socketId: string) {
+        const timer = this.expiryTimers.get(socketId);
+        if (timer) {
+            clearTimeout(timer);
+            this.expiryTimers.delete(socketId);
+        }
+    }
+
+    /**
+     * Socket.io error whose `data` carries the domain error code to the client
+     */
+    private toHandshakeError(error: unknown): Error & { data: unknown } {
+        const domainError = error instanceof DomainError ? error : new TokenInvalidError();
+        return Object.assign(new Error(domainError.message), { data: domainError.toJSON() });
+    }
 }
 
 export const socketService = new SocketService();
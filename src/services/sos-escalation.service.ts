@@ -0,0 +1,279 @@
+// =============================================================================
+// Blink Engine - SOS Escalation Service
+// =============================================================================
+// Acknowledgements by circle members and the automatic escalation ladder
+
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    NotFoundError,
+    ForbiddenError,
+    SosNotActiveError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { runInTransaction } from '../config/database.js';
+import {
+    sosRepository,
+    SosEvent,
+    NotifiedContact,
+    LIVE_SOS_STATUSES,
+} from '../repositories/sos.repository.js';
+import { contactRepository } from '../repositories/contact.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { outboxRepository } from '../repositories/outbox.repository.js';
+import { sosOutboxService, SosEscalatedPayload } from './sos-outbox.service.js';
+import { sosShareService } from './sos-share.service.js';
+import { securityNodeService } from './security-node.service.js';
+import { socketService } from './socket.service.js';
+import { logger } from '../utils/logger.js';
+import { outboxRelay } from '../workers/outbox-relay.worker.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface AcknowledgeResult {
+    sosEventId: string;
+    acknowledgedAt: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LEVEL_NON_PRIMARY_CONTACTS = 1;
+const LEVEL_SECURITY_NODES = 2;
+const MAX_ESCALATION_LEVEL = LEVEL_SECURITY_NODES;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class SosEscalationService {
+    /**
+     * Acknowledge an SOS as a member of the user's circle
+     * Acknowledging stops further escalation; repeat calls are harmless
+     */
+    async acknowledgeSos(
+        userId: string,
+        sosId: string,
+        context: AuditContext
+    ): Promise<Result<AcknowledgeResult, DomainError>> {
+        const sosEvent = await sosRepository.findById(sosId);
+        if (!sosEvent) {
+            return fail(new NotFoundError('SosEvent', sosId));
+        }
+
+        const ownerContacts = await contactRepository.findAllByUserId(sosEvent.userId);
+        const member = ownerContacts.find(
+            (c) => c.contactUserId === userId && c.status === 'accepted'
+        );
+        if (!member) {
+            return fail(new ForbiddenError('Only members of the circle can acknowledge this SOS'));
+        }
+
+        if (!LIVE_SOS_STATUSES.includes(sosEvent.status)) {
+            return fail(new SosNotActiveError('This SOS is no longer active'));
+        }
+
+        const acknowledgedAt = new Date();
+        const isNew = await runInTransaction(async (tx) => {
+            const created = await sosRepository.acknowledge(sosEvent.id, userId, tx);
+            if (!created) return false;
+
+            await sosRepository.addAuditEntry(sosEvent.id, {
+                action: 'ACKNOWLEDGED',
+                userId,
+                contactId: member.id,
+                timestamp: acknowledgedAt.toISOString(),
+                correlationId: context.correlationId,
+            }, tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'SOS_ACKNOWLEDGED',
+                resourceType: 'SosEvent',
+                resourceId: sosEvent.id,
+                metadata: { ownerId: sosEvent.userId },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return true;
+        });
+
+        // Let the person in distress know someone has seen it
+        // Under duress the device may be in the wrong hands - stay silent
+        if (isNew && sosEvent.status !== 'duress') {
+            try {
+                socketService.emitToUsers([sosEvent.userId], 'sos:acknowledged', {
+                    sosEventId: sosEvent.id,
+                    userId,
+                    name: member.name,
+                    acknowledgedAt,
+                });
+            } catch (error) {
+                logger.error('Failed to emit SOS acknowledged socket event', error);
+            }
+        }
+
+        return ok({ sosEventId: sosEvent.id, acknowledgedAt });
+    }
+
+    /**
+     * Escalate every active SOS that has gone unacknowledged for too long
+     * Returns the number of events escalated
+     */
+    async escalateDue(): Promise<Result<number, DomainError>> {
+        const before = new Date(Date.now() - config.sos.escalationMinutes * 60 * 1000);
+        const due = await sosRepository.findDueForEscalation(before, MAX_ESCALATION_LEVEL);
+
+        let escalated = 0;
+        for (const sosEvent of due) {
+            try {
+                if (await this.escalate(sosEvent)) {
+                    escalated++;
+                }
+            } catch (error) {
+                logger.error('Failed to escalate SOS', { sosId: sosEvent.id, error });
+            }
+        }
+
+        if (escalated > 0) {
+            outboxRelay.wake();
+        }
+
+        return ok(escalated);
+    }
+
+    /**
+     * Move one SOS event to its next non-empty tier
+     * Empty tiers (e.g. no non-primary contacts) are recorded and skipped
+     */
+    private async escalate(sosEvent: SosEvent): Promise<boolean> {
+        const notified = (sosEvent.notifiedContacts as unknown as NotifiedContact[] | null) ?? [];
+        const escalatedAt = new Date();
+
+        const steps: SosEscalatedPayload[] = [];
+        let newContacts: NotifiedContact[] = [];
+        let level = sosEvent.escalationLevel;
+
+        while (level < MAX_ESCALATION_LEVEL) {
+            level++;
+
+            const step: SosEscalatedPayload = {
+                sosEventId: sosEvent.id,
+                userId: sosEvent.userId,
+                level,
+                tier: level === LEVEL_NON_PRIMARY_CONTACTS ? 'contacts' : 'security_nodes',
+                contacts: [],
+                securityNodes: [],
+                escalatedAt: escalatedAt.toISOString(),
+                duress: sosEvent.status === 'duress',
+            };
+
+            if (level === LEVEL_NON_PRIMARY_CONTACTS) {
+                newContacts = await this.getUnnotifiedContacts(sosEvent.userId, notified);
+                step.contacts = newContacts.map((c) => ({ id: c.id, name: c.name }));
+            } else {
+                // Nodes are only listed in `sos:escalated` - there is no dispatch channel to notify them on
+                const nodes = await securityNodeService.getNearbyNodes(sosEvent.latitude, sosEvent.longitude);
+                step.securityNodes = nodes.success
+                    ? nodes.data.map((node) => ({
+                        id: node.id!,
+                        name: node.name!,
+                        company: node.company!,
+                        eta: node.eta ?? null,
+                    }))
+                    : [];
+            }
+
+            steps.push(step);
+            if (step.contacts.length > 0 || step.securityNodes.length > 0) break;
+        }
+
+        const advanced = await runInTransaction(async (tx) => {
+            const claimed = await sosRepository.advanceEscalation(
+                sosEvent.id,
+                sosEvent.escalationLevel,
+                level,
+                [...notified, ...newContacts],
+                tx
+            );
+            if (!claimed) return false;
+
+            await sosShareService.issueTokens(sosEvent.id, newContacts, tx);
+
+            await sosRepository.addAuditEntries(sosEvent.id, steps.map((step) => ({
+                action: 'ESCALATED',
+                level: step.level,
+                tier: step.tier,
+                contactIds: step.contacts.map((c) => c.id),
+                securityNodeIds: step.securityNodes.map((n) => n.id),
+                timestamp: escalatedAt.toISOString(),
+            })), tx);
+
+            await auditRepository.create({
+                userId: sosEvent.userId,
+                action: 'SOS_ESCALATED',
+                resourceType: 'SosEvent',
+                resourceId: sosEvent.id,
+                metadata: {
+                    fromLevel: sosEvent.escalationLevel,
+                    toLevel: level,
+                    contactsAdded: newContacts.length,
+                },
+            }, tx);
+
+            await outboxRepository.enqueue([
+                ...(newContacts.length > 0
+                    ? [sosOutboxService.notifyContactsMessage(sosEvent.id, undefined, level)]
+                    : []),
+                ...steps.map((step) => sosOutboxService.escalatedMessage(step)),
+            ], tx);
+
+            return true;
+        });
+
+        if (advanced) {
+            logger.warn('SOS escalated - no acknowledgement received', {
+                sosId: sosEvent.id,
+                fromLevel: sosEvent.escalationLevel,
+                toLevel: level,
+                contactsAdded: newContacts.length,
+            });
+        }
+
+        return advanced;
+    }
+
+    /**
+     * Accepted contacts of the user that were not part of an earlier tier
+     */
+    private async getUnnotifiedContacts(
+        userId: string,
+        notified: NotifiedContact[]
+    ): Promise<NotifiedContact[]> {
+        const notifiedIds = new Set(notified.map((c) => c.id));
+        const contacts = await contactRepository.findAllByUserId(userId);
+
+        return contacts
+            .filter((c) => c.status === 'accepted' && !notifiedIds.has(c.id))
+            .map((c) => ({
+                id: c.id,
+                name: c.name,
+                phoneNumber: c.phoneNumber,
+                email: c.email,
+                contactUserId: c.contactUserId,
+            }));
+    }
+}
+
+export const sosEscalationService = new SosEscalationService();
@@ -0,0 +1,113 @@
+// =============================================================================
+// Blink Engine - SOS Expiry Service
+// =============================================================================
+// Expires stale SOS events that were never cancelled or resolved
+
+import { Result, ok } from '../utils/result.js';
+import { DomainError } from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { runInTransaction } from '../config/database.js';
+import { sosRepository, SosEvent } from '../repositories/sos.repository.js';
+import { locationRepository } from '../repositories/location.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { outboxRepository } from '../repositories/outbox.repository.js';
+import { sosOutboxService } from './sos-outbox.service.js';
+import { sosShareService } from './sos-share.service.js';
+import { logger } from '../utils/logger.js';
+import { outboxRelay } from '../workers/outbox-relay.worker.js';
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class SosExpiryService {
+    /**
+     * Expire every live SOS older than the configured TTL
+     * Events whose user reported a location recently are kept active - they may still be in distress
+     * Returns the number of events expired
+     */
+    async expireStale(): Promise<Result<number, DomainError>> {
+        const ttlMinutes = config.sos.ttlMinutes;
+        const before = new Date(Date.now() - ttlMinutes * 60 * 1000);
+        const candidates = await sosRepository.findLiveTriggeredBefore(before);
+
+        let expired = 0;
+        for (const sosEvent of candidates) {
+            try {
+                if (await this.hasRecentActivity(sosEvent)) {
+                    logger.debug('Stale SOS kept active - recent location activity', { sosId: sosEvent.id });
+                    continue;
+                }
+
+                if (await this.expire(sosEvent, ttlMinutes)) {
+                    expired++;
+                }
+            } catch (error) {
+                logger.error('Failed to expire SOS', { sosId: sosEvent.id, error });
+            }
+        }
+
+        if (expired > 0) {
+            outboxRelay.wake();
+        }
+
+        return ok(expired);
+    }
+
+    /**
+     * Whether the user has reported a location within the activity window
+     */
+    private async hasRecentActivity(sosEvent: SosEvent): Promise<boolean> {
+        const latest = await locationRepository.findLatestByUserId(sosEvent.userId);
+        if (!latest) return false;
+
+        const windowStart = Date.now() - config.sos.activityWindowMinutes * 60 * 1000;
+        return latest.timestamp.getTime() >= windowStart;
+    }
+
+    /**
+     * Expire one SOS event and notify the circle
+     * Returns false if the event was cancelled or resolved in the meantime
+     */
+    private async expire(sosEvent: SosEvent, ttlMinutes: number): Promise<boolean> {
+        const updated = await runInTransaction(async (tx) => {
+            const expiredEvent = await sosRepository.expire(sosEvent.id, ttlMinutes, tx);
+            if (!expiredEvent) return null;
+            await sosShareService.revokeTokens(sosEvent.id, tx);
+
+            await auditRepository.create({
+                userId: sosEvent.userId,
+                action: 'SOS_EXPIRED',
+                resourceType: 'SosEvent',
+                resourceId: sosEvent.id,
+                metadata: {
+                    ttlMinutes,
+                    triggeredAt: sosEvent.triggeredAt.toISOString(),
+                },
+            }, tx);
+
+            await outboxRepository.enqueue([
+                sosOutboxService.alertMessage({
+                    sosEventId: expiredEvent.id,
+                    userId: expiredEvent.userId,
+                    type: 'end',
+                    status: 'expired',
+                }),
+            ], tx);
+
+            return expiredEvent;
+        });
+
+        if (updated) {
+            logger.warn('SOS expired without resolution', {
+                sosId: sosEvent.id,
+                userId: sosEvent.userId,
+                ttlMinutes,
+            });
+        }
+
+        return updated !== null;
+    }
+}
+
+export const sosExpiryService = new SosExpiryService();
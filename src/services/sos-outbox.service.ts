@@ -0,0 +1,207 @@
+// =============================================================================
+// Blink Engine - SOS Outbox Service
+// =============================================================================
+// Builds and delivers SOS side effects relayed through the transactional outbox
+
+import { Result, ok, fail } from '../utils/result.js';
+import { NotFoundError, InternalError, DomainError } from '../domain/errors/domain.errors.js';
+import { sosRepository } from '../repositories/sos.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { EnqueueOutboxInput, OutboxMessage } from '../repositories/outbox.repository.js';
+import { contactService } from './contact.service.js';
+import { notificationService } from './notification.service.js';
+import { socketService } from './socket.service.js';
+import { inboxService } from './inbox.service.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const SOS_TOPICS = {
+    ALERT: 'sos.alert',
+    NOTIFY_CONTACTS: 'sos.notify_contacts',
+    ESCALATED: 'sos.escalated',
+} as const;
+
+/**
+ * Payload of the `sos:alert` socket event sent to the circle
+ */
+export interface SosAlertPayload {
+    sosEventId: string;
+    userId: string;
+    type: 'start' | 'end';
+    source?: string; // What triggered the SOS ('user', 'check_in')
+    status?: string;
+    reason?: string;
+    latitude?: number;
+    longitude?: number;
+    triggeredAt?: string;
+}
+
+/**
+ * Payload of the `sos:escalated` socket event sent to the user and the circle
+ * Under duress the user is left out - their device may be in an attacker's hands
+ */
+export interface SosEscalatedPayload {
+    sosEventId: string;
+    userId: string;
+    level: number;
+    tier: 'contacts' | 'security_nodes';
+    contacts: { id: string; name: string }[];
+    securityNodes: { id: string; name: string; company: string; eta: string | null }[]; // Nearby, not contacted
+    escalatedAt: string;
+    duress?: boolean;
+}
+
+interface NotifyContactsPayload {
+    sosEventId: string;
+    correlationId?: string;
+    level?: number; // Escalation level that added contacts; absent for the initial alert
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class SosOutboxService {
+    /**
+     * Outbox message that emits `sos:alert` to the user's circle
+     * The dedup key is derived from the event and its status so a transition is only broadcast once
+     */
+    alertMessage(alert: SosAlertPayload): EnqueueOutboxInput {
+        return {
+            topic: SOS_TOPICS.ALERT,
+            dedupKey: `sos:${alert.sosEventId}:alert:${alert.status ?? alert.type}`,
+            payload: { ...alert },
+        };
+    }
+
+    /**
+     * Outbox message that notifies the event's contacts over push, SMS and email
+     * Escalations re-run it (with their level in the dedup key) after adding contacts
+     */
+    notifyContactsMessage(sosEventId: string, correlationId?: string, level = 0): EnqueueOutboxInput {
+        return {
+            topic: SOS_TOPICS.NOTIFY_CONTACTS,
+            dedupKey: level === 0
+                ? `sos:${sosEventId}:notify_contacts`
+                : `sos:${sosEventId}:notify_contacts:level:${level}`,
+            payload: { sosEventId, correlationId, ...(level > 0 && { level }) },
+        };
+    }
+
+    /**
+     * Outbox message that emits `sos:escalated` to the user and the circle
+     */
+    escalatedMessage(escalation: SosEscalatedPayload): EnqueueOutboxInput {
+        return {
+            topic: SOS_TOPICS.ESCALATED,
+            dedupKey: `sos:${escalation.sosEventId}:escalated:${escalation.level}`,
+            payload: { ...escalation },
+        };
+    }
+
+    /**
+     * Outbox message that warns the circle an SOS was cancelled under duress
+     * Sent instead of the `end` alert; it reuses `sos:escalated` so responders treat it as urgent
+     */
+    duressMessage(escalation: SosEscalatedPayload): EnqueueOutboxInput {
+        return {
+            topic: SOS_TOPICS.ESCALATED,
+            dedupKey: `sos:${escalation.sosEventId}:escalated:duress`,
+            payload: { ...escalation, duress: true },
+        };
+    }
+
+    /**
+     * Deliver a relayed message
+     * Failures are returned so the relay can retry; delivery is at-least-once
+     */
+    async handle(message: OutboxMessage): Promise<Result<void, DomainError>> {
+        switch (message.topic) {
+            case SOS_TOPICS.ALERT:
+                return this.emitAlert(message.id, message.payload as unknown as SosAlertPayload);
+            case SOS_TOPICS.NOTIFY_CONTACTS:
+                return this.notifyContacts(message.payload as unknown as NotifyContactsPayload);
+            case SOS_TOPICS.ESCALATED:
+                return this.emitEscalated(message.id, message.payload as unknown as SosEscalatedPayload);
+            default:
+                return fail(new InternalError(`Unknown outbox topic '${message.topic}'`));
+        }
+    }
+
+    /**
+     * Emit `sos:alert` to every Blink user in the circle and add it to their inboxes
+     * `eventId` lets clients drop duplicates caused by redelivery; the inbox dedups on its own
+     */
+    private async emitAlert(
+        eventId: string,
+        alert: SosAlertPayload
+    ): Promise<Result<void, DomainError>> {
+        const contactsWithUser = await contactService.getContactsWithUser(alert.userId);
+        const recipientIds = contactsWithUser
+            .filter(c => c.contactUserId)
+            .map(c => c.contactUserId!);
+
+        if (recipientIds.length > 0) {
+            socketService.emitToUsers(recipientIds, 'sos:alert', { eventId, ...alert });
+
+            const user = await userRepository.findById(alert.userId);
+            const name = user?.name ?? 'A contact';
+            await inboxService.post(recipientIds, {
+                type: alert.type === 'start' ? 'sos_started' : 'sos_ended',
+                title: alert.type === 'start' ? 'SOS alert' : 'SOS ended',
+                body: alert.type === 'start'
+                    ? `${name} triggered an SOS`
+                    : `${name}'s SOS was ${alert.status ?? 'ended'}`,
+                data: { sosEventId: alert.sosEventId, userId: alert.userId },
+                dedupKey: `sos:${alert.sosEventId}:${alert.status ?? alert.type}`,
+            });
+        }
+
+        return ok(undefined);
+    }
+
+    /**
+     * Emit `sos:escalated` to the user (unless under duress) and every Blink user in the circle
+     */
+    private async emitEscalated(
+        eventId: string,
+        escalation: SosEscalatedPayload
+    ): Promise<Result<void, DomainError>> {
+        const contactsWithUser = await contactService.getContactsWithUser(escalation.userId);
+        const recipientIds = [
+            ...(escalation.duress ? [] : [escalation.userId]),
+            ...contactsWithUser
+                .filter(c => c.contactUserId)
+                .map(c => c.contactUserId!),
+        ];
+
+        socketService.emitToUsers(recipientIds, 'sos:escalated', { eventId, ...escalation });
+
+        return ok(undefined);
+    }
+
+    /**
+     * Queue the contact notifications; the delivery queue retries each one on its own
+     * Contacts already queued on a channel are skipped on redelivery
+     */
+    private async notifyContacts(payload: NotifyContactsPayload): Promise<Result<void, DomainError>> {
+        const sosEvent = await sosRepository.findById(payload.sosEventId);
+        if (!sosEvent) {
+            return fail(new NotFoundError('SosEvent', payload.sosEventId));
+        }
+
+        const result = await notificationService.notifySosContacts(sosEvent, {
+            correlationId: payload.correlationId,
+            eventType: payload.level ? 'sos_escalated' : 'sos_alert',
+        });
+        if (!result.success) {
+            return result;
+        }
+
+        return ok(undefined);
+    }
+}
+
+export const sosOutboxService = new SosOutboxService();
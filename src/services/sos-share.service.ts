@@ -0,0 +1,189 @@
+// =============================================================================
+// Blink Engine - SOS Share Service
+// =============================================================================
+// Public read-only SOS viewer links for contacts without a Blink account
+
+import jwt from 'jsonwebtoken';
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    TokenExpiredError,
+    TokenInvalidError,
+    SosNotActiveError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { prisma, TransactionClient } from '../config/database.js';
+import { sosRepository, NotifiedContact, LIVE_SOS_STATUSES } from '../repositories/sos.repository.js';
+import { sosShareTokenRepository, SosShareToken } from '../repositories/sos-share-token.repository.js';
+import { locationRepository } from '../repositories/location.repository.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AccessContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+interface ShareTokenPayload {
+    jti: string;
+    sos: string;
+}
+
+export interface SharedSosView {
+    sosEventId: string;
+    status: string;
+    name: string;
+    triggeredAt: Date;
+    acknowledged: boolean;
+    location: {
+        latitude: number;
+        longitude: number;
+        timestamp: Date;
+    };
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const TOKEN_AUDIENCE = 'sos-viewer';
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class SosShareService {
+    /**
+     * Issue a viewer token for each contact - call with the transaction client of the SOS state change
+     */
+    async issueTokens(
+        sosEventId: string,
+        contacts: NotifiedContact[],
+        tx: TransactionClient = prisma
+    ): Promise<number> {
+        const expiresAt = new Date(Date.now() + config.sos.shareTokenTtlHours * 60 * 60 * 1000);
+        return sosShareTokenRepository.createForContacts(
+            sosEventId,
+            contacts.map((c) => c.id),
+            expiresAt,
+            tx
+        );
+    }
+
+    /**
+     * Revoke every viewer token of an SOS event - call when the SOS ends
+     */
+    async revokeTokens(sosEventId: string, tx: TransactionClient = prisma): Promise<number> {
+        return sosShareTokenRepository.revokeBySosEventId(sosEventId, tx);
+    }
+
+    /**
+     * Viewer links of an SOS event, keyed by contact ID
+     */
+    async getViewerLinks(sosEventId: string): Promise<Map<string, string>> {
+        const tokens = await sosShareTokenRepository.findValidBySosEventId(sosEventId);
+        return new Map(
+            tokens.map((token) => [token.contactId, `${config.sos.viewerUrl}/${this.sign(token)}`])
+        );
+    }
+
+    /**
+     * Resolve a viewer token to the live SOS status and latest location
+     * Every access, granted or denied, is written to the audit log
+     */
+    async viewSharedSos(
+        token: string,
+        context: AccessContext
+    ): Promise<Result<SharedSosView, DomainError>> {
+        let payload: ShareTokenPayload;
+        try {
+            payload = jwt.verify(token, config.sos.shareTokenSecret, {
+                audience: TOKEN_AUDIENCE,
+            }) as ShareTokenPayload;
+        } catch (error) {
+            const expired = error instanceof jwt.TokenExpiredError;
+            await this.auditAccess(null, context, { granted: false, reason: expired ? 'expired' : 'invalid' });
+            return fail(expired ? new TokenExpiredError() : new TokenInvalidError());
+        }
+
+        const shareToken = await sosShareTokenRepository.findById(payload.jti);
+        const sosEvent = shareToken ? await sosRepository.findById(shareToken.sosEventId) : null;
+        if (!shareToken || !sosEvent || shareToken.sosEventId !== payload.sos) {
+            await this.auditAccess(null, context, { granted: false, reason: 'invalid' });
+            return fail(new TokenInvalidError());
+        }
+
+        if (shareToken.revokedAt || !LIVE_SOS_STATUSES.includes(sosEvent.status)) {
+            await this.auditAccess(shareToken, context, { granted: false, reason: 'sos_ended', ownerId: sosEvent.userId });
+            return fail(new SosNotActiveError('This SOS is no longer active'));
+        }
+
+        const [user, latest] = await Promise.all([
+            userRepository.findById(sosEvent.userId),
+            locationRepository.findLatestByUserId(sosEvent.userId),
+        ]);
+
+        await sosShareTokenRepository.touch(shareToken.id);
+        await this.auditAccess(shareToken, context, { granted: true, ownerId: sosEvent.userId });
+
+        // Locations reported before the trigger are older than the SOS itself
+        const location = latest && latest.timestamp >= sosEvent.triggeredAt
+            ? { latitude: latest.latitude, longitude: latest.longitude, timestamp: latest.timestamp }
+            : { latitude: sosEvent.latitude, longitude: sosEvent.longitude, timestamp: sosEvent.triggeredAt };
+
+        return ok({
+            sosEventId: sosEvent.id,
+            status: sosEvent.status,
+            name: user?.name ?? 'Your contact',
+            triggeredAt: sosEvent.triggeredAt,
+            acknowledged: sosEvent.acknowledgedAt !== null,
+            location,
+        });
+    }
+
+    /**
+     * Sign a viewer token; it expires with its database record
+     */
+    private sign(shareToken: SosShareToken): string {
+        return jwt.sign(
+            {
+                sos: shareToken.sosEventId,
+                exp: Math.floor(shareToken.expiresAt.getTime() / 1000),
+            },
+            config.sos.shareTokenSecret,
+            { jwtid: shareToken.id, audience: TOKEN_AUDIENCE }
+        );
+    }
+
+    /**
+     * Write a viewer access to the audit log
+     * Not best-effort: an access that cannot be audited is not served
+     */
+    private async auditAccess(
+        shareToken: SosShareToken | null,
+        context: AccessContext,
+        details: { granted: boolean; reason?: string; ownerId?: string }
+    ): Promise<void> {
+        await auditRepository.create({
+            userId: details.ownerId,
+            action: details.granted ? 'SOS_SHARE_ACCESSED' : 'SOS_SHARE_DENIED',
+            resourceType: 'SosShareToken',
+            resourceId: shareToken?.id,
+            metadata: {
+                sosEventId: shareToken?.sosEventId,
+                contactId: shareToken?.contactId,
+                reason: details.reason,
+            },
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+    }
+}
+
+export const sosShareService = new SosShareService();
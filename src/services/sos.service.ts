@@ -7,13 +7,23 @@ import { Result, ok, fail } from '../utils/result.js';
 import {
     SosAlreadyActiveError,
     SosNotActiveError,
+    NotFoundError,
+    ForbiddenError,
     DomainError,
 } from '../domain/errors/domain.errors.js';
-import { sosRepository, SosEvent } from '../repositories/sos.repository.js';
+import { Prisma } from '@prisma/client';
+import { runInTransaction, TransactionClient } from '../config/database.js';
+import { sosRepository, SosEvent, NotifiedContact } from '../repositories/sos.repository.js';
 import { auditRepository } from '../repositories/audit.repository.js';
+import { locationRepository } from '../repositories/location.repository.js';
+import { outboxRepository } from '../repositories/outbox.repository.js';
+import { sessionRepository } from '../repositories/session.repository.js';
 import { contactService } from './contact.service.js';
 import { logger } from '../utils/logger.js';
-import { socketService } from './socket.service.js';
+import { sosOutboxService } from './sos-outbox.service.js';
+import { sosShareService } from './sos-share.service.js';
+import { userService } from './user.service.js';
+import { outboxRelay } from '../workers/outbox-relay.worker.js';
 
 
 // =============================================================================
@@ -24,12 +34,21 @@ interface TriggerSosInput {
     latitude: number;
     longitude: number;
     idempotencyKey?: string;
+    countdownSeconds?: number;
 }
 
+/**
+ * What triggered an SOS - the user (in the app or by SMS), or a scheduler acting for them
+ */
+export type SosTriggerSource = 'user' | 'check_in' | 'journey' | 'sms';
+
 interface AuditContext {
     correlationId?: string;
     ipAddress?: string;
     userAgent?: string;
+    source?: SosTriggerSource;
+    sourceId?: string; // e.g. the missed check-in
+    sessionId?: string; // Session (device) the user triggered it from
 }
 
 // =============================================================================
@@ -55,11 +74,23 @@ class SosService {
                     userId,
                     sosId: existing.id,
                 });
-                return ok(existing);
+                return ok(this.presentToOwner(existing));
             }
         }
 
+        // Pressing SOS again during a countdown sends the alert right away
+        const armedSos = await sosRepository.findArmedByUserId(userId);
+        if (armedSos) {
+            if (input.countdownSeconds) {
+                return fail(new SosAlreadyActiveError());
+            }
+            const activated = await this.activateArmed(armedSos, context);
+            return activated ? ok(activated) : fail(new SosAlreadyActiveError());
+        }
+
         // Check if user already has an active SOS
+        // A duress SOS looks cancelled to the user, so it does not block a new one - it stays
+        // live alongside it until the circle resolves it
         const activeSos = await sosRepository.findActiveByUserId(userId);
         if (activeSos) {
             return fail(new SosAlreadyActiveError());
@@ -71,122 +102,331 @@ class SosService {
             id: c.id,
             name: c.name,
             phoneNumber: c.phoneNumber,
+            email: c.email,
+            contactUserId: c.contactUserId,
         }));
 
-        // Create SOS event
-        const sosEvent = await sosRepository.create({
-            userId,
-            latitude: input.latitude,
-            longitude: input.longitude,
-            triggeredAt: new Date(),
-            idempotencyKey: input.idempotencyKey,
-            notifiedContacts: notifiedContacts,
-            auditLog: [
-                {
-                    action: 'TRIGGERED',
-                    timestamp: new Date().toISOString(),
+        // With a countdown nothing is sent yet - the countdown worker activates the event
+        // once armedUntil passes, which survives restarts because the deadline is stored
+        if (input.countdownSeconds) {
+            const armedAt = new Date();
+            const armedUntil = new Date(armedAt.getTime() + input.countdownSeconds * 1000);
+
+            const armed = await runInTransaction(async (tx) => {
+                const created = await sosRepository.create({
+                    userId,
+                    latitude: input.latitude,
+                    longitude: input.longitude,
+                    triggeredAt: armedAt,
+                    armedUntil,
+                    idempotencyKey: input.idempotencyKey,
+                    notifiedContacts: notifiedContacts,
+                    sessionId: context.sessionId,
+                    auditLog: [
+                        {
+                            action: 'ARMED',
+                            source: context.source ?? 'user',
+                            countdownSeconds: input.countdownSeconds,
+                            timestamp: armedAt.toISOString(),
+                            correlationId: context.correlationId,
+                        },
+                    ],
+                }, tx);
+
+                await auditRepository.create({
+                    userId,
+                    action: 'SOS_ARMED',
+                    resourceType: 'SosEvent',
+                    resourceId: created.id,
+                    metadata: {
+                        latitude: input.latitude,
+                        longitude: input.longitude,
+                        countdownSeconds: input.countdownSeconds,
+                        sessionId: context.sessionId,
+                    },
                     correlationId: context.correlationId,
-                },
-            ],
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent,
+                }, tx);
+
+                return created;
+            });
+
+            return ok(armed);
+        }
+
+        // Create SOS event, audit record and side effects atomically
+        // Side effects are relayed from the outbox so a crash cannot lose them
+        const triggeredAt = new Date();
+        const sosEvent = await runInTransaction(async (tx) => {
+            const created = await sosRepository.create({
+                userId,
+                latitude: input.latitude,
+                longitude: input.longitude,
+                triggeredAt,
+                idempotencyKey: input.idempotencyKey,
+                notifiedContacts: notifiedContacts,
+                sessionId: context.sessionId,
+                auditLog: [
+                    {
+                        action: 'TRIGGERED',
+                        source: context.source ?? 'user',
+                        sourceId: context.sourceId,
+                        timestamp: triggeredAt.toISOString(),
+                        correlationId: context.correlationId,
+                    },
+                ],
+            }, tx);
+
+            await this.enqueueTriggered(created, context, tx);
+
+            return created;
+        });
+
+        outboxRelay.wake();
+
+        return ok(sosEvent);
+    }
+
+    /**
+     * Activate every armed SOS whose countdown has elapsed
+     * Returns the number of events activated
+     */
+    async activateDueArmed(): Promise<Result<number, DomainError>> {
+        const due = await sosRepository.findArmedDue(new Date());
+
+        let activated = 0;
+        for (const armedSos of due) {
+            try {
+                if (await this.activateArmed(armedSos, {})) {
+                    activated++;
+                }
+            } catch (error) {
+                logger.error('Failed to activate armed SOS', { sosId: armedSos.id, error });
+            }
+        }
+
+        return ok(activated);
+    }
+
+    /**
+     * Turn an armed SOS into an active one and alert the circle
+     * Returns null if the countdown was cancelled (or activated) in the meantime
+     */
+    private async activateArmed(armedSos: SosEvent, context: AuditContext): Promise<SosEvent | null> {
+        const activated = await runInTransaction(async (tx) => {
+            const updated = await sosRepository.activate(armedSos.id, tx);
+            if (!updated) return null;
+
+            await this.enqueueTriggered(updated, context, tx);
+
+            return updated;
         });
 
-        // Record audit log
+        if (activated) {
+            outboxRelay.wake();
+
+            // Always log SOS activations - safety critical
+            logger.info('Armed SOS activated', {
+                correlationId: context.correlationId,
+                userId: activated.userId,
+                sosId: activated.id,
+            });
+        }
+
+        return activated;
+    }
+
+    /**
+     * Audit record, viewer links and circle notifications for an SOS going active
+     * Call with the transaction client of the state change
+     */
+    private async enqueueTriggered(
+        sosEvent: SosEvent,
+        context: AuditContext,
+        tx: TransactionClient
+    ): Promise<void> {
+        const notifiedContacts = (sosEvent.notifiedContacts as unknown as NotifiedContact[] | null) ?? [];
+
         await auditRepository.create({
-            userId,
+            userId: sosEvent.userId,
             action: 'SOS_TRIGGERED',
             resourceType: 'SosEvent',
             resourceId: sosEvent.id,
             metadata: {
-                latitude: input.latitude,
-                longitude: input.longitude,
+                latitude: sosEvent.latitude,
+                longitude: sosEvent.longitude,
                 contactsNotified: notifiedContacts.length,
+                source: context.source ?? 'user',
+                sourceId: context.sourceId,
+                sessionId: sosEvent.sessionId,
             },
             correlationId: context.correlationId,
             ipAddress: context.ipAddress,
             userAgent: context.userAgent,
-        });
-
-        // TODO: Trigger actual notifications (push, SMS, etc.)
-        // This would be handled by a notification service
-
-        // Notify via sockets
-        try {
-            // Get all contacts who are Blink users that follow this user
-            // We notify people who have this user as a contact (Reciprocal isn't strictly required, 
-            // but usually you notify your emergency contacts)
-            // The method getContactsWithUser(userId) gets contacts OF the user.
-            // We want to notify those contacts.
-            const contactsWithUser = await contactService.getContactsWithUser(userId);
-            const recipientIds = contactsWithUser
-                .filter(c => c.contactUserId)
-                .map(c => c.contactUserId!);
-
-            if (recipientIds.length > 0) {
-                socketService.emitToUsers(recipientIds, 'sos:alert', {
-                    userId,
-                    type: 'start', // SOS started
-                    latitude: input.latitude,
-                    longitude: input.longitude,
-                    triggeredAt: sosEvent.triggeredAt,
-                });
-            }
-        } catch (error) {
-            logger.error('Failed to emit SOS socket event', error);
-        }
-
-
-        return ok(sosEvent);
+        }, tx);
+
+        // Viewer links for contacts that cannot use the app
+        await sosShareService.issueTokens(sosEvent.id, notifiedContacts, tx);
+
+        await outboxRepository.enqueue([
+            sosOutboxService.notifyContactsMessage(sosEvent.id, context.correlationId),
+            sosOutboxService.alertMessage({
+                sosEventId: sosEvent.id,
+                userId: sosEvent.userId,
+                type: 'start', // SOS started
+                source: context.source ?? 'user',
+                latitude: sosEvent.latitude,
+                longitude: sosEvent.longitude,
+                triggeredAt: sosEvent.triggeredAt.toISOString(),
+            }),
+        ], tx);
     }
 
     /**
      * Cancel an active SOS event
+     * Cancelling with the duress PIN looks identical to the caller but keeps the SOS live
      */
     async cancelSos(
         userId: string,
         reason: string | undefined,
+        pin: string | undefined,
         context: AuditContext
     ): Promise<Result<SosEvent, DomainError>> {
+        // Cancelling during the countdown closes the SOS before anyone was alerted
+        const armedSos = await sosRepository.findArmedByUserId(userId);
+        if (armedSos) {
+            if (pin && await userService.isDuressPin(userId, pin)) {
+                const activated = await this.activateArmed(armedSos, context);
+                if (activated) return this.cancelUnderDuress(activated, reason, context);
+            } else {
+                const disarmed = await this.disarm(armedSos, reason, context);
+                if (disarmed) return ok(disarmed);
+            }
+            // The countdown elapsed in the meantime - cancel the now active SOS
+        }
+
         const activeSos = await sosRepository.findActiveByUserId(userId);
         if (!activeSos) {
             return fail(new SosNotActiveError());
         }
 
-        // Update SOS event
-        const cancelledSos = await sosRepository.cancel(activeSos.id, reason);
-
-        // Notify via sockets
-        try {
-            const contactsWithUser = await contactService.getContactsWithUser(userId);
-            const recipientIds = contactsWithUser
-                .filter(c => c.contactUserId)
-                .map(c => c.contactUserId!);
+        if (pin && await userService.isDuressPin(userId, pin)) {
+            return this.cancelUnderDuress(activeSos, reason, context);
+        }
 
-            if (recipientIds.length > 0) {
-                socketService.emitToUsers(recipientIds, 'sos:alert', {
+        // Update SOS event, audit record and circle notification atomically
+        const cancelledSos = await runInTransaction(async (tx) => {
+            const cancelled = await sosRepository.cancel(activeSos.id, reason, tx);
+            await sosShareService.revokeTokens(activeSos.id, tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'SOS_CANCELLED',
+                resourceType: 'SosEvent',
+                resourceId: activeSos.id,
+                metadata: { reason },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            await outboxRepository.enqueue([
+                sosOutboxService.alertMessage({
+                    sosEventId: activeSos.id,
                     userId,
                     type: 'end', // SOS ended
                     status: 'cancelled',
                     reason,
-                });
-            }
-        } catch (error) {
-            logger.error('Failed to emit SOS cancel socket event', error);
-        }
+                }),
+            ], tx);
 
+            return cancelled;
+        });
 
-        // Record audit log
-        await auditRepository.create({
-            userId,
-            action: 'SOS_CANCELLED',
-            resourceType: 'SosEvent',
-            resourceId: activeSos.id,
-            metadata: { reason },
+        outboxRelay.wake();
+
+        return ok(cancelledSos);
+    }
+
+    /**
+     * Cancel an armed SOS during its countdown - nobody has been alerted, so nobody is told
+     * Returns null if the countdown elapsed first
+     */
+    private async disarm(
+        armedSos: SosEvent,
+        reason: string | undefined,
+        context: AuditContext
+    ): Promise<SosEvent | null> {
+        return runInTransaction(async (tx) => {
+            const cancelled = await sosRepository.disarm(armedSos.id, reason, tx);
+            if (!cancelled) return null;
+
+            await auditRepository.create({
+                userId: armedSos.userId,
+                action: 'SOS_CANCELLED',
+                resourceType: 'SosEvent',
+                resourceId: armedSos.id,
+                metadata: { reason, duringCountdown: true },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return cancelled;
+        });
+    }
+
+    /**
+     * Move an SOS to the hidden duress state and alert the circle
+     * The caller gets the same response as a normal cancel; nothing is sent to the user's devices
+     */
+    private async cancelUnderDuress(
+        activeSos: SosEvent,
+        reason: string | undefined,
+        context: AuditContext
+    ): Promise<Result<SosEvent, DomainError>> {
+        const notified = (activeSos.notifiedContacts as unknown as NotifiedContact[] | null) ?? [];
+
+        const duressSos = await runInTransaction(async (tx) => {
+            const updated = await sosRepository.markDuress(activeSos.id, reason, tx);
+
+            await auditRepository.create({
+                userId: activeSos.userId,
+                action: 'SOS_DURESS',
+                resourceType: 'SosEvent',
+                resourceId: activeSos.id,
+                metadata: { reason },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            // Responders get an escalated alert instead of the end notice
+            await outboxRepository.enqueue([
+                sosOutboxService.duressMessage({
+                    sosEventId: activeSos.id,
+                    userId: activeSos.userId,
+                    level: activeSos.escalationLevel,
+                    tier: 'contacts',
+                    contacts: notified.map((c) => ({ id: c.id, name: c.name })),
+                    securityNodes: [],
+                    escalatedAt: new Date().toISOString(),
+                }),
+            ], tx);
+
+            return updated;
+        });
+
+        outboxRelay.wake();
+
+        logger.warn('SOS cancelled under duress - escalating silently', {
             correlationId: context.correlationId,
-            ipAddress: context.ipAddress,
-            userAgent: context.userAgent,
+            userId: activeSos.userId,
+            sosId: activeSos.id,
         });
 
-        return ok(cancelledSos);
+        return ok(this.presentToOwner(duressSos));
     }
 
     /**
@@ -201,56 +441,133 @@ class SosService {
             return fail(new SosNotActiveError());
         }
 
-        // Update SOS event
-        const resolvedSos = await sosRepository.resolve(activeSos.id);
-
-        // Notify via sockets
-        try {
-            const contactsWithUser = await contactService.getContactsWithUser(userId);
-            const recipientIds = contactsWithUser
-                .filter(c => c.contactUserId)
-                .map(c => c.contactUserId!);
-
-            if (recipientIds.length > 0) {
-                socketService.emitToUsers(recipientIds, 'sos:alert', {
+        // Update SOS event, audit record and circle notification atomically
+        const resolvedSos = await runInTransaction(async (tx) => {
+            const resolved = await sosRepository.resolve(activeSos.id, tx);
+            await sosShareService.revokeTokens(activeSos.id, tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'SOS_RESOLVED',
+                resourceType: 'SosEvent',
+                resourceId: activeSos.id,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            await outboxRepository.enqueue([
+                sosOutboxService.alertMessage({
+                    sosEventId: activeSos.id,
                     userId,
                     type: 'end', // SOS ended
                     status: 'resolved',
-                });
-            }
-        } catch (error) {
-            logger.error('Failed to emit SOS resolve socket event', error);
+                }),
+            ], tx);
+
+            return resolved;
+        });
+
+        outboxRelay.wake();
+
+        return ok(resolvedSos);
+    }
+
+    /**
+     * Resolve the SOS of someone in the user's circle (e.g. once responders reached them)
+     * This is the way a duress SOS ends: its owner sees it as cancelled and cannot end it.
+     */
+    async resolveCircleSos(
+        userId: string,
+        sosId: string,
+        context: AuditContext
+    ): Promise<Result<SosEvent, DomainError>> {
+        const sosEvent = await sosRepository.findById(sosId);
+        if (!sosEvent) {
+            return fail(new NotFoundError('SosEvent', sosId));
         }
 
+        const contacts = await contactService.getContactsWithUser(sosEvent.userId);
+        const member = contacts.find(c => c.contactUserId === userId);
+        if (!member) {
+            return fail(new ForbiddenError('Only members of the circle can resolve this SOS'));
+        }
 
-        // Record audit log
-        await auditRepository.create({
-            userId,
-            action: 'SOS_RESOLVED',
-            resourceType: 'SosEvent',
-            resourceId: activeSos.id,
-            correlationId: context.correlationId,
-            ipAddress: context.ipAddress,
-            userAgent: context.userAgent,
+        const resolvedSos = await runInTransaction(async (tx) => {
+            const resolved = await sosRepository.resolveByCircle(sosEvent.id, { userId, contactId: member.id }, tx);
+            if (!resolved) return null;
+
+            await sosShareService.revokeTokens(sosEvent.id, tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'SOS_RESOLVED',
+                resourceType: 'SosEvent',
+                resourceId: sosEvent.id,
+                metadata: { ownerId: sosEvent.userId, byCircle: true, wasDuress: sosEvent.status === 'duress' },
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            await outboxRepository.enqueue([
+                sosOutboxService.alertMessage({
+                    sosEventId: sosEvent.id,
+                    userId: sosEvent.userId,
+                    type: 'end', // SOS ended
+                    status: 'resolved',
+                }),
+            ], tx);
+
+            return resolved;
         });
 
+        if (!resolvedSos) {
+            return fail(new SosNotActiveError('This SOS is no longer active'));
+        }
+
+        outboxRelay.wake();
+
         return ok(resolvedSos);
     }
 
     /**
      * Get active SOS for a user
+     * An armed SOS is returned too so the device can restore its countdown
      */
     async getActiveSos(userId: string): Promise<Result<SosEvent | null, DomainError>> {
-        const activeSos = await sosRepository.findActiveByUserId(userId);
+        const activeSos = await sosRepository.findActiveByUserId(userId)
+            ?? await sosRepository.findArmedByUserId(userId);
         return ok(activeSos);
     }
 
     /**
      * Get SOS history for a user
+     * Each event names the session (device) it was triggered from, so a lost or stolen phone stands out
      */
-    async getSosHistory(userId: string): Promise<Result<SosEvent[], DomainError>> {
+    async getSosHistory(userId: string): Promise<Result<SosHistoryEntry[], DomainError>> {
         const history = await sosRepository.findAllByUserId(userId);
-        return ok(history);
+
+        const sessionIds = [...new Set(history.flatMap((sosEvent) => sosEvent.sessionId ?? []))];
+        const sessions = new Map(
+            (await sessionRepository.findByFamilies(sessionIds)).map((session) => [session.family, session])
+        );
+
+        return ok(history.map((sosEvent) => {
+            const session = sosEvent.sessionId ? sessions.get(sosEvent.sessionId) : undefined;
+            return {
+                ...this.presentToOwner(sosEvent),
+                triggeredBy: session
+                    ? {
+                        family: session.family,
+                        deviceName: session.deviceName,
+                        platform: session.platform,
+                        ipAddress: session.ipAddress,
+                        revokedAt: session.revokedAt,
+                    }
+                    : null,
+            };
+        }));
     }
 
     /**
@@ -275,7 +592,7 @@ class SosService {
         }
 
         // Check for active SOS events for these users
-        const activeSosEvents = await sosRepository.findActiveByUserIds(contactUserIds);
+        const activeSosEvents = await sosRepository.findLiveByUserIds(contactUserIds);
 
         // Map to circle status with contact info
         const circleStatus: CircleSosStatus[] = activeSosEvents.map(sos => {
@@ -284,6 +601,7 @@ class SosService {
                 contactUserId: sos.userId,
                 contactName: contact?.name ?? 'Unknown Contact',
                 isActive: true,
+                isDuress: sos.status === 'duress',
                 triggeredAt: sos.triggeredAt,
                 latitude: sos.latitude,
                 longitude: sos.longitude,
@@ -292,15 +610,115 @@ class SosService {
 
         return ok(circleStatus);
     }
+
+    /**
+     * Get the location trail of an SOS event
+     * Visible to the user who triggered it and to the accepted members of their circle
+     */
+    async getSosTrail(userId: string, sosId: string): Promise<Result<SosTrail, DomainError>> {
+        const sosEvent = await sosRepository.findById(sosId);
+        if (!sosEvent) {
+            return fail(new NotFoundError('SosEvent', sosId));
+        }
+
+        if (sosEvent.userId !== userId) {
+            const contacts = await contactService.getContactsWithUser(sosEvent.userId);
+            if (!contacts.some(c => c.contactUserId === userId)) {
+                return fail(new ForbiddenError('Only the user and their circle can view this SOS trail'));
+            }
+        }
+
+        const presented = sosEvent.userId === userId ? this.presentToOwner(sosEvent) : sosEvent;
+
+        // A duress event stops at the cancel for its owner, like any cancelled SOS
+        const locations = (await locationRepository.findBySosEventId(sosEvent.id)).filter(
+            (location) => presented.status !== 'cancelled' || location.timestamp <= presented.cancelledAt!
+        );
+
+        return ok({
+            sosEventId: sosEvent.id,
+            status: presented.status,
+            triggeredAt: sosEvent.triggeredAt,
+            origin: {
+                latitude: sosEvent.latitude,
+                longitude: sosEvent.longitude,
+            },
+            points: locations.map(location => ({
+                latitude: location.latitude,
+                longitude: location.longitude,
+                accuracy: location.accuracy,
+                speed: location.speed,
+                heading: location.heading,
+                timestamp: location.timestamp,
+            })),
+        });
+    }
+
+    /**
+     * How an SOS is shown to the user who triggered it
+     * A duress event looks cancelled - also once it was resolved or expired: the audit trail
+     * stops at the cancel and hides what followed.
+     * The full history stays on the stored event and in the AuditLog table.
+     */
+    private presentToOwner(sosEvent: SosEvent): SosEvent {
+        const auditLog = (sosEvent.auditLog as { action?: string }[] | null) ?? [];
+        const duressIndex = auditLog.findIndex((entry) => entry.action === 'DURESS_CANCEL');
+        if (sosEvent.status !== 'duress' && duressIndex === -1) {
+            return sosEvent;
+        }
+
+        const visibleLog = duressIndex === -1 ? auditLog : [
+            ...auditLog.slice(0, duressIndex),
+            { ...auditLog[duressIndex], action: 'CANCELLED' },
+        ];
+
+        return {
+            ...sosEvent,
+            status: 'cancelled',
+            resolvedAt: null,
+            expiredAt: null,
+            auditLog: visibleLog as Prisma.JsonValue,
+        };
+    }
+}
+
+/**
+ * An SOS in the owner's history with the session that triggered it
+ * `triggeredBy` is null for scheduled triggers and events from before sessions existed
+ */
+export interface SosHistoryEntry extends SosEvent {
+    triggeredBy: {
+        family: string;
+        deviceName: string | null;
+        platform: string | null;
+        ipAddress: string | null;
+        revokedAt: Date | null;
+    } | null;
 }
 
 export interface CircleSosStatus {
     contactUserId: string;
     contactName: string;
     isActive: boolean;
+    isDuress: boolean;
     triggeredAt: Date;
     latitude: number;
     longitude: number;
 }
 
+export interface SosTrail {
+    sosEventId: string;
+    status: string;
+    triggeredAt: Date;
+    origin: { latitude: number; longitude: number };
+    points: {
+        latitude: number;
+        longitude: number;
+        accuracy: number | null;
+        speed: number | null;
+        heading: number | null;
+        timestamp: Date;
+    }[];
+}
+
 export const sosService = new SosService();
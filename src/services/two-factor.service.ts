@@ -0,0 +1,407 @@
+// =============================================================================
+// Blink Engine - Two-Factor Service
+// =============================================================================
+// Optional TOTP second factor: enrolment, recovery codes and login challenges
+
+import bcrypt from 'bcryptjs';
+import { randomInt } from 'crypto';
+import { Result, ok, fail } from '../utils/result.js';
+import {
+    NotFoundError,
+    ConflictError,
+    ValidationError,
+    InvalidCredentialsError,
+    TwoFactorCodeInvalidError,
+    TwoFactorChallengeInvalidError,
+    DomainError,
+} from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
+import { runInTransaction } from '../config/database.js';
+import { userRepository } from '../repositories/user.repository.js';
+import { recoveryCodeRepository } from '../repositories/recovery-code.repository.js';
+import { verificationTokenRepository } from '../repositories/verification-token.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
+import { generateTotpSecret, buildOtpauthUri, matchTotpStep } from '../utils/totp.js';
+import { encrypt, decrypt } from '../utils/encryption.js';
+import { generateToken, hashToken } from '../utils/token.js';
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/**
+ * Where a code was entered - recorded with failed attempts
+ */
+type VerificationStage = 'enrolment' | 'login' | 'disable' | 'recovery_codes';
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: Date | null;
+    recoveryCodesRemaining: number;
+}
+
+interface EnrolmentResult {
+    secret: string;
+    otpauthUri: string;
+}
+
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    challengeToken: string;
+    expiresIn: number; // Seconds
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // No 0/o, 1/l/i
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class TwoFactorService {
+    /**
+     * Whether two-factor authentication is on, and how many recovery codes are left
+     */
+    async getStatus(userId: string): Promise<Result<TwoFactorStatus, DomainError>> {
+        const state = await userRepository.findTwoFactorState(userId);
+        if (!state) {
+            return fail(new NotFoundError('User', userId));
+        }
+
+        return ok({
+            enabled: state.totpEnabledAt !== null,
+            enabledAt: state.totpEnabledAt,
+            recoveryCodesRemaining: state.totpEnabledAt
+                ? await recoveryCodeRepository.countUnused(userId)
+                : 0,
+        });
+    }
+
+    /**
+     * Whether logging in needs a second factor
+     */
+    async isEnabled(userId: string): Promise<boolean> {
+        const state = await userRepository.findTwoFactorState(userId);
+        return Boolean(state?.totpEnabledAt);
+    }
+
+    /**
+     * Start enrolment with a new secret for the user's authenticator app
+     * Nothing changes at login until the first code is confirmed; starting again replaces the secret
+     */
+    async enroll(userId: string, context: AuditContext): Promise<Result<EnrolmentResult, DomainError>> {
+        const user = await userRepository.findById(userId);
+        if (!user) {
+            return fail(new NotFoundError('User', userId));
+        }
+
+        const secret = generateTotpSecret();
+        const stored = await userRepository.setPendingTotpSecret(
+            userId,
+            encrypt(secret, config.twoFactor.encryptionKey)
+        );
+        if (!stored) {
+            return fail(new ConflictError('Two-factor authentication is already enabled'));
+        }
+
+        await auditRepository.create({
+            userId,
+            action: 'TWO_FACTOR_ENROLLMENT_STARTED',
+            resourceType: 'User',
+            resourceId: userId,
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+
+        return ok({
+            secret,
+            otpauthUri: buildOtpauthUri(secret, user.email, config.twoFactor.issuer),
+        });
+    }
+
+    /**
+     * Finish enrolment with a code from the authenticator app
+     * Returns the recovery codes - the only time they are shown
+     */
+    async confirm(
+        userId: string,
+        code: string,
+        context: AuditContext
+    ): Promise<Result<{ recoveryCodes: string[] }, DomainError>> {
+        const state = await userRepository.findTwoFactorState(userId);
+        if (!state) {
+            return fail(new NotFoundError('User', userId));
+        }
+        if (state.totpEnabledAt) {
+            return fail(new ConflictError('Two-factor authentication is already enabled'));
+        }
+        if (!state.totpSecret) {
+            return fail(new ValidationError('Start two-factor enrolment first'));
+        }
+
+        const step = this.matchCode(userId, state.totpSecret, code);
+        if (step === null) {
+            await this.auditFailure(userId, 'enrolment', context);
+            return fail(new TwoFactorCodeInvalidError());
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        const enabled = await runInTransaction(async (tx) => {
+            if (!(await userRepository.enableTwoFactor(userId, step, tx))) return false;
+
+            await recoveryCodeRepository.replaceForUser(userId, recoveryCodes.map((c) => this.hashRecoveryCode(c)), tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'TWO_FACTOR_ENABLED',
+                resourceType: 'User',
+                resourceId: userId,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+
+            return true;
+        });
+
+        if (!enabled) {
+            return fail(new ConflictError('Two-factor authentication is already enabled'));
+        }
+
+        return ok({ recoveryCodes });
+    }
+
+    /**
+     * Turn two-factor authentication off
+     * Needs the password and a current code (or a recovery code)
+     */
+    async disable(
+        userId: string,
+        password: string,
+        code: string,
+        context: AuditContext
+    ): Promise<Result<void, DomainError>> {
+        const user = await userRepository.findByIdWithPassword(userId);
+        if (!user) {
+            return fail(new NotFoundError('User', userId));
+        }
+
+        if (!(await bcrypt.compare(password, user.passwordHash))) {
+            return fail(new InvalidCredentialsError());
+        }
+
+        const verified = await this.verifyCode(userId, code, 'disable', context);
+        if (!verified.success) {
+            return verified;
+        }
+
+        await runInTransaction(async (tx) => {
+            await userRepository.disableTwoFactor(userId, tx);
+            await recoveryCodeRepository.replaceForUser(userId, [], tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'TWO_FACTOR_DISABLED',
+                resourceType: 'User',
+                resourceId: userId,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+        });
+
+        return ok(undefined);
+    }
+
+    /**
+     * Replace the recovery codes (e.g. after running low)
+     */
+    async regenerateRecoveryCodes(
+        userId: string,
+        code: string,
+        context: AuditContext
+    ): Promise<Result<{ recoveryCodes: string[] }, DomainError>> {
+        const verified = await this.verifyCode(userId, code, 'recovery_codes', context);
+        if (!verified.success) {
+            return verified;
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        await runInTransaction(async (tx) => {
+            await recoveryCodeRepository.replaceForUser(userId, recoveryCodes.map((c) => this.hashRecoveryCode(c)), tx);
+
+            await auditRepository.create({
+                userId,
+                action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+                resourceType: 'User',
+                resourceId: userId,
+                correlationId: context.correlationId,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            }, tx);
+        });
+
+        return ok({ recoveryCodes });
+    }
+
+    /**
+     * Issue a login challenge once the password has been accepted
+     * The token is exchanged, together with a code, for the session tokens
+     */
+    async createChallenge(userId: string): Promise<TwoFactorChallenge> {
+        const token = generateToken();
+        const expiresIn = config.twoFactor.challengeTtlMinutes * 60;
+
+        await verificationTokenRepository.create({
+            userId,
+            purpose: 'two_factor_challenge',
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + expiresIn * 1000),
+        });
+
+        return { twoFactorRequired: true, challengeToken: token, expiresIn };
+    }
+
+    /**
+     * Complete a login challenge with a code (or a recovery code)
+     * Returns the user ID; the challenge is single use and dies after too many wrong codes
+     */
+    async redeemChallenge(
+        challengeToken: string,
+        code: string,
+        context: AuditContext
+    ): Promise<Result<string, DomainError>> {
+        const challenge = await verificationTokenRepository.findValidByHash(
+            hashToken(challengeToken),
+            'two_factor_challenge'
+        );
+        if (!challenge) {
+            return fail(new TwoFactorChallengeInvalidError());
+        }
+
+        if (!(await verificationTokenRepository.recordAttempt(challenge.id, config.twoFactor.maxAttempts))) {
+            await verificationTokenRepository.markUsed(challenge.id);
+            return fail(new TwoFactorChallengeInvalidError());
+        }
+
+        const verified = await this.verifyCode(challenge.userId, code, 'login', context);
+        if (!verified.success) {
+            return verified;
+        }
+
+        if (!(await verificationTokenRepository.markUsed(challenge.id))) {
+            return fail(new TwoFactorChallengeInvalidError());
+        }
+
+        return ok(challenge.userId);
+    }
+
+    /**
+     * Check a code from the authenticator app, or a recovery code (used up on success)
+     * Failures are audited
+     */
+    private async verifyCode(
+        userId: string,
+        code: string,
+        stage: VerificationStage,
+        context: AuditContext
+    ): Promise<Result<void, DomainError>> {
+        const state = await userRepository.findTwoFactorState(userId);
+        if (!state?.totpEnabledAt || !state.totpSecret) {
+            return fail(new ValidationError('Two-factor authentication is not enabled'));
+        }
+
+        const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+        if (/^\d{6}$/.test(normalized)) {
+            const step = this.matchCode(userId, state.totpSecret, normalized);
+            // A code is accepted once - a replayed code fails like a wrong one
+            if (step !== null && (await userRepository.recordTotpStep(userId, step))) {
+                return ok(undefined);
+            }
+        } else if (normalized.length === RECOVERY_CODE_LENGTH) {
+            if (await recoveryCodeRepository.consume(userId, this.hashRecoveryCode(normalized))) {
+                await auditRepository.create({
+                    userId,
+                    action: 'TWO_FACTOR_RECOVERY_CODE_USED',
+                    resourceType: 'User',
+                    resourceId: userId,
+                    metadata: { stage },
+                    correlationId: context.correlationId,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent,
+                });
+                return ok(undefined);
+            }
+        }
+
+        await this.auditFailure(userId, stage, context);
+        return fail(new TwoFactorCodeInvalidError());
+    }
+
+    /**
+     * Time step of a TOTP code, or null if it does not match
+     * A secret that cannot be decrypted (e.g. the key was rotated) never matches
+     */
+    private matchCode(userId: string, encryptedSecret: string, code: string): number | null {
+        let secret: string;
+        try {
+            secret = decrypt(encryptedSecret, config.twoFactor.encryptionKey);
+        } catch (error) {
+            logger.error('Failed to decrypt TOTP secret', { userId, error });
+            return null;
+        }
+
+        return matchTotpStep(secret, code);
+    }
+
+    private async auditFailure(userId: string, stage: VerificationStage, context: AuditContext): Promise<void> {
+        await auditRepository.create({
+            userId,
+            action: 'TWO_FACTOR_VERIFICATION_FAILED',
+            resourceType: 'User',
+            resourceId: userId,
+            metadata: { stage },
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+    }
+
+    /**
+     * Random recovery codes, formatted "xxxxx-xxxxx"
+     */
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const chars = Array.from(
+                { length: RECOVERY_CODE_LENGTH },
+                () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+            ).join('');
+            return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+        });
+    }
+
+    /**
+     * Recovery codes are hashed without their separator so either form is accepted
+     */
+    private hashRecoveryCode(code: string): string {
+        return hashToken(code.replace(/[\s-]/g, '').toLowerCase());
+    }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -3,10 +3,15 @@
 // =============================================================================
 // User profile business logic
 
+import bcrypt from 'bcryptjs';
 import { Result, ok, fail } from '../utils/result.js';
-import { NotFoundError, DomainError } from '../domain/errors/domain.errors.js';
+import { NotFoundError, ValidationError, DomainError } from '../domain/errors/domain.errors.js';
+import { config } from '../config/index.js';
 import { userRepository, UserWithoutPassword } from '../repositories/user.repository.js';
+import { auditRepository } from '../repositories/audit.repository.js';
 import { uploadService } from './upload.service.js';
+import { phoneVerificationService } from './phone-verification.service.js';
+import { normalizePhoneNumber, INVALID_PHONE_NUMBER_MESSAGE } from '../utils/phone.js';
 
 // =============================================================================
 // Types
@@ -23,6 +28,12 @@ interface UploadImageResult {
     profileImageUrl: string;
 }
 
+interface AuditContext {
+    correlationId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
 // =============================================================================
 // Service
 // =============================================================================
@@ -51,7 +62,29 @@ class UserService {
             return fail(new NotFoundError('User'));
         }
 
-        const updatedUser = await userRepository.update(userId, input);
+        // Stored in E.164 so it matches however contacts typed it
+        let phoneNumber: string | undefined;
+        if (input.phoneNumber !== undefined) {
+            const normalized = normalizePhoneNumber(input.phoneNumber, config.phone.defaultCountryCode);
+            if (!normalized) {
+                return fail(new ValidationError(INVALID_PHONE_NUMBER_MESSAGE));
+            }
+            phoneNumber = normalized;
+        }
+
+        // A new number has to be verified again
+        const phoneChanged = phoneNumber !== undefined && phoneNumber !== user.phoneNumber;
+
+        const updatedUser = await userRepository.update(userId, {
+            ...input,
+            phoneNumber,
+            ...(phoneChanged ? { isPhoneValidated: false } : {}),
+        });
+
+        if (phoneChanged) {
+            await phoneVerificationService.cancelPending(userId);
+        }
+
         return ok(updatedUser);
     }
 
@@ -93,6 +126,92 @@ class UserService {
 
         return ok({ profileImageUrl: uploadResult.data.url });
     }
+
+    /**
+     * Set the duress PIN
+     * Cancelling an SOS with this PIN looks normal on the device but silently escalates it
+     */
+    async setDuressPin(
+        userId: string,
+        pin: string,
+        password: string,
+        context: AuditContext
+    ): Promise<Result<void, DomainError>> {
+        const verified = await this.verifyPassword(userId, password);
+        if (!verified.success) {
+            return verified;
+        }
+
+        const duressPinHash = await bcrypt.hash(pin, config.security.bcryptRounds);
+        await userRepository.updateDuressPinHash(userId, duressPinHash);
+
+        await auditRepository.create({
+            userId,
+            action: 'DURESS_PIN_SET',
+            resourceType: 'User',
+            resourceId: userId,
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+
+        return ok(undefined);
+    }
+
+    /**
+     * Remove the duress PIN
+     */
+    async removeDuressPin(
+        userId: string,
+        password: string,
+        context: AuditContext
+    ): Promise<Result<void, DomainError>> {
+        const verified = await this.verifyPassword(userId, password);
+        if (!verified.success) {
+            return verified;
+        }
+
+        await userRepository.updateDuressPinHash(userId, null);
+
+        await auditRepository.create({
+            userId,
+            action: 'DURESS_PIN_REMOVED',
+            resourceType: 'User',
+            resourceId: userId,
+            correlationId: context.correlationId,
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+
+        return ok(undefined);
+    }
+
+    /**
+     * Check whether a PIN is the user's duress PIN
+     */
+    async isDuressPin(userId: string, pin: string): Promise<boolean> {
+        const duressPinHash = await userRepository.findDuressPinHash(userId);
+        if (!duressPinHash) return false;
+
+        return bcrypt.compare(pin, duressPinHash);
+    }
+
+    /**
+     * Re-authenticate the user before a sensitive change
+     */
+    private async verifyPassword(userId: string, password: string): Promise<Result<void, DomainError>> {
+        const user = await userRepository.findByIdWithPassword(userId);
+        if (!user) {
+            return fail(new NotFoundError('User'));
+        }
+
+        const isValid = await bcrypt.compare(password, user.passwordHash);
+        if (!isValid) {
+            return fail(new ValidationError('Password is incorrect'));
+        }
+
+        return ok(undefined);
+    }
 }
 
 export const userService = new UserService();
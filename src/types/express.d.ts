@@ -22,6 +22,16 @@ declare global {
              * Authenticated user email (from JWT)
              */
             userEmail?: string;
+
+            /**
+             * Session (refresh token family) the access token was issued for
+             */
+            sessionId?: string;
+
+            /**
+             * Unparsed request body (set by the body parsers)
+             */
+            rawBody?: Buffer;
         }
     }
 }
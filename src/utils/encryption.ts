@@ -0,0 +1,47 @@
+// =============================================================================
+// Blink Engine - Encryption Utilities
+// =============================================================================
+// Authenticated encryption for secrets that must be readable again (e.g. TOTP secrets)
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+/**
+ * Derive a 256-bit key from the configured secret
+ */
+const deriveKey = (secret: string): Buffer => createHash('sha256').update(secret).digest();
+
+/**
+ * Encrypt a value - the result is "v1:<iv>:<tag>:<ciphertext>" (base64url parts)
+ */
+export const encrypt = (plaintext: string, secret: string): string => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [VERSION, iv, tag, ciphertext]
+        .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+        .join(':');
+};
+
+/**
+ * Decrypt a value produced by `encrypt`
+ * Throws if it was tampered with or encrypted with another secret
+ */
+export const decrypt = (encrypted: string, secret: string): string => {
+    const [version, iv, tag, ciphertext] = encrypted.split(':');
+    if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error('Unsupported encrypted value');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64url')),
+        decipher.final(),
+    ]).toString('utf8');
+};
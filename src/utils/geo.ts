@@ -0,0 +1,30 @@
+// =============================================================================
+// Blink Engine - Geo Utilities
+// =============================================================================
+// Distance calculations on WGS84 coordinates
+
+/**
+ * A point on the earth's surface
+ */
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in meters (haversine formula)
+ */
+export const distanceMeters = (from: Coordinates, to: Coordinates): number => {
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLng = toRadians(to.longitude - from.longitude);
+
+    const a =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
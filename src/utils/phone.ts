@@ -0,0 +1,37 @@
+// =============================================================================
+// Blink Engine - Phone Number Utilities
+// =============================================================================
+// E.164 normalization so the same number matches whatever format it was typed in
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Error message for numbers that cannot be normalized
+ */
+export const INVALID_PHONE_NUMBER_MESSAGE = 'Enter the phone number in international format, e.g. +27825550100';
+
+/**
+ * Normalize a phone number to E.164 (e.g. "+27825550100")
+ * Accepts spaces, dashes, dots and brackets, a "+" or "00" international prefix,
+ * or a national number with a trunk "0" when a default country code is given.
+ * Returns null if the number cannot be normalized.
+ */
+export const normalizePhoneNumber = (input: string, defaultCountryCode?: string): string | null => {
+    const trimmed = input.trim();
+    if (!/^[\d\s\-().+]+$/.test(trimmed)) return null;
+
+    const digits = trimmed.replace(/\D/g, '');
+    let e164: string;
+
+    if (trimmed.startsWith('+')) {
+        e164 = `+${digits}`;
+    } else if (digits.startsWith('00')) {
+        e164 = `+${digits.slice(2)}`;
+    } else if (defaultCountryCode) {
+        e164 = `+${defaultCountryCode}${digits.replace(/^0/, '')}`;
+    } else {
+        return null;
+    }
+
+    return E164_PATTERN.test(e164) ? e164 : null;
+};
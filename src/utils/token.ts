@@ -0,0 +1,16 @@
+// =============================================================================
+// Blink Engine - Token Utilities
+// =============================================================================
+// Random single-use tokens that are stored hashed
+
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Random URL-safe token (256 bits)
+ */
+export const generateToken = (): string => randomBytes(32).toString('base64url');
+
+/**
+ * SHA-256 hash of a token - the only form that is persisted
+ */
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,110 @@
+// =============================================================================
+// Blink Engine - TOTP Utilities
+// =============================================================================
+// Time-based one-time passwords (RFC 6238) for authenticator apps
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Encode bytes as unpadded base32 (the format authenticator apps expect)
+ */
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+/**
+ * Decode unpadded base32
+ */
+const base32Decode = (input: string): Buffer => {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 character');
+
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+/**
+ * HOTP code for a counter (RFC 4226)
+ */
+const hotp = (key: Buffer, counter: number): string => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const digest = createHmac('sha1', key).update(message).digest();
+    const offset = digest[digest.length - 1] & 15;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+/**
+ * Random TOTP secret (160 bits, base32)
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/**
+ * otpauth:// URI for enrolling the secret in an authenticator app (usually shown as a QR code)
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Find the time step a code belongs to, allowing `window` steps of clock drift either way
+ * Returns null if the code does not match. Callers should reject steps that were already used.
+ */
+export const matchTotpStep = (secret: string, code: string, window = 1, now = Date.now()): number | null => {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const key = base32Decode(secret);
+    const current = Math.floor(now / 1000 / STEP_SECONDS);
+    const given = Buffer.from(code);
+
+    for (let step = current - window; step <= current + window; step++) {
+        if (timingSafeEqual(Buffer.from(hotp(key, step)), given)) {
+            return step;
+        }
+    }
+
+    return null;
+};
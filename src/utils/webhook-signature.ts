@@ -0,0 +1,40 @@
+// =============================================================================
+// Blink Engine - Webhook Signature Utilities
+// =============================================================================
+// HMAC-SHA256 signatures for inbound provider webhooks
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Headers a signed webhook request carries
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-blink-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-blink-signature';
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<raw body>"
+ * The timestamp (Unix seconds) is signed so a captured request cannot be replayed later
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, rawBody: string | Buffer): string =>
+    createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+
+/**
+ * Check a signature and that its timestamp is within the tolerance of now
+ */
+export const verifyWebhookSignature = (
+    secret: string,
+    timestampHeader: string | undefined,
+    signatureHeader: string | undefined,
+    rawBody: Buffer,
+    toleranceSeconds: number,
+    now: number = Date.now()
+): boolean => {
+    if (!timestampHeader || !signatureHeader || !/^\d+$/.test(timestampHeader)) return false;
+
+    const timestamp = parseInt(timestampHeader, 10);
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody), 'hex');
+    const provided = Buffer.from(signatureHeader.replace(/^sha256=/, ''), 'hex');
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
@@ -0,0 +1,38 @@
+// =============================================================================
+// Blink Engine - Check-in Worker
+// =============================================================================
+// Triggers an SOS for check-ins that passed their due time unconfirmed
+
+import { logger } from '../utils/logger.js';
+import { checkInService } from '../services/check-in.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHECK_INTERVAL_MS = 10000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class CheckInWorker extends IntervalWorker {
+    constructor() {
+        super('Check-in worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const result = await checkInService.processMissed();
+        if (!result.success) {
+            logger.error('Check-in run failed', { error: result.error.message });
+            return;
+        }
+
+        if (result.data > 0) {
+            logger.info('Check-in run complete', { missed: result.data });
+        }
+    }
+}
+
+export const checkInWorker = new CheckInWorker();
@@ -0,0 +1,32 @@
+// =============================================================================
+// Blink Engine - Delivery Worker
+// =============================================================================
+// Attempts queued push, SMS and email deliveries, SOS deliveries first
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { deliveryQueueService } from '../services/delivery-queue.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class DeliveryWorker extends IntervalWorker {
+    constructor() {
+        super('Delivery worker', () => config.delivery.pollIntervalMs);
+    }
+
+    /**
+     * Attempt one batch of due jobs
+     * Enqueueing wakes the worker so new messages go out without waiting for the interval
+     */
+    protected async run(): Promise<void> {
+        const result = await deliveryQueueService.processDue();
+        if (!result.success) {
+            logger.error('Delivery run failed', { error: result.error.message });
+        }
+    }
+}
+
+export const deliveryWorker = new DeliveryWorker();
@@ -0,0 +1,41 @@
+// =============================================================================
+// Blink Engine - Worker Registry
+// =============================================================================
+// Central registration of background workers
+
+import { outboxRelay } from './outbox-relay.worker.js';
+import { outboxCleanupWorker } from './outbox-cleanup.worker.js';
+import { deliveryWorker } from './delivery.worker.js';
+import { checkInWorker } from './check-in.worker.js';
+import { journeyWorker } from './journey.worker.js';
+import { realtimeRetryWorker } from './realtime-retry.worker.js';
+import { sosCountdownWorker } from './sos-countdown.worker.js';
+import { sosEscalationWorker } from './sos-escalation.worker.js';
+import { sosExpiryWorker } from './sos-expiry.worker.js';
+import { IntervalWorker } from './interval.worker.js';
+
+const workers: IntervalWorker[] = [
+    outboxRelay,
+    outboxCleanupWorker,
+    deliveryWorker,
+    sosCountdownWorker,
+    sosEscalationWorker,
+    sosExpiryWorker,
+    checkInWorker,
+    journeyWorker,
+    realtimeRetryWorker,
+];
+
+/**
+ * Start all background workers
+ */
+export const startWorkers = (): void => {
+    workers.forEach((worker) => worker.start());
+};
+
+/**
+ * Stop all background workers
+ */
+export const stopWorkers = (): void => {
+    workers.forEach((worker) => worker.stop());
+};
@@ -0,0 +1,78 @@
+// =============================================================================
+// Blink Engine - Interval Worker
+// =============================================================================
+// Base class for observable polling workers backed by Postgres state
+
+import { logger } from '../utils/logger.js';
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+/**
+ * Runs `run()` on a fixed interval, never overlapping with itself
+ * Work must be derived from durable state so a restart simply resumes it
+ */
+export abstract class IntervalWorker {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(
+        protected readonly name: string,
+        private readonly getIntervalMs: () => number
+    ) { }
+
+    /**
+     * Process one batch of work
+     */
+    protected abstract run(): Promise<void>;
+
+    /**
+     * Start polling
+     */
+    start(): void {
+        if (this.timer) return;
+
+        const intervalMs = this.getIntervalMs();
+        this.timer = setInterval(() => void this.tick(), intervalMs);
+        logger.info(`${this.name} started`, { intervalMs });
+
+        // Pick up anything left over from before a restart
+        this.wake();
+    }
+
+    /**
+     * Stop polling (an in-flight run is allowed to finish)
+     */
+    stop(): void {
+        if (!this.timer) return;
+
+        clearInterval(this.timer);
+        this.timer = null;
+        logger.info(`${this.name} stopped`);
+    }
+
+    /**
+     * Run now instead of waiting for the next interval
+     */
+    wake(): void {
+        if (!this.timer) return;
+        setImmediate(() => void this.tick());
+    }
+
+    /**
+     * Run once unless a previous run is still in progress
+     */
+    async tick(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        try {
+            await this.run();
+        } catch (error) {
+            logger.error(`${this.name} run failed`, error);
+        } finally {
+            this.running = false;
+        }
+    }
+}
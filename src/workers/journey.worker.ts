@@ -0,0 +1,38 @@
+// =============================================================================
+// Blink Engine - Journey Worker
+// =============================================================================
+// Alerts watchers of journeys that are overdue or have stopped moving
+
+import { logger } from '../utils/logger.js';
+import { journeyService } from '../services/journey.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHECK_INTERVAL_MS = 30000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class JourneyWorker extends IntervalWorker {
+    constructor() {
+        super('Journey worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const result = await journeyService.checkJourneys();
+        if (!result.success) {
+            logger.error('Journey check failed', { error: result.error.message });
+            return;
+        }
+
+        if (result.data > 0) {
+            logger.info('Journey check complete', { alerts: result.data });
+        }
+    }
+}
+
+export const journeyWorker = new JourneyWorker();
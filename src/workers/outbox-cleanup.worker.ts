@@ -0,0 +1,36 @@
+// =============================================================================
+// Blink Engine - Outbox Cleanup Worker
+// =============================================================================
+// Periodically deletes delivered outbox messages past their retention
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { outboxRepository } from '../repositories/outbox.repository.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class OutboxCleanupWorker extends IntervalWorker {
+    constructor() {
+        super('Outbox cleanup worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const cutoff = new Date(Date.now() - config.outbox.retentionHours * 60 * 60 * 1000);
+        const deleted = await outboxRepository.deleteDeliveredBefore(cutoff);
+
+        if (deleted > 0) {
+            logger.info('Outbox cleanup run complete', { deleted });
+        }
+    }
+}
+
+export const outboxCleanupWorker = new OutboxCleanupWorker();
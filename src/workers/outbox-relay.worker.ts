@@ -0,0 +1,105 @@
+// =============================================================================
+// Blink Engine - Outbox Relay Worker
+// =============================================================================
+// Delivers pending outbox messages at least once, with retry and backoff
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { Result } from '../utils/result.js';
+import { DomainError } from '../domain/errors/domain.errors.js';
+import { outboxRepository, OutboxMessage } from '../repositories/outbox.repository.js';
+import { sosOutboxService, SOS_TOPICS } from '../services/sos-outbox.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type OutboxHandler = (message: OutboxMessage) => Promise<Result<void, DomainError>>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LOCK_MS = 60000; // A claimed message is reclaimable after 1 minute
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class OutboxRelayWorker extends IntervalWorker {
+    private readonly handlers = new Map<string, OutboxHandler>(
+        Object.values(SOS_TOPICS).map((topic) => [topic, (message) => sosOutboxService.handle(message)])
+    );
+
+    constructor() {
+        super('Outbox relay', () => config.outbox.pollIntervalMs);
+    }
+
+    /**
+     * Claim and process one batch of due messages
+     * Callers can `wake()` the relay right after enqueueing safety-critical messages
+     */
+    protected async run(): Promise<void> {
+        const messages = await outboxRepository.claimDue(config.outbox.batchSize, LOCK_MS);
+        for (const message of messages) {
+            await this.process(message);
+        }
+    }
+
+    /**
+     * Run the handler for a message and record the outcome
+     */
+    private async process(message: OutboxMessage): Promise<void> {
+        const handler = this.handlers.get(message.topic);
+
+        let error: string | null = null;
+        if (!handler) {
+            error = `No handler registered for topic '${message.topic}'`;
+        } else {
+            try {
+                const result = await handler(message);
+                if (!result.success) {
+                    error = result.error.message;
+                }
+            } catch (thrown) {
+                error = thrown instanceof Error ? thrown.message : String(thrown);
+            }
+        }
+
+        if (!error) {
+            await outboxRepository.markDelivered(message.id);
+            logger.debug('Outbox message delivered', {
+                messageId: message.id,
+                topic: message.topic,
+                attempts: message.attempts,
+            });
+            return;
+        }
+
+        if (!handler || message.attempts >= config.outbox.maxAttempts) {
+            await outboxRepository.markFailed(message.id, error);
+            logger.error('Outbox message failed permanently', {
+                messageId: message.id,
+                topic: message.topic,
+                attempts: message.attempts,
+                error,
+            });
+            return;
+        }
+
+        const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (message.attempts - 1), MAX_RETRY_DELAY_MS);
+        await outboxRepository.scheduleRetry(message.id, error, new Date(Date.now() + delay));
+        logger.warn('Outbox message delivery failed, retry scheduled', {
+            messageId: message.id,
+            topic: message.topic,
+            attempts: message.attempts,
+            retryInMs: delay,
+            error,
+        });
+    }
+}
+
+export const outboxRelay = new OutboxRelayWorker();
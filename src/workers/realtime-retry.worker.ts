@@ -0,0 +1,33 @@
+// =============================================================================
+// Blink Engine - Realtime Retry Worker
+// =============================================================================
+// Re-sends safety-critical socket events until a device acknowledges them
+
+import { logger } from '../utils/logger.js';
+import { socketService } from '../services/socket.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHECK_INTERVAL_MS = 5000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class RealtimeRetryWorker extends IntervalWorker {
+    constructor() {
+        super('Realtime retry worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const retried = await socketService.retryUnacknowledged();
+        if (retried > 0) {
+            logger.debug('Unacknowledged realtime events re-sent', { retried });
+        }
+    }
+}
+
+export const realtimeRetryWorker = new RealtimeRetryWorker();
@@ -0,0 +1,40 @@
+// =============================================================================
+// Blink Engine - SOS Countdown Worker
+// =============================================================================
+// Activates armed SOS events once their pre-alarm countdown has elapsed
+
+import { logger } from '../utils/logger.js';
+import { sosService } from '../services/sos.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// The deadline lives in the database, so a countdown that elapsed while the
+// server was down fires on the first run after a restart
+const CHECK_INTERVAL_MS = 1000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class SosCountdownWorker extends IntervalWorker {
+    constructor() {
+        super('SOS countdown worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const result = await sosService.activateDueArmed();
+        if (!result.success) {
+            logger.error('SOS countdown run failed', { error: result.error.message });
+            return;
+        }
+
+        if (result.data > 0) {
+            logger.info('SOS countdown run complete', { activated: result.data });
+        }
+    }
+}
+
+export const sosCountdownWorker = new SosCountdownWorker();
@@ -0,0 +1,38 @@
+// =============================================================================
+// Blink Engine - SOS Escalation Worker
+// =============================================================================
+// Periodically escalates SOS events nobody has acknowledged
+
+import { logger } from '../utils/logger.js';
+import { sosEscalationService } from '../services/sos-escalation.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHECK_INTERVAL_MS = 15000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class SosEscalationWorker extends IntervalWorker {
+    constructor() {
+        super('SOS escalation worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const result = await sosEscalationService.escalateDue();
+        if (!result.success) {
+            logger.error('SOS escalation run failed', { error: result.error.message });
+            return;
+        }
+
+        if (result.data > 0) {
+            logger.info('SOS escalation run complete', { escalated: result.data });
+        }
+    }
+}
+
+export const sosEscalationWorker = new SosEscalationWorker();
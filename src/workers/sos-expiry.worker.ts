@@ -0,0 +1,38 @@
+// =============================================================================
+// Blink Engine - SOS Expiry Worker
+// =============================================================================
+// Periodically expires SOS events that outlived their TTL
+
+import { logger } from '../utils/logger.js';
+import { sosExpiryService } from '../services/sos-expiry.service.js';
+import { IntervalWorker } from './interval.worker.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHECK_INTERVAL_MS = 60000;
+
+// =============================================================================
+// Worker
+// =============================================================================
+
+class SosExpiryWorker extends IntervalWorker {
+    constructor() {
+        super('SOS expiry worker', () => CHECK_INTERVAL_MS);
+    }
+
+    protected async run(): Promise<void> {
+        const result = await sosExpiryService.expireStale();
+        if (!result.success) {
+            logger.error('SOS expiry run failed', { error: result.error.message });
+            return;
+        }
+
+        if (result.data > 0) {
+            logger.info('SOS expiry run complete', { expired: result.data });
+        }
+    }
+}
+
+export const sosExpiryWorker = new SosExpiryWorker();
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+    decideDelivery,
+    isWithinQuietHours,
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    NotificationPreferences,
+} from '../../../src/domain/notification-policy.js';
+
+const at = (iso: string) => new Date(iso);
+
+const preferences = (overrides: Partial<NotificationPreferences> = {}): NotificationPreferences => ({
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...overrides,
+});
+
+describe('isWithinQuietHours', () => {
+    const overnight = { start: '22:00', end: '07:00' };
+
+    it('covers both sides of midnight for overnight windows', () => {
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-01T22:00:00Z'))).toBe(true);
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-01T23:59:00Z'))).toBe(true);
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-02T00:00:00Z'))).toBe(true);
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-02T06:59:00Z'))).toBe(true);
+    });
+
+    it('ends overnight windows at the end time', () => {
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-02T07:00:00Z'))).toBe(false);
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-02T12:00:00Z'))).toBe(false);
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-02T21:59:00Z'))).toBe(false);
+    });
+
+    it('handles windows within one day', () => {
+        const afternoon = { start: '13:00', end: '15:30' };
+
+        expect(isWithinQuietHours(afternoon, 'UTC', at('2026-01-01T12:59:00Z'))).toBe(false);
+        expect(isWithinQuietHours(afternoon, 'UTC', at('2026-01-01T13:00:00Z'))).toBe(true);
+        expect(isWithinQuietHours(afternoon, 'UTC', at('2026-01-01T15:29:00Z'))).toBe(true);
+        expect(isWithinQuietHours(afternoon, 'UTC', at('2026-01-01T15:30:00Z'))).toBe(false);
+    });
+
+    it('uses the local time of the time zone', () => {
+        // 21:30 UTC is 23:30 in Johannesburg (UTC+2)
+        expect(isWithinQuietHours(overnight, 'Africa/Johannesburg', at('2026-01-01T21:30:00Z'))).toBe(true);
+        expect(isWithinQuietHours(overnight, 'UTC', at('2026-01-01T21:30:00Z'))).toBe(false);
+    });
+
+    it('treats equal or invalid times as no quiet hours', () => {
+        expect(isWithinQuietHours({ start: '22:00', end: '22:00' }, 'UTC', at('2026-01-01T22:00:00Z'))).toBe(false);
+        expect(isWithinQuietHours({ start: '25:00', end: '07:00' }, 'UTC', at('2026-01-01T02:00:00Z'))).toBe(false);
+    });
+});
+
+describe('decideDelivery', () => {
+    const night = at('2026-01-01T23:00:00Z');
+    const day = at('2026-01-01T12:00:00Z');
+    const quiet = preferences({ quietHours: { start: '22:00', end: '07:00' } });
+
+    it('uses the channels chosen for the event type', () => {
+        expect(decideDelivery(preferences(), { eventType: 'journey_alert', subjectMuted: false, now: day }))
+            .toEqual({ channels: ['push', 'sms'], suppressedBy: null });
+    });
+
+    it('suppresses events about a muted contact', () => {
+        expect(decideDelivery(preferences(), { eventType: 'place_enter', subjectMuted: true, now: day }))
+            .toEqual({ channels: [], suppressedBy: 'mute' });
+    });
+
+    it('suppresses events during quiet hours', () => {
+        expect(decideDelivery(quiet, { eventType: 'place_enter', subjectMuted: false, now: night }))
+            .toEqual({ channels: [], suppressedBy: 'quiet_hours' });
+        expect(decideDelivery(quiet, { eventType: 'place_enter', subjectMuted: false, now: day }))
+            .toEqual({ channels: ['push'], suppressedBy: null });
+    });
+
+    it('suppresses event types with every channel turned off', () => {
+        const off = preferences({ channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, place_exit: [] } });
+
+        expect(decideDelivery(off, { eventType: 'place_exit', subjectMuted: false, now: day }))
+            .toEqual({ channels: [], suppressedBy: 'preferences' });
+    });
+
+    it.each(['sos_alert', 'sos_escalated'] as const)('delivers %s on every channel despite mutes and quiet hours', (eventType) => {
+        const off = preferences({
+            quietHours: { start: '22:00', end: '07:00' },
+            channels: {
+                invite_received: [],
+                invite_accepted: [],
+                place_enter: [],
+                place_exit: [],
+                journey_update: [],
+                journey_alert: [],
+            },
+        });
+
+        expect(decideDelivery(off, { eventType, subjectMuted: true, now: night }))
+            .toEqual({ channels: ['push', 'sms', 'email'], suppressedBy: null });
+    });
+});
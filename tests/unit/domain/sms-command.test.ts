@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseSmsCommand, redactSmsBody } from '../../../src/domain/sms-command.js';
+
+describe('parseSmsCommand', () => {
+    it('reads an SOS with or without a position', () => {
+        expect(parseSmsCommand('SOS')).toEqual({ type: 'sos' });
+        expect(parseSmsCommand('  sos -33.9249,18.4241 ')).toEqual({ type: 'sos', latitude: -33.9249, longitude: 18.4241 });
+        expect(parseSmsCommand('Sos -33.9249 18.4241')).toEqual({ type: 'sos', latitude: -33.9249, longitude: 18.4241 });
+    });
+
+    it('still sends an SOS whose position cannot be read', () => {
+        expect(parseSmsCommand('SOS near the station')).toEqual({ type: 'sos' });
+        expect(parseSmsCommand('SOS 95,18.4241')).toEqual({ type: 'sos' });
+        expect(parseSmsCommand('SOS -33.9249,181')).toEqual({ type: 'sos' });
+    });
+
+    it('reads SAFE only on its own', () => {
+        expect(parseSmsCommand('safe')).toEqual({ type: 'safe' });
+        expect(parseSmsCommand('SAFE now')).toEqual({ type: 'unknown' });
+    });
+
+    it('reads CANCEL with an optional PIN', () => {
+        expect(parseSmsCommand('CANCEL')).toEqual({ type: 'cancel' });
+        expect(parseSmsCommand('cancel 1234')).toEqual({ type: 'cancel', pin: '1234' });
+        expect(parseSmsCommand('CANCEL 12')).toEqual({ type: 'unknown' });
+        expect(parseSmsCommand('CANCEL please')).toEqual({ type: 'unknown' });
+    });
+
+    it('treats anything else as unknown', () => {
+        expect(parseSmsCommand('')).toEqual({ type: 'unknown' });
+        expect(parseSmsCommand('HELP')).toEqual({ type: 'unknown' });
+        expect(parseSmsCommand('I am fine')).toEqual({ type: 'unknown' });
+    });
+});
+
+describe('redactSmsBody', () => {
+    it('masks the PIN after CANCEL', () => {
+        expect(redactSmsBody('cancel 123456')).toBe('cancel ****');
+        expect(redactSmsBody('SOS -33.9249,18.4241')).toBe('SOS -33.9249,18.4241');
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NextFunction, Request, Response } from 'express';
+import { authenticate, generateAccessToken } from '../../../src/middleware/auth.middleware.js';
+import { TokenInvalidError, UnauthorizedError } from '../../../src/domain/errors/domain.errors.js';
+
+const sessions = vi.hoisted(() => ({ findByFamily: vi.fn() }));
+
+vi.mock('../../../src/repositories/session.repository.js', () => ({
+    sessionRepository: sessions,
+}));
+
+const run = async (token?: string) => {
+    const req = {
+        headers: token ? { authorization: `Bearer ${token}` } : {},
+    } as Request;
+    const next = vi.fn() as unknown as NextFunction & ReturnType<typeof vi.fn>;
+
+    await authenticate(req, {} as Response, next);
+    return { req, next };
+};
+
+describe('authenticate', () => {
+    beforeEach(() => {
+        sessions.findByFamily.mockReset();
+    });
+
+    it('attaches the identity of a token whose session is signed in', async () => {
+        sessions.findByFamily.mockResolvedValue({ family: 'family-1', revokedAt: null });
+
+        const { req, next } = await run(generateAccessToken('user-1', 'user@example.com', 'family-1'));
+
+        expect(next).toHaveBeenCalledWith();
+        expect(req.userId).toBe('user-1');
+        expect(req.sessionId).toBe('family-1');
+        expect(sessions.findByFamily).toHaveBeenCalledWith('family-1');
+    });
+
+    it('rejects a token whose session was revoked', async () => {
+        sessions.findByFamily.mockResolvedValue({ family: 'family-1', revokedAt: new Date() });
+
+        const { req, next } = await run(generateAccessToken('user-1', 'user@example.com', 'family-1'));
+
+        expect(next).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+        expect(req.userId).toBeUndefined();
+    });
+
+    it('passes errors to next rather than throwing', async () => {
+        const missing = await run();
+        expect(missing.next).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+
+        const invalid = await run('not-a-token');
+        expect(invalid.next).toHaveBeenCalledWith(expect.any(TokenInvalidError));
+        expect(sessions.findByFamily).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SosAlreadyActiveError } from '../../../src/domain/errors/domain.errors.js';
+import type { CheckIn } from '../../../src/repositories/check-in.repository.js';
+
+// Check-ins keyed by ID; `findDue` and `markMissed` honour the pending status like the repository
+const checkIns = vi.hoisted(() => new Map<string, CheckIn>());
+const mocks = vi.hoisted(() => ({
+    triggerSos: vi.fn(),
+    findLatestLocation: vi.fn(),
+    findLiveByUserId: vi.fn(),
+    findArmedByUserId: vi.fn(),
+    createAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/repositories/check-in.repository.js', () => ({
+    checkInRepository: {
+        findDue: async (now: Date) =>
+            [...checkIns.values()].filter((c) => c.status === 'pending' && c.dueAt <= now),
+        markMissed: async (id: string, sosEventId: string) => {
+            const checkIn = checkIns.get(id);
+            if (checkIn?.status !== 'pending') return null;
+            Object.assign(checkIn, { status: 'missed', missedAt: new Date(), sosEventId });
+            return checkIn;
+        },
+    },
+}));
+vi.mock('../../../src/repositories/location.repository.js', () => ({
+    locationRepository: { findLatestByUserId: mocks.findLatestLocation },
+}));
+vi.mock('../../../src/repositories/sos.repository.js', () => ({
+    sosRepository: { findLiveByUserId: mocks.findLiveByUserId, findArmedByUserId: mocks.findArmedByUserId },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/services/sos.service.js', () => ({
+    sosService: { triggerSos: mocks.triggerSos },
+}));
+
+const { checkInService } = await import('../../../src/services/check-in.service.js');
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+const checkIn = (overrides: Partial<CheckIn> = {}): CheckIn => ({
+    id: 'check-in-1',
+    userId: 'user-1',
+    dueAt: new Date(NOW.getTime() - 60 * 1000),
+    latitude: -33.9249,
+    longitude: 18.4241,
+    note: null,
+    status: 'pending',
+    confirmedAt: null,
+    cancelledAt: null,
+    missedAt: null,
+    sosEventId: null,
+    createdAt: new Date(NOW.getTime() - 60 * 60 * 1000),
+    updatedAt: NOW,
+    ...overrides,
+});
+
+describe('checkInService.processMissed', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        checkIns.clear();
+        mocks.findLatestLocation.mockResolvedValue(null);
+        mocks.triggerSos.mockResolvedValue({ success: true, data: { id: 'sos-1' } });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('triggers one SOS for a missed check-in, keyed by the check-in', async () => {
+        checkIns.set('check-in-1', checkIn());
+
+        const result = await checkInService.processMissed();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(mocks.triggerSos).toHaveBeenCalledTimes(1);
+        expect(mocks.triggerSos).toHaveBeenCalledWith('user-1', {
+            latitude: -33.9249,
+            longitude: 18.4241,
+            idempotencyKey: 'check-in:check-in-1',
+        }, {
+            source: 'check_in',
+            sourceId: 'check-in-1',
+        });
+        expect(checkIns.get('check-in-1')).toMatchObject({ status: 'missed', sosEventId: 'sos-1' });
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+            action: 'CHECK_IN_MISSED',
+            resourceId: 'check-in-1',
+            metadata: { sosEventId: 'sos-1' },
+        }));
+    });
+
+    it('does not trigger again on the next sweep', async () => {
+        checkIns.set('check-in-1', checkIn());
+
+        await checkInService.processMissed();
+        const second = await checkInService.processMissed();
+
+        expect(second).toEqual({ success: true, data: 0 });
+        expect(mocks.triggerSos).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves check-ins that are not due yet alone', async () => {
+        checkIns.set('check-in-1', checkIn({ dueAt: new Date(NOW.getTime() + 60 * 1000) }));
+
+        const result = await checkInService.processMissed();
+
+        expect(result).toEqual({ success: true, data: 0 });
+        expect(mocks.triggerSos).not.toHaveBeenCalled();
+    });
+
+    it('uses a location reported after the check-in was scheduled', async () => {
+        checkIns.set('check-in-1', checkIn());
+        mocks.findLatestLocation.mockResolvedValue({ latitude: -26.2041, longitude: 28.0473, timestamp: NOW });
+
+        await checkInService.processMissed();
+
+        expect(mocks.triggerSos).toHaveBeenCalledWith('user-1', expect.objectContaining({
+            latitude: -26.2041,
+            longitude: 28.0473,
+        }), expect.anything());
+    });
+
+    it('links the check-in to an SOS that is already running', async () => {
+        checkIns.set('check-in-1', checkIn());
+        mocks.triggerSos.mockResolvedValue({ success: false, error: new SosAlreadyActiveError() });
+        mocks.findLiveByUserId.mockResolvedValue({ id: 'sos-0' });
+
+        const result = await checkInService.processMissed();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(checkIns.get('check-in-1')).toMatchObject({ status: 'missed', sosEventId: 'sos-0' });
+    });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { DeliveryJob } from '../../../src/repositories/delivery-job.repository.js';
+import type { DeliveryDeadLetter } from '../../../src/repositories/delivery-dead-letter.repository.js';
+
+const mocks = vi.hoisted(() => ({
+    send: vi.fn(),
+    claimDue: vi.fn(),
+    markCompleted: vi.fn(),
+    scheduleRetry: vi.fn(),
+    markDead: vi.fn(),
+    requeueDead: vi.fn(),
+    createFromJob: vi.fn(),
+    findDeadLetter: vi.fn(),
+    claimForReplay: vi.fn(),
+    setReplayJob: vi.fn(),
+    createDelivery: vi.fn(),
+    addAuditEntries: vi.fn(),
+    createAudit: vi.fn(),
+    wake: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database.js', () => ({
+    runInTransaction: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+}));
+vi.mock('../../../src/services/notification.service.js', () => ({
+    notificationService: { send: mocks.send },
+}));
+vi.mock('../../../src/repositories/delivery-job.repository.js', () => ({
+    deliveryJobRepository: {
+        claimDue: mocks.claimDue,
+        markCompleted: mocks.markCompleted,
+        scheduleRetry: mocks.scheduleRetry,
+        markDead: mocks.markDead,
+        requeueDead: mocks.requeueDead,
+    },
+}));
+vi.mock('../../../src/repositories/delivery-dead-letter.repository.js', () => ({
+    deliveryDeadLetterRepository: {
+        createFromJob: mocks.createFromJob,
+        findById: mocks.findDeadLetter,
+        claimForReplay: mocks.claimForReplay,
+        setReplayJob: mocks.setReplayJob,
+    },
+}));
+vi.mock('../../../src/repositories/notification-delivery.repository.js', () => ({
+    notificationDeliveryRepository: { create: mocks.createDelivery },
+}));
+vi.mock('../../../src/repositories/sos.repository.js', () => ({
+    sosRepository: { addAuditEntries: mocks.addAuditEntries },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/workers/delivery.worker.js', () => ({
+    deliveryWorker: { wake: mocks.wake },
+}));
+
+const { deliveryQueueService } = await import('../../../src/services/delivery-queue.service.js');
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const job = (overrides: Partial<DeliveryJob> = {}): DeliveryJob => ({
+    id: 'job-1',
+    sosEventId: 'sos-1',
+    contactId: 'contact-1',
+    channel: 'sms',
+    destination: '+27825550100',
+    message: { title: 'SOS Alert', body: 'Help' },
+    priority: 'critical',
+    dedupKey: 'sos:sos-1:contact-1:sms',
+    status: 'processing',
+    attempts: 1,
+    maxAttempts: 15,
+    nextAttemptAt: NOW,
+    lockedUntil: null,
+    lastError: null,
+    completedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+});
+
+const deadLetter = (overrides: Partial<DeliveryDeadLetter> = {}): DeliveryDeadLetter => ({
+    id: 'dead-1',
+    jobId: 'job-1',
+    sosEventId: 'sos-1',
+    contactId: 'contact-1',
+    channel: 'sms',
+    destination: '+27825550100',
+    message: { title: 'SOS Alert', body: 'Help' },
+    priority: 'critical',
+    dedupKey: 'sos:sos-1:contact-1:sms',
+    attempts: 15,
+    lastError: 'Provider down',
+    replayedAt: null,
+    replayJobId: null,
+    createdAt: NOW,
+    ...overrides,
+});
+
+const processOne = async (claimed: DeliveryJob) => {
+    mocks.claimDue.mockResolvedValueOnce([claimed]);
+    await deliveryQueueService.processDue();
+};
+
+describe('deliveryQueueService.processDue', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        mocks.send.mockResolvedValue({ status: 'failed', error: 'Provider down' });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('completes a job once it is sent', async () => {
+        mocks.send.mockResolvedValue({ status: 'sent', providerMessageId: 'msg-1' });
+
+        await processOne(job());
+
+        expect(mocks.markCompleted).toHaveBeenCalledWith('job-1', 'sent', undefined);
+        expect(mocks.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ['critical', 1, 2000],
+        ['critical', 3, 8000],
+        ['critical', 10, 60 * 1000],
+        ['normal', 1, 30 * 1000],
+        ['normal', 4, 4 * 60 * 1000],
+        ['normal', 10, 60 * 60 * 1000],
+    ])('backs %s jobs off exponentially (attempt %i waits %i ms)', async (priority, attempts, delay) => {
+        await processOne(job({ priority, attempts }));
+
+        expect(mocks.scheduleRetry).toHaveBeenCalledWith('job-1', 'Provider down', new Date(NOW.getTime() + delay));
+        expect(mocks.markDead).not.toHaveBeenCalled();
+    });
+
+    it('dead-letters a job on its last attempt and keeps it in dead status', async () => {
+        const last = job({ attempts: 15, maxAttempts: 15 });
+
+        await processOne(last);
+
+        expect(mocks.createFromJob).toHaveBeenCalledWith(last, 'Provider down', {});
+        expect(mocks.markDead).toHaveBeenCalledWith('job-1', 'Provider down', {});
+        expect(mocks.scheduleRetry).not.toHaveBeenCalled();
+        expect(mocks.addAuditEntries).toHaveBeenCalledWith('sos-1', [
+            expect.objectContaining({ action: 'CONTACT_NOTIFICATION_DEAD_LETTERED', attempt: 15 }),
+        ], {});
+    });
+});
+
+describe('deliveryQueueService.replayDeadLetter', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.findDeadLetter.mockResolvedValue(deadLetter());
+        mocks.claimForReplay.mockResolvedValue(true);
+        mocks.requeueDead.mockResolvedValue(job({ status: 'pending', attempts: 0 }));
+        mocks.setReplayJob.mockImplementation(async (id: string, replayJobId: string) =>
+            deadLetter({ id, replayJobId, replayedAt: NOW }));
+    });
+
+    it('queues the dead job again with a fresh set of attempts', async () => {
+        const result = await deliveryQueueService.replayDeadLetter('dead-1', {});
+
+        expect(result.success).toBe(true);
+        expect(mocks.requeueDead).toHaveBeenCalledWith('job-1', 15, {});
+        expect(mocks.setReplayJob).toHaveBeenCalledWith('dead-1', 'job-1', {});
+        expect(mocks.addAuditEntries).toHaveBeenCalledWith('sos-1', [
+            expect.objectContaining({ action: 'CONTACT_NOTIFICATION_REPLAYED', jobId: 'job-1' }),
+        ], {});
+        expect(mocks.wake).toHaveBeenCalled();
+    });
+
+    it('refuses a dead letter that was already replayed', async () => {
+        mocks.claimForReplay.mockResolvedValue(false);
+
+        const result = await deliveryQueueService.replayDeadLetter('dead-1', {});
+
+        expect(result.success).toBe(false);
+        expect(mocks.requeueDead).not.toHaveBeenCalled();
+        expect(mocks.wake).not.toHaveBeenCalled();
+    });
+
+    it('returns not found for an unknown dead letter', async () => {
+        mocks.findDeadLetter.mockResolvedValue(null);
+
+        const result = await deliveryQueueService.replayDeadLetter('missing', {});
+
+        expect(result.success).toBe(false);
+        expect(mocks.claimForReplay).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NotFoundError } from '../../../src/domain/errors/domain.errors.js';
+import type { Device } from '../../../src/repositories/device.repository.js';
+import type { PushMessage } from '../../../src/providers/push-provider.js';
+
+const mocks = vi.hoisted(() => ({
+    register: vi.fn(),
+    deleteForUser: vi.fn(),
+    findByUserId: vi.fn(),
+    deleteByToken: vi.fn(),
+    pushSend: vi.fn(),
+}));
+
+vi.mock('../../../src/repositories/device.repository.js', () => ({
+    deviceRepository: {
+        register: mocks.register,
+        deleteForUser: mocks.deleteForUser,
+        findByUserId: mocks.findByUserId,
+        deleteByToken: mocks.deleteByToken,
+    },
+}));
+vi.mock('../../../src/providers/local.push-provider.js', () => ({
+    LocalPushProvider: class {
+        readonly name = 'local';
+        send = mocks.pushSend;
+    },
+}));
+
+const { deviceService } = await import('../../../src/services/device.service.js');
+const { pushService } = await import('../../../src/services/push.service.js');
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+    id: 'device-1',
+    userId: 'user-1',
+    sessionId: 'family-1',
+    provider: 'fcm',
+    token: 'token-1',
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+});
+
+const message = {
+    channel: 'push' as const,
+    destination: 'user-1',
+    title: 'SOS Alert',
+    body: 'Thandi needs help',
+    priority: 'critical' as const,
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('deviceService', () => {
+    it('registers the push token against the current session', async () => {
+        mocks.register.mockResolvedValue(device());
+
+        const result = await deviceService.registerDevice('user-1', 'family-1', { provider: 'fcm', token: 'token-1' });
+
+        expect(result).toEqual({ success: true, data: device() });
+        expect(mocks.register).toHaveBeenCalledWith({
+            userId: 'user-1',
+            sessionId: 'family-1',
+            provider: 'fcm',
+            token: 'token-1',
+        });
+    });
+
+    it('only unregisters the user\'s own devices', async () => {
+        mocks.deleteForUser.mockResolvedValue(false);
+
+        const result = await deviceService.unregisterDevice('user-2', 'token-1');
+
+        expect(!result.success && result.error).toBeInstanceOf(NotFoundError);
+        expect(mocks.deleteForUser).toHaveBeenCalledWith('user-2', 'token-1');
+    });
+});
+
+describe('pushService.send', () => {
+    it('pushes to every device of the user', async () => {
+        mocks.findByUserId.mockResolvedValue([device(), device({ id: 'device-2', provider: 'apns', token: 'token-2' })]);
+        mocks.pushSend.mockImplementation(async (push: PushMessage) => ({ status: 'sent', providerMessageId: `msg-${push.token}` }));
+
+        const result = await pushService.send(message);
+
+        expect(result).toEqual({ status: 'sent', providerMessageId: 'msg-token-1' });
+        expect(mocks.pushSend.mock.calls.map(([push]) => [push.provider, push.token, push.priority])).toEqual([
+            ['fcm', 'token-1', 'critical'],
+            ['apns', 'token-2', 'critical'],
+        ]);
+    });
+
+    it('prunes tokens the provider rejects and still reports the delivery', async () => {
+        mocks.findByUserId.mockResolvedValue([device(), device({ id: 'device-2', token: 'token-2' })]);
+        mocks.pushSend.mockImplementation(async (push: PushMessage) => push.token === 'token-1'
+            ? { status: 'invalid_token', error: 'Unregistered' }
+            : { status: 'sent', providerMessageId: 'msg-2' });
+
+        const result = await pushService.send(message);
+
+        expect(result.status).toBe('sent');
+        expect(mocks.deleteByToken).toHaveBeenCalledTimes(1);
+        expect(mocks.deleteByToken).toHaveBeenCalledWith('token-1');
+    });
+
+    it('reports a failure so the delivery is retried', async () => {
+        mocks.findByUserId.mockResolvedValue([device()]);
+        mocks.pushSend.mockResolvedValue({ status: 'failed', error: 'Provider down' });
+
+        expect(await pushService.send(message)).toEqual({ status: 'failed', error: 'Provider down' });
+        expect(mocks.deleteByToken).not.toHaveBeenCalled();
+    });
+
+    it('skips users without a usable device', async () => {
+        mocks.findByUserId.mockResolvedValue([]);
+        expect((await pushService.send(message)).status).toBe('skipped');
+
+        mocks.findByUserId.mockResolvedValue([device()]);
+        mocks.pushSend.mockResolvedValue({ status: 'invalid_token' });
+        expect(await pushService.send(message)).toEqual({ status: 'skipped', error: 'No valid device tokens' });
+    });
+});
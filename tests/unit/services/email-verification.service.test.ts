@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConflictError, ValidationError } from '../../../src/domain/errors/domain.errors.js';
+import type { UserWithoutPassword } from '../../../src/repositories/user.repository.js';
+
+// Tokens issued so far; the fake repository applies the same conditions as the real queries
+const tokens = vi.hoisted(() => [] as { id: string; userId: string; tokenHash: string; expiresAt: Date; usedAt: Date | null }[]);
+const mocks = vi.hoisted(() => ({
+    sendEmailVerification: vi.fn(),
+    markEmailValidated: vi.fn(),
+    createAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database.js', () => ({
+    runInTransaction: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+}));
+vi.mock('../../../src/repositories/verification-token.repository.js', () => ({
+    verificationTokenRepository: {
+        create: async (input: { userId: string; tokenHash: string; expiresAt: Date }) => {
+            tokens.push({ ...input, id: `token-${tokens.length + 1}`, usedAt: null });
+        },
+        invalidateForUser: async (userId: string) => {
+            tokens.filter((t) => t.userId === userId && !t.usedAt).forEach((t) => { t.usedAt = new Date(); });
+        },
+        findValidByHash: async (tokenHash: string) =>
+            tokens.find((t) => t.tokenHash === tokenHash && !t.usedAt && t.expiresAt > new Date()) ?? null,
+        markUsed: async (id: string) => {
+            const token = tokens.find((t) => t.id === id)!;
+            if (token.usedAt) return false;
+            token.usedAt = new Date();
+            return true;
+        },
+    },
+}));
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: { markEmailValidated: mocks.markEmailValidated },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/services/mail.service.js', () => ({
+    mailService: { sendEmailVerification: mocks.sendEmailVerification },
+}));
+
+const { emailVerificationService } = await import('../../../src/services/email-verification.service.js');
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const user = { id: 'user-1', email: 'thandi@example.com', name: 'Thandi', isEmailValidated: false } as UserWithoutPassword;
+
+/**
+ * The token in the last verification email
+ */
+const emailedToken = () => mocks.sendEmailVerification.mock.lastCall![2] as string;
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    tokens.length = 0;
+    mocks.sendEmailVerification.mockResolvedValue({ status: 'sent' });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('emailVerificationService', () => {
+    it('verifies the address with the emailed link', async () => {
+        await emailVerificationService.sendVerification(user);
+
+        const result = await emailVerificationService.confirmEmail(emailedToken(), {});
+
+        expect(result.success).toBe(true);
+        expect(mocks.sendEmailVerification).toHaveBeenCalledWith('thandi@example.com', 'Thandi', expect.any(String));
+        expect(mocks.markEmailValidated).toHaveBeenCalledWith('user-1', {});
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'EMAIL_VERIFIED' }), {});
+    });
+
+    it('accepts a link only once', async () => {
+        await emailVerificationService.sendVerification(user);
+        await emailVerificationService.confirmEmail(emailedToken(), {});
+
+        const again = await emailVerificationService.confirmEmail(emailedToken(), {});
+
+        expect(!again.success && again.error).toBeInstanceOf(ValidationError);
+        expect(mocks.markEmailValidated).toHaveBeenCalledTimes(1);
+    });
+
+    it('only accepts the link of the latest email', async () => {
+        await emailVerificationService.sendVerification(user);
+        const first = emailedToken();
+        await emailVerificationService.sendVerification(user);
+
+        expect((await emailVerificationService.confirmEmail(first, {})).success).toBe(false);
+        expect((await emailVerificationService.confirmEmail(emailedToken(), {})).success).toBe(true);
+    });
+
+    it('rejects an expired link', async () => {
+        await emailVerificationService.sendVerification(user);
+        vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+        const result = await emailVerificationService.confirmEmail(emailedToken(), {});
+
+        expect(!result.success && result.error).toBeInstanceOf(ValidationError);
+    });
+
+    it('sends nothing to an address that is already verified', async () => {
+        const result = await emailVerificationService.sendVerification({ ...user, isEmailValidated: true });
+
+        expect(!result.success && result.error).toBeInstanceOf(ConflictError);
+        expect(mocks.sendEmailVerification).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,121 @@
+// =============================================================================
+// Blink Engine - Fake Redis (tests)
+// =============================================================================
+// The few sorted set, hash and string commands the realtime buffer uses
+
+type Command = [string, unknown[]];
+
+export class FakeRedis {
+    status = 'ready';
+    private readonly strings = new Map<string, number>();
+    private readonly zsets = new Map<string, Map<string, number>>();
+    private readonly hashes = new Map<string, Map<string, string>>();
+
+    async incr(key: string): Promise<number> {
+        const value = (this.strings.get(key) ?? 0) + 1;
+        this.strings.set(key, value);
+        return value;
+    }
+
+    async get(key: string): Promise<string | null> {
+        const value = this.strings.get(key);
+        return value === undefined ? null : String(value);
+    }
+
+    async zadd(key: string, ...args: unknown[]): Promise<number> {
+        const onlyExisting = args[0] === 'XX';
+        const [score, member] = (onlyExisting ? args.slice(1) : args) as [number, string];
+        const zset = this.zset(key);
+        if (onlyExisting && !zset.has(member)) return 0;
+        zset.set(member, Number(score));
+        return 1;
+    }
+
+    async zrem(key: string, member: string): Promise<number> {
+        return this.zset(key).delete(member) ? 1 : 0;
+    }
+
+    async zremrangebyrank(key: string, start: number, stop: number): Promise<number> {
+        const sorted = this.sorted(key);
+        const end = stop < 0 ? sorted.length + stop : stop;
+        const removed = sorted.slice(start, end + 1);
+        removed.forEach(([member]) => this.zset(key).delete(member));
+        return removed.length;
+    }
+
+    async zrangebyscore(key: string, min: string | number, max: string | number, ...limit: unknown[]): Promise<string[]> {
+        const bound = (value: string | number, fallback: number) => {
+            if (value === '-inf') return { value: -Infinity, exclusive: false };
+            if (value === '+inf') return { value: Infinity, exclusive: false };
+            const text = String(value);
+            return text.startsWith('(')
+                ? { value: Number(text.slice(1)), exclusive: true }
+                : { value: Number(text) || fallback, exclusive: false };
+        };
+        const low = bound(min, -Infinity);
+        const high = bound(max, Infinity);
+
+        const members = this.sorted(key)
+            .filter(([, score]) => (low.exclusive ? score > low.value : score >= low.value))
+            .filter(([, score]) => (high.exclusive ? score < high.value : score <= high.value))
+            .map(([member]) => member);
+
+        if (limit[0] === 'LIMIT') {
+            const [offset, count] = limit.slice(1) as [number, number];
+            return members.slice(offset, offset + count);
+        }
+        return members;
+    }
+
+    async hset(key: string, field: string, value: string): Promise<number> {
+        this.hash(key).set(field, value);
+        return 1;
+    }
+
+    async hget(key: string, field: string): Promise<string | null> {
+        return this.hash(key).get(field) ?? null;
+    }
+
+    async hdel(key: string, field: string): Promise<number> {
+        return this.hash(key).delete(field) ? 1 : 0;
+    }
+
+    async pexpire(): Promise<number> {
+        return 1;
+    }
+
+    multi() {
+        const commands: Command[] = [];
+        const chain: Record<string, unknown> = {
+            exec: async () => {
+                const results: [null, unknown][] = [];
+                for (const [name, args] of commands) {
+                    const method = (this as unknown as Record<string, (...a: unknown[]) => Promise<unknown>>)[name];
+                    results.push([null, await method.apply(this, args)]);
+                }
+                return results;
+            },
+        };
+        for (const name of ['zadd', 'zrem', 'zremrangebyrank', 'hset', 'hdel', 'pexpire']) {
+            chain[name] = (...args: unknown[]) => {
+                commands.push([name, args]);
+                return chain;
+            };
+        }
+        return chain;
+    }
+
+    private zset(key: string): Map<string, number> {
+        if (!this.zsets.has(key)) this.zsets.set(key, new Map());
+        return this.zsets.get(key)!;
+    }
+
+    private hash(key: string): Map<string, string> {
+        if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+        return this.hashes.get(key)!;
+    }
+
+    private sorted(key: string): [string, number][] {
+        return [...this.zset(key).entries()].sort((a, b) => a[1] - b[1]);
+    }
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ValidationError } from '../../../src/domain/errors/domain.errors.js';
+import type { InboxItem } from '../../../src/repositories/inbox.repository.js';
+
+// Inbox rows, oldest first; the fake repository applies the same conditions as the real queries
+const rows = vi.hoisted(() => [] as InboxItem[]);
+const emitToUsers = vi.hoisted(() => vi.fn());
+
+vi.mock('../../../src/repositories/inbox.repository.js', () => {
+    const unread = (userId: string) => rows.filter((r) => r.userId === userId && !r.readAt);
+    return {
+        inboxRepository: {
+            createMany: async (inputs: { userId: string; type: string; title: string; body: string; dedupKey?: string }[]) =>
+                inputs.flatMap((input) => {
+                    if (input.dedupKey && rows.some((r) => r.userId === input.userId && r.dedupKey === input.dedupKey)) {
+                        return [];
+                    }
+                    const row = {
+                        ...input,
+                        id: `item-${String(rows.length + 1).padStart(2, '0')}`,
+                        data: null,
+                        dedupKey: input.dedupKey ?? null,
+                        readAt: null,
+                        createdAt: new Date(Date.UTC(2026, 0, 1, 0, rows.length)),
+                    };
+                    rows.push(row);
+                    return [row];
+                }),
+            findPage: async (userId: string, limit: number, cursor?: string) => {
+                const newestFirst = rows.filter((r) => r.userId === userId).reverse();
+                const start = cursor ? newestFirst.findIndex((r) => r.id === cursor) + 1 : 0;
+                return newestFirst.slice(start, start + limit + 1);
+            },
+            existsForUser: async (id: string, userId: string) => rows.some((r) => r.id === id && r.userId === userId),
+            countUnread: async (userId: string) => unread(userId).length,
+            markRead: async (userId: string, ids: string[]) => {
+                const marked = unread(userId).filter((r) => ids.includes(r.id));
+                marked.forEach((r) => { r.readAt = new Date(); });
+                return marked.length;
+            },
+            markAllRead: async (userId: string) => {
+                const marked = unread(userId);
+                marked.forEach((r) => { r.readAt = new Date(); });
+                return marked.length;
+            },
+        },
+    };
+});
+vi.mock('../../../src/services/socket.service.js', () => ({
+    socketService: { emitToUsers },
+}));
+
+const { inboxService } = await import('../../../src/services/inbox.service.js');
+
+const entry = (dedupKey?: string) => ({
+    type: 'sos_started' as const,
+    title: 'SOS',
+    body: 'Thandi triggered an SOS',
+    dedupKey,
+});
+
+/**
+ * Post `count` entries to user-1's inbox, one at a time
+ */
+const fill = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+        await inboxService.post(['user-1'], entry());
+    }
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    rows.length = 0;
+});
+
+describe('inboxService.post', () => {
+    it('adds the entry once per recipient and tells each one their unread count', async () => {
+        await fill(1);
+
+        await inboxService.post(['user-1', 'user-2', 'user-2'], entry());
+
+        expect(rows.map((r) => r.userId)).toEqual(['user-1', 'user-1', 'user-2']);
+        expect(emitToUsers.mock.calls.slice(1).map(([userIds, event, data]) => [userIds, event, data.unreadCount])).toEqual([
+            [['user-1'], 'inbox:new', 2],
+            [['user-2'], 'inbox:new', 1],
+        ]);
+    });
+
+    it('skips recipients who already have an entry with the same dedup key', async () => {
+        await inboxService.post(['user-1'], entry('sos:sos-1:started'));
+        await inboxService.post(['user-1', 'user-2'], entry('sos:sos-1:started'));
+
+        expect(rows.map((r) => r.userId)).toEqual(['user-1', 'user-2']);
+        expect(emitToUsers).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('inboxService read state', () => {
+    beforeEach(async () => {
+        await fill(3);
+        await inboxService.post(['user-2'], entry());
+    });
+
+    it('marks items read and returns the remaining unread count', async () => {
+        const result = await inboxService.markRead('user-1', ['item-01', 'item-02']);
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(rows.filter((r) => r.readAt).map((r) => r.id)).toEqual(['item-01', 'item-02']);
+    });
+
+    it('ignores items of other users and items already read', async () => {
+        await inboxService.markRead('user-1', ['item-01']);
+        const firstRead = rows[0].readAt;
+
+        const result = await inboxService.markRead('user-1', ['item-01', 'item-04']);
+
+        expect(result).toEqual({ success: true, data: 2 });
+        expect(rows[0].readAt).toBe(firstRead);
+        expect(rows[3].readAt).toBeNull();
+    });
+
+    it('marks everything read for the user only', async () => {
+        expect(await inboxService.markAllRead('user-1')).toEqual({ success: true, data: 0 });
+        expect(await inboxService.getUnreadCount('user-1')).toEqual({ success: true, data: 0 });
+        expect(await inboxService.getUnreadCount('user-2')).toEqual({ success: true, data: 1 });
+    });
+});
+
+describe('inboxService.listItems', () => {
+    beforeEach(async () => {
+        await fill(5);
+        await inboxService.markRead('user-1', ['item-05']);
+    });
+
+    it('pages newest first with the unread count', async () => {
+        const first = await inboxService.listItems('user-1', { limit: 2 });
+        if (!first.success) throw first.error;
+
+        expect(first.data.items.map((i) => i.id)).toEqual(['item-05', 'item-04']);
+        expect(first.data).toMatchObject({ nextCursor: 'item-04', unreadCount: 4 });
+
+        const last = await inboxService.listItems('user-1', { limit: 3, cursor: 'item-04' });
+        if (!last.success) throw last.error;
+
+        expect(last.data.items.map((i) => i.id)).toEqual(['item-03', 'item-02', 'item-01']);
+        expect(last.data.nextCursor).toBeNull();
+    });
+
+    it('rejects a cursor from another user\'s inbox', async () => {
+        await inboxService.post(['user-2'], entry());
+
+        const result = await inboxService.listItems('user-1', { cursor: 'item-06' });
+
+        expect(!result.success && result.error).toBeInstanceOf(ValidationError);
+    });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Journey } from '../../../src/repositories/journey.repository.js';
+import type { Location } from '../../../src/repositories/location.repository.js';
+
+const mocks = vi.hoisted(() => ({
+    findAllActive: vi.fn(),
+    findActiveByUserId: vi.fn(),
+    markAlerted: vi.fn(),
+    end: vi.fn(),
+    recordProgress: vi.fn(),
+    createAudit: vi.fn(),
+    emitToUsers: vi.fn(),
+    notifyUsers: vi.fn(),
+}));
+
+vi.mock('../../../src/repositories/journey.repository.js', () => ({
+    journeyRepository: {
+        findAllActive: mocks.findAllActive,
+        findActiveByUserId: mocks.findActiveByUserId,
+        markAlerted: mocks.markAlerted,
+        end: mocks.end,
+        recordProgress: mocks.recordProgress,
+    },
+}));
+vi.mock('../../../src/repositories/sos.repository.js', () => ({
+    sosRepository: {},
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: { findById: async () => ({ id: 'user-1', name: 'Thandi' }) },
+}));
+vi.mock('../../../src/services/contact.service.js', () => ({
+    contactService: {},
+}));
+vi.mock('../../../src/services/sos.service.js', () => ({
+    sosService: {},
+}));
+vi.mock('../../../src/services/socket.service.js', () => ({
+    socketService: { emitToUsers: mocks.emitToUsers },
+}));
+vi.mock('../../../src/services/notification.service.js', () => ({
+    notificationService: { notifyUsers: mocks.notifyUsers },
+}));
+
+const { journeyService } = await import('../../../src/services/journey.service.js');
+
+const NOW = new Date('2026-01-01T18:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+const journey = (overrides: Partial<Journey> = {}): Journey => ({
+    id: 'journey-1',
+    userId: 'user-1',
+    destinationLatitude: -33.9249,
+    destinationLongitude: 18.4241,
+    destinationName: 'Home',
+    arrivalRadiusMeters: 100,
+    expectedArrivalAt: new Date(NOW.getTime() + 10 * 60 * 1000),
+    watchers: [{ contactId: 'contact-1', contactUserId: 'user-2', name: 'Sipho' }],
+    status: 'active',
+    lastLatitude: -33.93,
+    lastLongitude: 18.43,
+    lastUpdateAt: minutesAgo(1),
+    movedAt: minutesAgo(1),
+    anchorLatitude: -33.93,
+    anchorLongitude: 18.43,
+    overdueAlertedAt: null,
+    stationaryAlertedAt: null,
+    arrivedAt: null,
+    endedAt: null,
+    sosEventId: null,
+    createdAt: minutesAgo(20),
+    updatedAt: minutesAgo(1),
+    ...overrides,
+});
+
+const location = (latitude: number, longitude: number, speed: number | null = null) => ({
+    latitude,
+    longitude,
+    speed,
+    heading: null,
+    timestamp: NOW,
+}) as Location;
+
+/**
+ * Events emitted to the watchers, with the fields the tests care about
+ */
+const emitted = () => mocks.emitToUsers.mock.calls.map(([userIds, event, data]) => ({
+    userIds,
+    event,
+    status: data.status,
+    reason: data.reason,
+}));
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mocks.markAlerted.mockResolvedValue(true);
+    mocks.notifyUsers.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('journeyService.checkJourneys', () => {
+    it('leaves a journey on schedule alone', async () => {
+        mocks.findAllActive.mockResolvedValue([journey()]);
+
+        expect(await journeyService.checkJourneys()).toEqual({ success: true, data: 0 });
+        expect(mocks.markAlerted).not.toHaveBeenCalled();
+        expect(mocks.emitToUsers).not.toHaveBeenCalled();
+    });
+
+    it('alerts the watchers once the journey is overdue past the grace period', async () => {
+        mocks.findAllActive.mockResolvedValue([
+            journey({ id: 'journey-1', expectedArrivalAt: minutesAgo(6) }),
+            journey({ id: 'journey-2', expectedArrivalAt: minutesAgo(4) }),
+        ]);
+
+        const result = await journeyService.checkJourneys();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(mocks.markAlerted).toHaveBeenCalledWith('journey-1', 'overdue');
+        expect(emitted()).toEqual([{ userIds: ['user-2'], event: 'journey:alert', status: undefined, reason: 'overdue' }]);
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+            action: 'JOURNEY_ALERT',
+            metadata: { reason: 'overdue' },
+        }));
+    });
+
+    it('alerts the watchers when the user stopped moving', async () => {
+        mocks.findAllActive.mockResolvedValue([journey({ movedAt: minutesAgo(11) })]);
+
+        const result = await journeyService.checkJourneys();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(mocks.markAlerted).toHaveBeenCalledWith('journey-1', 'stationary');
+        expect(emitted()).toEqual([{ userIds: ['user-2'], event: 'journey:alert', status: undefined, reason: 'stationary' }]);
+        await vi.waitFor(() => expect(mocks.notifyUsers).toHaveBeenCalledWith(['user-2'], expect.objectContaining({
+            type: 'journey_alert',
+            body: 'Thandi has stopped moving on the way to Home',
+        })));
+    });
+
+    it('does not repeat an alert that was already sent', async () => {
+        mocks.findAllActive.mockResolvedValue([
+            journey({ expectedArrivalAt: minutesAgo(30), overdueAlertedAt: minutesAgo(25) }),
+            journey({ id: 'journey-2', expectedArrivalAt: minutesAgo(30) }),
+        ]);
+        mocks.markAlerted.mockResolvedValue(false); // Claimed by another instance
+
+        expect(await journeyService.checkJourneys()).toEqual({ success: true, data: 0 });
+        expect(mocks.markAlerted).toHaveBeenCalledTimes(1);
+        expect(mocks.emitToUsers).not.toHaveBeenCalled();
+    });
+});
+
+describe('journeyService.recordProgress', () => {
+    it('ends the journey on arrival within the radius', async () => {
+        const active = journey();
+        mocks.findActiveByUserId.mockResolvedValue(active);
+        mocks.end.mockResolvedValue({ ...active, status: 'arrived', arrivedAt: NOW });
+
+        await journeyService.recordProgress('user-1', location(-33.9250, 18.4242));
+
+        expect(mocks.end).toHaveBeenCalledWith('journey-1', 'arrived');
+        expect(mocks.recordProgress).not.toHaveBeenCalled();
+        expect(emitted()).toEqual([{ userIds: ['user-2'], event: 'journey:update', status: 'arrived', reason: undefined }]);
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'JOURNEY_ARRIVED' }));
+    });
+
+    it('re-arms the stationary alert once the user moves again', async () => {
+        mocks.findActiveByUserId.mockResolvedValue(journey({ stationaryAlertedAt: minutesAgo(2) }));
+
+        await journeyService.recordProgress('user-1', location(-33.935, 18.435, 1.4));
+
+        expect(mocks.end).not.toHaveBeenCalled();
+        expect(mocks.recordProgress).toHaveBeenCalledWith('journey-1', expect.objectContaining({
+            movedAt: NOW,
+            stationaryAlertedAt: null,
+        }));
+        const [, , update] = mocks.emitToUsers.mock.calls[0];
+        expect(update.status).toBe('active');
+        expect(update.estimatedArrivalAt).toBeInstanceOf(Date);
+    });
+
+    it('keeps the stationary timer running for GPS jitter', async () => {
+        mocks.findActiveByUserId.mockResolvedValue(journey());
+
+        await journeyService.recordProgress('user-1', location(-33.93005, 18.43005));
+
+        const [, progress] = mocks.recordProgress.mock.calls[0];
+        expect(progress).not.toHaveProperty('movedAt');
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../../../src/domain/notification-policy.js';
+import type { SosEvent } from '../../../src/repositories/sos.repository.js';
+
+const mocks = vi.hoisted(() => ({
+    findById: vi.fn(),
+    findUserIdsMuting: vi.fn(),
+    getViewerLinks: vi.fn(),
+    getPreferencesForUsers: vi.fn(),
+    enqueue: vi.fn(),
+}));
+
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: { findById: mocks.findById },
+}));
+vi.mock('../../../src/repositories/contact.repository.js', () => ({
+    contactRepository: { findUserIdsMuting: mocks.findUserIdsMuting },
+}));
+vi.mock('../../../src/services/sos-share.service.js', () => ({
+    sosShareService: { getViewerLinks: mocks.getViewerLinks },
+}));
+vi.mock('../../../src/services/notification-preference.service.js', () => ({
+    notificationPreferenceService: { getPreferencesForUsers: mocks.getPreferencesForUsers },
+}));
+vi.mock('../../../src/services/delivery-queue.service.js', () => ({
+    deliveryQueueService: { enqueue: mocks.enqueue },
+}));
+vi.mock('../../../src/services/push.service.js', () => ({
+    pushService: { isEnabled: () => false },
+}));
+
+const { notificationService } = await import('../../../src/services/notification.service.js');
+
+const sosEvent = {
+    id: 'sos-1',
+    userId: 'user-1',
+    latitude: -33.9249,
+    longitude: 18.4241,
+    notifiedContacts: [
+        { id: 'contact-1', name: 'Linked', phoneNumber: '+27825550100', email: 'linked@example.com', contactUserId: 'user-2' },
+        { id: 'contact-2', name: 'Offline', phoneNumber: '+27825550101', email: null, contactUserId: null },
+    ],
+} as unknown as SosEvent;
+
+describe('notificationService.notifySosContacts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.findById.mockResolvedValue({ id: 'user-1', name: 'Thandi', surname: 'Mokoena' });
+        mocks.getViewerLinks.mockResolvedValue(new Map());
+        mocks.enqueue.mockImplementation(async (deliveries: unknown[]) => deliveries.length);
+
+        // The linked contact muted the user, turned every channel off and is in quiet hours
+        mocks.findUserIdsMuting.mockResolvedValue(['user-2']);
+        mocks.getPreferencesForUsers.mockResolvedValue(new Map([['user-2', {
+            channels: Object.fromEntries(Object.keys(DEFAULT_NOTIFICATION_PREFERENCES.channels).map((type) => [type, []])),
+            quietHours: { start: '00:00', end: '23:59' },
+            timeZone: 'UTC',
+        }]]));
+    });
+
+    it.each(['sos_alert', 'sos_escalated'] as const)('queues %s on every channel a contact can be reached on', async (eventType) => {
+        const result = await notificationService.notifySosContacts(sosEvent, { eventType });
+
+        expect(result).toEqual({ success: true, data: 4 });
+        expect(mocks.findUserIdsMuting).toHaveBeenCalledWith(['user-2'], 'user-1');
+
+        const deliveries = mocks.enqueue.mock.calls[0][0] as { dedupKey: string; message: { priority: string } }[];
+        expect(deliveries.map((d) => d.dedupKey)).toEqual([
+            'sos:sos-1:contact-1:push',
+            'sos:sos-1:contact-1:sms',
+            'sos:sos-1:contact-1:email',
+            'sos:sos-1:contact-2:sms',
+        ]);
+        expect(deliveries.every((d) => d.message.priority === 'critical')).toBe(true);
+    });
+});
+
+describe('notificationService.notifyUsers', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.findUserIdsMuting.mockResolvedValue([]);
+        mocks.findById.mockResolvedValue({ id: 'user-2', phoneNumber: '+27825550100', isPhoneValidated: true });
+    });
+
+    it('falls back to the default preferences for a recipient without any', async () => {
+        mocks.getPreferencesForUsers.mockResolvedValue(new Map());
+
+        await notificationService.notifyUsers(['user-2'], {
+            type: 'journey_alert',
+            subjectUserId: 'user-1',
+            title: 'Journey overdue',
+            body: 'Thandi has not arrived yet',
+        });
+
+        const deliveries = mocks.enqueue.mock.calls[0][0] as { message: { channel: string; destination: string } }[];
+        expect(deliveries.map((d) => [d.message.channel, d.message.destination])).toEqual([
+            ['push', 'user-2'],
+            ['sms', '+27825550100'],
+        ]);
+    });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimitExceededError, ValidationError } from '../../../src/domain/errors/domain.errors.js';
+import type { PhoneVerification } from '../../../src/repositories/phone-verification.repository.js';
+
+// Codes sent so far; the fake repository applies the same conditions as the real updates
+const codes = vi.hoisted(() => [] as PhoneVerification[]);
+const mocks = vi.hoisted(() => ({
+    findUser: vi.fn(),
+    markPhoneValidated: vi.fn(),
+    send: vi.fn(),
+    createAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database.js', () => ({
+    runInTransaction: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+}));
+vi.mock('../../../src/repositories/phone-verification.repository.js', () => {
+    const isPending = (code: PhoneVerification) => !code.verifiedAt && !code.supersededAt;
+    return {
+        phoneVerificationRepository: {
+            create: async (input: Pick<PhoneVerification, 'userId' | 'phoneNumber' | 'codeHash' | 'expiresAt'>) => {
+                const code = {
+                    ...input,
+                    id: `code-${codes.length + 1}`,
+                    attempts: 0,
+                    verifiedAt: null,
+                    supersededAt: null,
+                    createdAt: new Date(),
+                };
+                codes.push(code);
+                return { ...code };
+            },
+            supersedePending: async () => {
+                codes.filter(isPending).forEach((code) => { code.supersededAt = new Date(); });
+            },
+            findPendingByUserId: async () => {
+                const pending = codes.filter(isPending).at(-1);
+                return pending ? { ...pending } : null;
+            },
+            recordAttempt: async (id: string, maxAttempts: number) => {
+                const code = codes.find((c) => c.id === id)!;
+                if (!isPending(code) || code.attempts >= maxAttempts) return false;
+                code.attempts++;
+                return true;
+            },
+            markVerified: async (id: string) => {
+                const code = codes.find((c) => c.id === id)!;
+                if (!isPending(code)) return false;
+                code.verifiedAt = new Date();
+                return true;
+            },
+        },
+    };
+});
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: { findById: mocks.findUser, markPhoneValidated: mocks.markPhoneValidated },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/services/notification.service.js', () => ({
+    notificationService: { send: mocks.send },
+}));
+
+const { phoneVerificationService } = await import('../../../src/services/phone-verification.service.js');
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+/**
+ * The code in the last text sent
+ */
+const sentCode = () => /code is (\d{6})/.exec(mocks.send.mock.lastCall![0].body)![1];
+
+/**
+ * A six-digit code other than the one sent
+ */
+const wrongCode = () => (sentCode() === '000000' ? '111111' : '000000');
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    codes.length = 0;
+    mocks.findUser.mockResolvedValue({ id: 'user-1', phoneNumber: '+27825550100', isPhoneValidated: false });
+    mocks.markPhoneValidated.mockResolvedValue(true);
+    mocks.send.mockResolvedValue({ status: 'sent' });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('phoneVerificationService.sendCode', () => {
+    it('texts a code and says when another can be requested', async () => {
+        const result = await phoneVerificationService.sendCode('user-1', {});
+
+        expect(result.success && result.data).toEqual({
+            phoneNumber: '+27825550100',
+            expiresAt: new Date(NOW.getTime() + 10 * 60 * 1000),
+            resendAfter: new Date(NOW.getTime() + 60 * 1000),
+        });
+        expect(mocks.send).toHaveBeenCalledWith(expect.objectContaining({ channel: 'sms', destination: '+27825550100' }));
+    });
+
+    it('refuses a resend during the cooldown', async () => {
+        await phoneVerificationService.sendCode('user-1', {});
+        vi.advanceTimersByTime(45 * 1000);
+
+        const result = await phoneVerificationService.sendCode('user-1', {});
+
+        expect(!result.success && result.error).toBeInstanceOf(RateLimitExceededError);
+        expect(!result.success && (result.error as RateLimitExceededError).retryAfter).toBe(15);
+        expect(mocks.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('replaces the previous code once the cooldown is over', async () => {
+        await phoneVerificationService.sendCode('user-1', {});
+        vi.advanceTimersByTime(60 * 1000);
+
+        expect((await phoneVerificationService.sendCode('user-1', {})).success).toBe(true);
+        expect((await phoneVerificationService.verifyCode('user-1', sentCode(), {})).success).toBe(true);
+
+        expect(codes.map((c) => [c.supersededAt !== null, c.verifiedAt !== null])).toEqual([[true, false], [false, true]]);
+    });
+
+    it('skips the cooldown after a failed send', async () => {
+        mocks.send.mockResolvedValueOnce({ status: 'failed', error: 'Provider down' });
+
+        expect((await phoneVerificationService.sendCode('user-1', {})).success).toBe(false);
+        expect((await phoneVerificationService.sendCode('user-1', {})).success).toBe(true);
+    });
+});
+
+describe('phoneVerificationService.verifyCode', () => {
+    beforeEach(async () => {
+        await phoneVerificationService.sendCode('user-1', {});
+    });
+
+    it('marks the number verified with the right code', async () => {
+        const result = await phoneVerificationService.verifyCode('user-1', sentCode(), {});
+
+        expect(result.success).toBe(true);
+        expect(mocks.markPhoneValidated).toHaveBeenCalledWith('user-1', '+27825550100', {});
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'PHONE_VERIFIED' }), {});
+    });
+
+    it('counts down the attempts left', async () => {
+        const result = await phoneVerificationService.verifyCode('user-1', wrongCode(), {});
+
+        expect(!result.success && result.error).toBeInstanceOf(ValidationError);
+        expect(!result.success && result.error.details).toEqual({ attemptsLeft: 4 });
+    });
+
+    it('stops accepting codes after the attempt limit, even the right one', async () => {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            await phoneVerificationService.verifyCode('user-1', wrongCode(), {});
+        }
+
+        const result = await phoneVerificationService.verifyCode('user-1', sentCode(), {});
+
+        expect(!result.success && result.error.message).toBe('Too many incorrect attempts - request a new code');
+        expect(mocks.markPhoneValidated).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expired code', async () => {
+        vi.advanceTimersByTime(10 * 60 * 1000);
+
+        const result = await phoneVerificationService.verifyCode('user-1', sentCode(), {});
+
+        expect(!result.success && result.error.message).toBe('This code has expired - request a new one');
+    });
+
+    it('rejects a code sent to a number the user has since changed', async () => {
+        mocks.markPhoneValidated.mockResolvedValue(false);
+
+        const result = await phoneVerificationService.verifyCode('user-1', sentCode(), {});
+
+        expect(result.success).toBe(false);
+        expect(mocks.createAudit).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Place } from '../../../src/repositories/place.repository.js';
+import type { LocationPoint } from '../../../src/services/place.service.js';
+
+const mocks = vi.hoisted(() => ({
+    findAllByUserId: vi.fn(),
+    setPresence: vi.fn(),
+}));
+
+vi.mock('../../../src/repositories/place.repository.js', () => ({
+    placeRepository: { findAllByUserId: mocks.findAllByUserId, setPresence: mocks.setPresence },
+}));
+vi.mock('../../../src/repositories/location.repository.js', () => ({
+    locationRepository: {},
+}));
+
+const { placeService } = await import('../../../src/services/place.service.js');
+
+const HOME = { latitude: -33.9249, longitude: 18.4241 };
+const METERS_PER_DEGREE_LATITUDE = (Math.PI * 6371000) / 180;
+const START = Date.parse('2026-01-01T08:00:00Z');
+
+const place = (overrides: Partial<Place> = {}): Place => ({
+    id: 'place-1',
+    userId: 'user-1',
+    name: 'Home',
+    ...HOME,
+    radiusMeters: 150,
+    isInside: false,
+    presenceChangedAt: null,
+    createdAt: new Date(START),
+    updatedAt: new Date(START),
+    ...overrides,
+});
+
+/**
+ * Points due north of the place, one minute apart, at the given distances in meters
+ */
+const points = (...distances: number[]): LocationPoint[] => distances.map((meters, index) => ({
+    latitude: HOME.latitude + meters / METERS_PER_DEGREE_LATITUDE,
+    longitude: HOME.longitude,
+    accuracy: 10,
+    timestamp: new Date(START + index * 60 * 1000),
+}));
+
+const detect = async (places: Place[], locationPoints: LocationPoint[]) => {
+    mocks.findAllByUserId.mockResolvedValue(places);
+    const transitions = await placeService.detectTransitions('user-1', locationPoints);
+    return transitions.map((t) => `${t.type}:${t.place.id}`);
+};
+
+describe('placeService.detectTransitions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.setPresence.mockResolvedValue(true);
+    });
+
+    it('enters once a point is within the radius', async () => {
+        expect(await detect([place()], points(400, 149))).toEqual(['enter:place-1']);
+        expect(mocks.setPresence).toHaveBeenCalledWith('place-1', true, new Date(START + 60 * 1000));
+    });
+
+    it('only exits beyond the radius plus the buffer', async () => {
+        // 150 m radius: the buffer is the 30 m minimum
+        expect(await detect([place({ isInside: true })], points(175, 179))).toEqual([]);
+        expect(await detect([place({ isInside: true })], points(175, 185))).toEqual(['exit:place-1']);
+    });
+
+    it('scales the buffer with large places', async () => {
+        // 500 m radius: 20% is 100 m
+        expect(await detect([place({ isInside: true, radiusMeters: 500 })], points(590))).toEqual([]);
+        expect(await detect([place({ isInside: true, radiusMeters: 500 })], points(610))).toEqual(['exit:place-1']);
+    });
+
+    it('does not flap on jitter around the edge', async () => {
+        expect(await detect([place()], points(160, 145, 165, 140, 170, 155))).toEqual(['enter:place-1']);
+    });
+
+    it('orders points by time before evaluating them', async () => {
+        const [inside, outside] = points(100, 300);
+
+        expect(await detect([place()], [outside, inside])).toEqual(['enter:place-1', 'exit:place-1']);
+    });
+
+    it('ignores points less precise than the place', async () => {
+        const [imprecise] = points(50);
+
+        expect(await detect([place()], [{ ...imprecise, accuracy: 200 }])).toEqual([]);
+        expect(mocks.setPresence).not.toHaveBeenCalled();
+    });
+
+    it('drops a transition another update already recorded', async () => {
+        mocks.setPresence.mockResolvedValue(false);
+
+        expect(await detect([place()], points(50))).toEqual([]);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const redisState = vi.hoisted(() => ({ client: null as unknown }));
+
+vi.mock('../../../src/config/redis.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../../src/config/redis.js')>()),
+    getRedis: () => redisState.client,
+}));
+
+const loadService = async () => {
+    const module = await import('../../../src/services/presence.service.js');
+    return module.presenceService;
+};
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+describe('presenceService (in memory)', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        redisState.client = null;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('counts devices and records when the last one left', async () => {
+        const presence = await loadService();
+
+        await presence.connect('user-1', 'socket-1');
+        expect(await presence.connect('user-1', 'socket-2')).toEqual({
+            userId: 'user-1', isOnline: true, deviceCount: 2, lastSeenAt: NOW,
+        });
+
+        await presence.disconnect('user-1', 'socket-1');
+        vi.advanceTimersByTime(1000);
+        expect(await presence.disconnect('user-1', 'socket-2')).toEqual({
+            userId: 'user-1', isOnline: false, deviceCount: 0, lastSeenAt: new Date(NOW.getTime() + 1000),
+        });
+    });
+});
+
+describe('presenceService (Redis reconnecting)', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('skips Redis instead of waiting on queued commands', async () => {
+        const command = vi.fn(() => new Promise(() => undefined)); // Never settles, like a queued command
+        redisState.client = {
+            status: 'reconnecting',
+            multi: command,
+            pipeline: command,
+        };
+        const presence = await loadService();
+
+        expect(await presence.connect('user-1', 'socket-1')).toBeNull();
+        expect(await presence.disconnect('user-1', 'socket-1')).toBeNull();
+        await presence.touch([{ userId: 'user-1', socketId: 'socket-1' }]);
+        expect(await presence.getPresence(['user-1'])).toEqual(new Map());
+
+        expect(command).not.toHaveBeenCalled();
+    });
+});
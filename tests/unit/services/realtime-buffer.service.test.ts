@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FakeRedis } from './fake-redis.js';
+
+const redisState = vi.hoisted(() => ({ client: null as unknown }));
+
+vi.mock('../../../src/config/redis.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../../src/config/redis.js')>()),
+    getRedis: () => redisState.client,
+}));
+
+const loadService = async () => {
+    const module = await import('../../../src/services/realtime-buffer.service.js');
+    return module.realtimeBufferService;
+};
+
+describe('realtimeBufferService (in memory)', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        redisState.client = null;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('assigns per-user sequence numbers and replays what was missed', async () => {
+        const buffer = await loadService();
+
+        await buffer.record('user-1', 'location:update', { n: 1 }, false);
+        await buffer.record('user-1', 'location:update', { n: 2 }, false);
+        await buffer.record('user-2', 'location:update', { n: 1 }, false);
+        await buffer.record('user-1', 'sos:alert', { n: 3 }, true);
+
+        const replay = await buffer.getSince('user-1', 1);
+
+        expect(replay.events.map((e) => e.seq)).toEqual([2, 3]);
+        expect(replay.complete).toBe(true);
+        expect(replay.latestSeq).toBe(3);
+    });
+
+    it('reports an incomplete replay once events left the buffer', async () => {
+        const buffer = await loadService();
+
+        for (let i = 0; i < 205; i++) {
+            await buffer.record('user-1', 'location:update', { i }, false);
+        }
+
+        const replay = await buffer.getSince('user-1', 1);
+        expect(replay.complete).toBe(false);
+    });
+
+    it('retries an unacknowledged event even after high-frequency events pushed it out of the buffer', async () => {
+        const buffer = await loadService();
+
+        const alert = await buffer.record('user-1', 'sos:alert', { sosEventId: 'sos-1' }, true);
+        for (let i = 0; i < 500; i++) {
+            await buffer.record('user-1', 'location:update', { i }, false);
+        }
+
+        expect(await buffer.claimDueRetries(10)).toEqual([]);
+
+        vi.advanceTimersByTime(10000);
+        const retries = await buffer.claimDueRetries(10);
+
+        expect(retries).toEqual([{ userId: 'user-1', envelope: alert }]);
+    });
+
+    it('schedules the next retry after a claim and stops once acknowledged', async () => {
+        const buffer = await loadService();
+
+        const alert = await buffer.record('user-1', 'sos:alert', {}, true);
+
+        vi.advanceTimersByTime(10000);
+        expect(await buffer.claimDueRetries(10)).toHaveLength(1);
+        expect(await buffer.claimDueRetries(10)).toHaveLength(0);
+
+        vi.advanceTimersByTime(10000);
+        expect(await buffer.claimDueRetries(10)).toHaveLength(1);
+
+        await buffer.acknowledge('user-1', alert!.seq);
+        vi.advanceTimersByTime(10000);
+        expect(await buffer.claimDueRetries(10)).toHaveLength(0);
+    });
+
+    it('gives up on an event nobody acknowledged within a day', async () => {
+        const buffer = await loadService();
+
+        await buffer.record('user-1', 'sos:alert', {}, true);
+
+        vi.advanceTimersByTime(24 * 60 * 60 * 1000 + 1);
+        expect(await buffer.claimDueRetries(10)).toEqual([]);
+
+        vi.advanceTimersByTime(10000);
+        expect(await buffer.claimDueRetries(10)).toEqual([]);
+    });
+});
+
+describe('realtimeBufferService (Redis)', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        redisState.client = new FakeRedis();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps an unacknowledged event for retries after it left the replay buffer', async () => {
+        const buffer = await loadService();
+
+        const alert = await buffer.record('user-1', 'sos:alert', { sosEventId: 'sos-1' }, true);
+        for (let i = 0; i < 500; i++) {
+            await buffer.record('user-1', 'presence:changed', { i }, false);
+        }
+
+        expect((await buffer.getSince('user-1', 0)).complete).toBe(false);
+
+        vi.advanceTimersByTime(10000);
+        expect(await buffer.claimDueRetries(10)).toEqual([{ userId: 'user-1', envelope: alert }]);
+    });
+
+    it('stops retrying once acknowledged', async () => {
+        const buffer = await loadService();
+
+        const alert = await buffer.record('user-1', 'sos:alert', {}, true);
+        await buffer.acknowledge('user-1', alert!.seq);
+
+        vi.advanceTimersByTime(10000);
+        expect(await buffer.claimDueRetries(10)).toEqual([]);
+    });
+});
+
+describe('realtimeBufferService (Redis reconnecting)', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    it('skips the buffer instead of waiting on queued commands', async () => {
+        const command = vi.fn(() => new Promise(() => undefined)); // Never settles, like a queued command
+        redisState.client = {
+            status: 'reconnecting',
+            incr: command,
+            multi: command,
+            get: command,
+            zrangebyscore: command,
+            zrem: command,
+        };
+        const buffer = await loadService();
+
+        expect(await buffer.record('user-1', 'sos:alert', {}, true)).toBeNull();
+        expect(await buffer.claimDueRetries(10)).toEqual([]);
+        expect(await buffer.getSince('user-1', 4)).toEqual({ events: [], complete: false, latestSeq: 4 });
+        await buffer.acknowledge('user-1', 1);
+
+        expect(command).not.toHaveBeenCalled();
+    });
+});
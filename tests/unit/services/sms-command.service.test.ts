@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SosAlreadyActiveError } from '../../../src/domain/errors/domain.errors.js';
+
+// Inbound texts keyed by provider message ID; the outcome is recorded once, like the repository
+const messages = vi.hoisted(() => new Map<string, { id: string; status: string }>());
+const mocks = vi.hoisted(() => ({
+    findIdsByVerifiedPhoneNumber: vi.fn(),
+    findLatestLocation: vi.fn(),
+    createAudit: vi.fn(),
+    triggerSos: vi.fn(),
+    resolveSos: vi.fn(),
+    cancelSos: vi.fn(),
+    enqueue: vi.fn(),
+}));
+
+vi.mock('../../../src/repositories/inbound-sms.repository.js', () => ({
+    inboundSmsRepository: {
+        createIfAbsent: async (input: { providerMessageId: string }) => {
+            if (!messages.has(input.providerMessageId)) {
+                messages.set(input.providerMessageId, { id: `inbound-${messages.size + 1}`, status: 'received' });
+            }
+            return { ...messages.get(input.providerMessageId)! };
+        },
+        recordOutcome: async (id: string, outcome: { status: string }) => {
+            const message = [...messages.values()].find((m) => m.id === id)!;
+            if (message.status !== 'received') return false;
+            message.status = outcome.status;
+            return true;
+        },
+    },
+}));
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: { findIdsByVerifiedPhoneNumber: mocks.findIdsByVerifiedPhoneNumber },
+}));
+vi.mock('../../../src/repositories/location.repository.js', () => ({
+    locationRepository: { findLatestByUserId: mocks.findLatestLocation },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/services/sos.service.js', () => ({
+    sosService: { triggerSos: mocks.triggerSos, resolveSos: mocks.resolveSos, cancelSos: mocks.cancelSos },
+}));
+vi.mock('../../../src/services/delivery-queue.service.js', () => ({
+    deliveryQueueService: { enqueue: mocks.enqueue },
+}));
+
+const { smsCommandService } = await import('../../../src/services/sms-command.service.js');
+
+const FROM = '+27825550100';
+
+const text = (body: string, messageId = 'msg-1') =>
+    smsCommandService.handleInbound({ messageId, from: FROM, body }, { correlationId: 'corr-1' });
+
+/**
+ * Body of the reply queued for the sender
+ */
+const reply = () => mocks.enqueue.mock.calls[0]?.[0][0].message.body as string | undefined;
+
+describe('smsCommandService.handleInbound', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        messages.clear();
+        mocks.findIdsByVerifiedPhoneNumber.mockResolvedValue(['user-1']);
+        mocks.findLatestLocation.mockResolvedValue({ latitude: -26.2041, longitude: 28.0473 });
+        mocks.triggerSos.mockResolvedValue({ success: true, data: { id: 'sos-1' } });
+    });
+
+    it('triggers an SOS at the position in the text, keyed by the provider message ID', async () => {
+        const result = await text('SOS -33.9249,18.4241');
+
+        expect(result).toEqual({ success: true, data: { id: 'inbound-1', status: 'processed' } });
+        expect(mocks.triggerSos).toHaveBeenCalledWith('user-1', {
+            latitude: -33.9249,
+            longitude: 18.4241,
+            idempotencyKey: 'sms:msg-1',
+        }, expect.objectContaining({ source: 'sms', sourceId: 'inbound-1' }));
+        expect(mocks.enqueue).toHaveBeenCalledWith([expect.objectContaining({
+            message: expect.objectContaining({ channel: 'sms', destination: FROM }),
+            dedupKey: 'sms-reply:inbound-1',
+        })]);
+        expect(reply()).toMatch(/SOS sent/);
+    });
+
+    it('falls back to the last reported location', async () => {
+        await text('sos');
+
+        expect(mocks.triggerSos).toHaveBeenCalledWith('user-1', expect.objectContaining({
+            latitude: -26.2041,
+            longitude: 28.0473,
+        }), expect.anything());
+    });
+
+    it('answers a redelivered text from the stored outcome without acting again', async () => {
+        await text('SOS');
+        const redelivered = await text('SOS');
+
+        expect(redelivered).toEqual({ success: true, data: { id: 'inbound-1', status: 'processed' } });
+        expect(mocks.triggerSos).toHaveBeenCalledTimes(1);
+        expect(mocks.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores texts from unknown numbers without replying', async () => {
+        mocks.findIdsByVerifiedPhoneNumber.mockResolvedValue([]);
+
+        const result = await text('SOS');
+
+        expect(result).toEqual({ success: true, data: { id: 'inbound-1', status: 'ignored' } });
+        expect(mocks.triggerSos).not.toHaveBeenCalled();
+        expect(mocks.enqueue).not.toHaveBeenCalled();
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+            action: 'SMS_COMMAND',
+            metadata: expect.objectContaining({ status: 'ignored', error: 'Unknown sender' }),
+        }));
+    });
+
+    it('ignores a number verified by more than one account', async () => {
+        mocks.findIdsByVerifiedPhoneNumber.mockResolvedValue(['user-1', 'user-2']);
+
+        const result = await text('SOS');
+
+        expect(result.success && result.data.status).toBe('ignored');
+        expect(mocks.triggerSos).not.toHaveBeenCalled();
+        expect(mocks.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('passes the PIN of a CANCEL on to the SOS service', async () => {
+        mocks.cancelSos.mockResolvedValue({ success: true, data: { id: 'sos-1' } });
+
+        await text('CANCEL 1234');
+
+        expect(mocks.cancelSos).toHaveBeenCalledWith('user-1', 'Cancelled by SMS', '1234', expect.anything());
+        expect(reply()).toMatch(/cancelled/);
+    });
+
+    it('tells the user an SOS is already running', async () => {
+        mocks.triggerSos.mockResolvedValue({ success: false, error: new SosAlreadyActiveError() });
+
+        const result = await text('SOS');
+
+        expect(result.success && result.data.status).toBe('rejected');
+        expect(reply()).toMatch(/already have an active SOS/);
+    });
+
+    it('replies with help to an unknown command', async () => {
+        const result = await text('hello');
+
+        expect(result.success && result.data.status).toBe('ignored');
+        expect(reply()).toMatch(/reply SOS/);
+    });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import type { Server as HttpServer } from 'http';
+import { generateAccessToken, generateRefreshToken } from '../../../src/middleware/auth.middleware.js';
+
+type Handler = (...args: any[]) => unknown;
+
+const io = vi.hoisted(() => ({
+    middlewares: [] as Handler[],
+    handlers: new Map<string, Handler>(),
+    roomEmits: [] as { room: string; event: string }[],
+    roomDisconnects: [] as { room: string; close: boolean }[],
+}));
+const sessions = vi.hoisted(() => ({ findByFamily: vi.fn() }));
+
+vi.mock('socket.io', () => ({
+    Server: class {
+        adapter() { }
+        use(middleware: Handler) {
+            io.middlewares.push(middleware);
+        }
+        on(event: string, handler: Handler) {
+            io.handlers.set(event, handler);
+        }
+        to(room: string) {
+            return { emit: (event: string) => io.roomEmits.push({ room, event }) };
+        }
+        in(room: string) {
+            return { disconnectSockets: (close: boolean) => io.roomDisconnects.push({ room, close }) };
+        }
+        of() {
+            return { sockets: new Map() };
+        }
+    },
+}));
+vi.mock('@socket.io/redis-adapter', () => ({
+    createAdapter: vi.fn(),
+}));
+vi.mock('../../../src/config/redis.js', () => ({
+    getRedis: () => null,
+    createRedisSubscriber: () => null,
+}));
+vi.mock('../../../src/repositories/session.repository.js', () => ({
+    sessionRepository: sessions,
+}));
+vi.mock('../../../src/services/presence.service.js', () => ({
+    PRESENCE_HEARTBEAT_MS: 30000,
+    presenceService: {
+        connect: async () => null,
+        disconnect: async () => null,
+        touch: async () => undefined,
+    },
+}));
+vi.mock('../../../src/services/contact.service.js', () => ({
+    contactService: { getContactsWithUser: async () => [] },
+}));
+vi.mock('../../../src/services/realtime-buffer.service.js', () => ({
+    realtimeBufferService: {},
+}));
+
+const { socketService } = await import('../../../src/services/socket.service.js');
+
+/**
+ * A connecting socket with the handshake a client would send
+ */
+const fakeSocket = (auth: Record<string, unknown> = {}) => {
+    const listeners = new Map<string, Handler>();
+    return {
+        id: 'socket-1',
+        handshake: { auth, headers: {} },
+        data: {} as Record<string, unknown>,
+        join: vi.fn(),
+        leave: vi.fn(),
+        emit: vi.fn(),
+        disconnect: vi.fn(),
+        on: (event: string, listener: Handler) => listeners.set(event, listener),
+        listeners,
+    };
+};
+
+/**
+ * Run the handshake middleware and hand back the error it passed to `next`, if any
+ */
+const handshake = async (socket: ReturnType<typeof fakeSocket>) => {
+    const next = vi.fn();
+    await io.middlewares[0](socket, next);
+    return next.mock.calls[0][0] as (Error & { data: { code: string } }) | undefined;
+};
+
+describe('socketService', () => {
+    beforeAll(() => {
+        socketService.initialize({} as HttpServer, '*');
+    });
+
+    afterAll(() => {
+        socketService.close();
+    });
+
+    beforeEach(() => {
+        sessions.findByFamily.mockResolvedValue({ family: 'family-1', revokedAt: null });
+        io.roomEmits.length = 0;
+        io.roomDisconnects.length = 0;
+    });
+
+    describe('handshake', () => {
+        it('accepts a valid access token and remembers its session', async () => {
+            const socket = fakeSocket({ token: generateAccessToken('user-1', 'user@example.com', 'family-1') });
+
+            expect(await handshake(socket)).toBeUndefined();
+            expect(socket.data).toMatchObject({ userId: 'user-1', sessionId: 'family-1' });
+        });
+
+        it('rejects a connection without a token', async () => {
+            const error = await handshake(fakeSocket());
+
+            expect(error?.data.code).toBe('AUTH_UNAUTHORIZED');
+        });
+
+        it('rejects a token whose session was signed out', async () => {
+            sessions.findByFamily.mockResolvedValue({ family: 'family-1', revokedAt: new Date() });
+            const socket = fakeSocket({ token: generateAccessToken('user-1', 'user@example.com', 'family-1') });
+
+            const error = await handshake(socket);
+
+            expect(error?.data.code).toBe('AUTH_UNAUTHORIZED');
+            expect(socket.data.userId).toBeUndefined();
+        });
+
+        it('rejects a refresh token', async () => {
+            const error = await handshake(fakeSocket({ token: generateRefreshToken('user-1', 'family-1') }));
+
+            expect(error?.data.code).toBe('AUTH_TOKEN_INVALID');
+        });
+    });
+
+    describe('auth:refresh', () => {
+        const connect = async () => {
+            const socket = fakeSocket({ token: generateAccessToken('user-1', 'user@example.com', 'family-1') });
+            await handshake(socket);
+            io.handlers.get('connection')!(socket);
+            return socket;
+        };
+
+        const refresh = async (socket: ReturnType<typeof fakeSocket>, token: string) => {
+            const ack = vi.fn();
+            await socket.listeners.get('auth:refresh')!(token, ack);
+            return ack.mock.calls[0][0];
+        };
+
+        it('keeps the socket open with a fresh token of the same user', async () => {
+            const socket = await connect();
+
+            const response = await refresh(socket, generateAccessToken('user-1', 'user@example.com', 'family-1'));
+
+            expect(response.success).toBe(true);
+            socket.listeners.get('disconnect')!();
+        });
+
+        it('refuses a token that belongs to another user', async () => {
+            const socket = await connect();
+
+            const response = await refresh(socket, generateAccessToken('user-2', 'other@example.com', 'family-2'));
+
+            expect(response).toEqual({ success: false, error: expect.objectContaining({ code: 'AUTH_TOKEN_INVALID' }) });
+            expect(socket.data).toMatchObject({ userId: 'user-1', sessionId: 'family-1' });
+            expect(socket.leave).not.toHaveBeenCalled();
+            socket.listeners.get('disconnect')!();
+        });
+    });
+
+    describe('disconnectSession', () => {
+        it('tells the session sockets they were revoked, then disconnects them', () => {
+            socketService.disconnectSession('family-1');
+
+            expect(io.roomEmits).toEqual([{ room: 'session:family-1', event: 'auth:revoked' }]);
+            expect(io.roomDisconnects).toEqual([{ room: 'session:family-1', close: true }]);
+        });
+    });
+});
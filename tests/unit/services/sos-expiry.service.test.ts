@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SosEvent } from '../../../src/repositories/sos.repository.js';
+
+const mocks = vi.hoisted(() => ({
+    findLiveTriggeredBefore: vi.fn(),
+    expire: vi.fn(),
+    findLatestLocation: vi.fn(),
+    createAudit: vi.fn(),
+    enqueueOutbox: vi.fn(),
+    revokeTokens: vi.fn(),
+    wake: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database.js', () => ({
+    runInTransaction: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+}));
+vi.mock('../../../src/repositories/sos.repository.js', () => ({
+    sosRepository: { findLiveTriggeredBefore: mocks.findLiveTriggeredBefore, expire: mocks.expire },
+}));
+vi.mock('../../../src/repositories/location.repository.js', () => ({
+    locationRepository: { findLatestByUserId: mocks.findLatestLocation },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/repositories/outbox.repository.js', () => ({
+    outboxRepository: { enqueue: mocks.enqueueOutbox },
+}));
+vi.mock('../../../src/services/sos-share.service.js', () => ({
+    sosShareService: { revokeTokens: mocks.revokeTokens },
+}));
+vi.mock('../../../src/services/sos-outbox.service.js', () => ({
+    sosOutboxService: { alertMessage: (alert: object) => ({ topic: 'sos.alert', payload: alert }) },
+}));
+vi.mock('../../../src/workers/outbox-relay.worker.js', () => ({
+    outboxRelay: { wake: mocks.wake },
+}));
+
+const { sosExpiryService } = await import('../../../src/services/sos-expiry.service.js');
+
+const stale = { id: 'sos-1', userId: 'user-1', status: 'active', triggeredAt: new Date(0) } as SosEvent;
+
+describe('sosExpiryService.expireStale', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.findLiveTriggeredBefore.mockResolvedValue([stale]);
+        mocks.findLatestLocation.mockResolvedValue(null);
+    });
+
+    it('expires a stale SOS and revokes its viewer tokens', async () => {
+        mocks.expire.mockResolvedValue({ ...stale, status: 'expired' });
+
+        const result = await sosExpiryService.expireStale();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(mocks.revokeTokens).toHaveBeenCalledWith('sos-1', {});
+        expect(mocks.enqueueOutbox).toHaveBeenCalledWith([
+            { topic: 'sos.alert', payload: expect.objectContaining({ type: 'end', status: 'expired' }) },
+        ], {});
+        expect(mocks.wake).toHaveBeenCalled();
+    });
+
+    it('skips an SOS that ended in the meantime', async () => {
+        mocks.expire.mockResolvedValue(null);
+
+        const result = await sosExpiryService.expireStale();
+
+        expect(result).toEqual({ success: true, data: 0 });
+        expect(mocks.revokeTokens).not.toHaveBeenCalled();
+        expect(mocks.wake).not.toHaveBeenCalled();
+    });
+});
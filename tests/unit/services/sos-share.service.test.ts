@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    SosNotActiveError,
+    TokenExpiredError,
+    TokenInvalidError,
+} from '../../../src/domain/errors/domain.errors.js';
+import type { SosEvent } from '../../../src/repositories/sos.repository.js';
+import type { SosShareToken } from '../../../src/repositories/sos-share-token.repository.js';
+
+const mocks = vi.hoisted(() => ({
+    findToken: vi.fn(),
+    findValidTokens: vi.fn(),
+    touch: vi.fn(),
+    revokeBySosEventId: vi.fn(),
+    findSos: vi.fn(),
+    findLatestLocation: vi.fn(),
+    findUser: vi.fn(),
+    createAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database.js', () => ({
+    prisma: {},
+}));
+vi.mock('../../../src/repositories/sos-share-token.repository.js', () => ({
+    sosShareTokenRepository: {
+        findById: mocks.findToken,
+        findValidBySosEventId: mocks.findValidTokens,
+        touch: mocks.touch,
+        revokeBySosEventId: mocks.revokeBySosEventId,
+    },
+}));
+vi.mock('../../../src/repositories/sos.repository.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../../src/repositories/sos.repository.js')>()),
+    sosRepository: { findById: mocks.findSos },
+}));
+vi.mock('../../../src/repositories/location.repository.js', () => ({
+    locationRepository: { findLatestByUserId: mocks.findLatestLocation },
+}));
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: { findById: mocks.findUser },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+
+const { sosShareService } = await import('../../../src/services/sos-share.service.js');
+
+const NOW = new Date();
+const CONTEXT = { ipAddress: '203.0.113.7', userAgent: 'viewer' };
+
+const shareToken = (overrides: Partial<SosShareToken> = {}): SosShareToken => ({
+    id: 'token-1',
+    sosEventId: 'sos-1',
+    contactId: 'contact-1',
+    expiresAt: new Date(NOW.getTime() + 60 * 60 * 1000),
+    revokedAt: null,
+    lastAccessedAt: null,
+    createdAt: NOW,
+    ...overrides,
+});
+
+const sosEvent = (overrides: Partial<SosEvent> = {}) => ({
+    id: 'sos-1',
+    userId: 'user-1',
+    status: 'active',
+    triggeredAt: new Date(NOW.getTime() - 60 * 1000),
+    latitude: -33.9249,
+    longitude: 18.4241,
+    acknowledgedAt: null,
+    ...overrides,
+}) as SosEvent;
+
+/**
+ * Sign a viewer token the way the contact's link carries it
+ */
+const signedToken = async (token: SosShareToken): Promise<string> => {
+    mocks.findValidTokens.mockResolvedValueOnce([token]);
+    const links = await sosShareService.getViewerLinks(token.sosEventId);
+    return links.get(token.contactId)!.split('/').pop()!;
+};
+
+const auditedAccess = () => mocks.createAudit.mock.calls.map(([entry]) => ({
+    action: entry.action,
+    resourceId: entry.resourceId,
+    reason: entry.metadata.reason,
+}));
+
+describe('sosShareService.viewSharedSos', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mocks.findToken.mockResolvedValue(shareToken());
+        mocks.findSos.mockResolvedValue(sosEvent());
+        mocks.findUser.mockResolvedValue({ id: 'user-1', name: 'Thandi' });
+        mocks.findLatestLocation.mockResolvedValue(null);
+    });
+
+    it('looks the token up by its jti and serves the SOS', async () => {
+        const token = await signedToken(shareToken());
+
+        const result = await sosShareService.viewSharedSos(token, CONTEXT);
+
+        expect(result.success && result.data).toMatchObject({
+            sosEventId: 'sos-1',
+            status: 'active',
+            name: 'Thandi',
+            location: { latitude: -33.9249, longitude: 18.4241 },
+        });
+        expect(mocks.findToken).toHaveBeenCalledWith('token-1');
+        expect(mocks.touch).toHaveBeenCalledWith('token-1');
+        expect(auditedAccess()).toEqual([{ action: 'SOS_SHARE_ACCESSED', resourceId: 'token-1', reason: undefined }]);
+    });
+
+    it('denies a token revoked when the SOS ended', async () => {
+        const token = await signedToken(shareToken());
+        mocks.findToken.mockResolvedValue(shareToken({ revokedAt: NOW }));
+
+        const result = await sosShareService.viewSharedSos(token, CONTEXT);
+
+        expect(!result.success && result.error).toBeInstanceOf(SosNotActiveError);
+        expect(mocks.touch).not.toHaveBeenCalled();
+        expect(auditedAccess()).toEqual([{ action: 'SOS_SHARE_DENIED', resourceId: 'token-1', reason: 'sos_ended' }]);
+    });
+
+    it.each(['cancelled', 'resolved', 'expired'])('denies access once the SOS is %s', async (status) => {
+        const token = await signedToken(shareToken());
+        mocks.findSos.mockResolvedValue(sosEvent({ status }));
+
+        const result = await sosShareService.viewSharedSos(token, CONTEXT);
+
+        expect(!result.success && result.error).toBeInstanceOf(SosNotActiveError);
+        expect(auditedAccess()).toEqual([{ action: 'SOS_SHARE_DENIED', resourceId: 'token-1', reason: 'sos_ended' }]);
+    });
+
+    it('rejects an expired token without looking it up', async () => {
+        const token = await signedToken(shareToken({ expiresAt: new Date(NOW.getTime() - 1000) }));
+
+        const result = await sosShareService.viewSharedSos(token, CONTEXT);
+
+        expect(!result.success && result.error).toBeInstanceOf(TokenExpiredError);
+        expect(mocks.findToken).not.toHaveBeenCalled();
+        expect(auditedAccess()).toEqual([{ action: 'SOS_SHARE_DENIED', resourceId: undefined, reason: 'expired' }]);
+    });
+
+    it('rejects a token signed for another SOS', async () => {
+        const token = await signedToken(shareToken({ sosEventId: 'sos-2' }));
+
+        const result = await sosShareService.viewSharedSos(token, CONTEXT);
+
+        expect(!result.success && result.error).toBeInstanceOf(TokenInvalidError);
+        expect(auditedAccess()).toEqual([{ action: 'SOS_SHARE_DENIED', resourceId: undefined, reason: 'invalid' }]);
+    });
+
+    it('audits a malformed token with the caller details', async () => {
+        const result = await sosShareService.viewSharedSos('not-a-token', CONTEXT);
+
+        expect(!result.success && result.error).toBeInstanceOf(TokenInvalidError);
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+            action: 'SOS_SHARE_DENIED',
+            ipAddress: '203.0.113.7',
+            userAgent: 'viewer',
+            metadata: expect.objectContaining({ reason: 'invalid' }),
+        }));
+    });
+});
+
+describe('sosShareService.revokeTokens', () => {
+    it('revokes every token of the SOS within the caller transaction', async () => {
+        const tx = {} as never;
+        mocks.revokeBySosEventId.mockResolvedValue(2);
+
+        expect(await sosShareService.revokeTokens('sos-1', tx)).toBe(2);
+        expect(mocks.revokeBySosEventId).toHaveBeenCalledWith('sos-1', tx);
+    });
+});
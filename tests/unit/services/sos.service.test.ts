@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    ForbiddenError,
+    SosAlreadyActiveError,
+    SosNotActiveError,
+} from '../../../src/domain/errors/domain.errors.js';
+import type { SosEvent } from '../../../src/repositories/sos.repository.js';
+
+const mocks = vi.hoisted(() => ({
+    sos: {
+        findByIdempotencyKey: vi.fn(),
+        findArmedByUserId: vi.fn(),
+        findLiveByUserId: vi.fn(),
+        findActiveByUserId: vi.fn(),
+        findArmedDue: vi.fn(),
+        findById: vi.fn(),
+        findAllByUserId: vi.fn(),
+        create: vi.fn(),
+        activate: vi.fn(),
+        disarm: vi.fn(),
+        cancel: vi.fn(),
+        markDuress: vi.fn(),
+        resolveByCircle: vi.fn(),
+    },
+    createAudit: vi.fn(),
+    enqueueOutbox: vi.fn(),
+    getPrimaryContacts: vi.fn(),
+    getContactsWithUser: vi.fn(),
+    issueTokens: vi.fn(),
+    revokeTokens: vi.fn(),
+    isDuressPin: vi.fn(),
+    wake: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database.js', () => ({
+    runInTransaction: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+}));
+vi.mock('../../../src/repositories/sos.repository.js', () => ({
+    sosRepository: mocks.sos,
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: mocks.createAudit },
+}));
+vi.mock('../../../src/repositories/outbox.repository.js', () => ({
+    outboxRepository: { enqueue: mocks.enqueueOutbox },
+}));
+vi.mock('../../../src/repositories/location.repository.js', () => ({
+    locationRepository: {},
+}));
+vi.mock('../../../src/repositories/session.repository.js', () => ({
+    sessionRepository: { findByFamilies: async () => [] },
+}));
+vi.mock('../../../src/services/contact.service.js', () => ({
+    contactService: { getPrimaryContacts: mocks.getPrimaryContacts, getContactsWithUser: mocks.getContactsWithUser },
+}));
+vi.mock('../../../src/services/sos-share.service.js', () => ({
+    sosShareService: { issueTokens: mocks.issueTokens, revokeTokens: mocks.revokeTokens },
+}));
+vi.mock('../../../src/services/user.service.js', () => ({
+    userService: { isDuressPin: mocks.isDuressPin },
+}));
+vi.mock('../../../src/workers/outbox-relay.worker.js', () => ({
+    outboxRelay: { wake: mocks.wake },
+}));
+vi.mock('../../../src/services/sos-outbox.service.js', () => ({
+    sosOutboxService: {
+        notifyContactsMessage: (sosEventId: string) => ({ topic: 'sos.notify_contacts', payload: { sosEventId } }),
+        alertMessage: (alert: object) => ({ topic: 'sos.alert', payload: alert }),
+        duressMessage: (escalation: object) => ({ topic: 'sos.escalated', payload: { ...escalation, duress: true } }),
+    },
+}));
+
+const { sosService } = await import('../../../src/services/sos.service.js');
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const sosEvent = (overrides: Partial<SosEvent> = {}): SosEvent => ({
+    id: 'sos-1',
+    userId: 'user-1',
+    triggeredAt: NOW,
+    cancelledAt: null,
+    resolvedAt: null,
+    expiredAt: null,
+    armedUntil: null,
+    latitude: -33.9249,
+    longitude: 18.4241,
+    status: 'active',
+    notifiedContacts: [{ id: 'contact-1', name: 'Sipho', phoneNumber: '+27825550100', contactUserId: 'user-2' }],
+    auditLog: [{ action: 'TRIGGERED', timestamp: NOW.toISOString() }],
+    idempotencyKey: null,
+    escalationLevel: 0,
+    lastEscalatedAt: null,
+    acknowledgedAt: null,
+    sessionId: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+});
+
+const duressEvent = () => sosEvent({
+    status: 'duress',
+    cancelledAt: NOW,
+    auditLog: [
+        { action: 'TRIGGERED', timestamp: NOW.toISOString() },
+        { action: 'DURESS_CANCEL', timestamp: NOW.toISOString() },
+        { action: 'ESCALATED', level: 1, timestamp: NOW.toISOString() },
+    ],
+});
+
+/**
+ * Topics of every outbox message enqueued so far
+ */
+const enqueuedTopics = () =>
+    mocks.enqueueOutbox.mock.calls.flatMap(([messages]) => (messages as { topic: string }[]).map((m) => m.topic));
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.sos.findByIdempotencyKey.mockResolvedValue(null);
+    mocks.sos.findArmedByUserId.mockResolvedValue(null);
+    mocks.sos.findLiveByUserId.mockResolvedValue(null);
+    mocks.sos.findActiveByUserId.mockResolvedValue(null);
+    mocks.getPrimaryContacts.mockResolvedValue([]);
+    mocks.isDuressPin.mockResolvedValue(false);
+});
+
+describe('sosService duress', () => {
+    it('keeps the SOS live when cancelled with the duress PIN, while looking cancelled to the user', async () => {
+        mocks.sos.findActiveByUserId.mockResolvedValue(sosEvent());
+        mocks.sos.markDuress.mockResolvedValue(duressEvent());
+        mocks.isDuressPin.mockResolvedValue(true);
+
+        const result = await sosService.cancelSos('user-1', 'False alarm', '9999', {});
+
+        expect(mocks.sos.markDuress).toHaveBeenCalledWith('sos-1', 'False alarm', {});
+        expect(mocks.sos.cancel).not.toHaveBeenCalled();
+        expect(mocks.revokeTokens).not.toHaveBeenCalled();
+        expect(enqueuedTopics()).toEqual(['sos.escalated']);
+        expect(mocks.wake).toHaveBeenCalled();
+
+        // The owner's view stops at the cancel
+        expect(result.success && result.data.status).toBe('cancelled');
+        expect(result.success && result.data.auditLog).toEqual([
+            { action: 'TRIGGERED', timestamp: NOW.toISOString() },
+            { action: 'CANCELLED', timestamp: NOW.toISOString() },
+        ]);
+    });
+
+    it('cancels normally with any other PIN', async () => {
+        mocks.sos.findActiveByUserId.mockResolvedValue(sosEvent());
+        mocks.sos.cancel.mockResolvedValue(sosEvent({ status: 'cancelled', cancelledAt: NOW }));
+
+        const result = await sosService.cancelSos('user-1', undefined, '1234', {});
+
+        expect(result.success && result.data.status).toBe('cancelled');
+        expect(mocks.sos.cancel).toHaveBeenCalledWith('sos-1', undefined, {});
+        expect(mocks.sos.markDuress).not.toHaveBeenCalled();
+        expect(mocks.revokeTokens).toHaveBeenCalledWith('sos-1', {});
+        expect(enqueuedTopics()).toEqual(['sos.alert']);
+    });
+
+    it('starts a new SOS while a duress SOS is live, as it would after a real cancel', async () => {
+        mocks.sos.findLiveByUserId.mockResolvedValue(duressEvent());
+        mocks.sos.create.mockImplementation(async (input: Partial<SosEvent>) => sosEvent({ ...input, id: 'sos-2' }));
+
+        const result = await sosService.triggerSos('user-1', { latitude: 1, longitude: 2 }, {});
+
+        expect(result.success && result.data.id).toBe('sos-2');
+        expect(enqueuedTopics()).toEqual(['sos.notify_contacts', 'sos.alert']);
+    });
+
+    it('still refuses a second SOS while one is active', async () => {
+        mocks.sos.findActiveByUserId.mockResolvedValue(sosEvent());
+
+        const result = await sosService.triggerSos('user-1', { latitude: 1, longitude: 2 }, {});
+
+        expect(!result.success && result.error).toBeInstanceOf(SosAlreadyActiveError);
+        expect(mocks.sos.create).not.toHaveBeenCalled();
+    });
+
+    it('reports no active SOS and refuses cancel and resolve by the owner while under duress', async () => {
+        mocks.sos.findLiveByUserId.mockResolvedValue(duressEvent());
+
+        expect(await sosService.getActiveSos('user-1')).toEqual({ success: true, data: null });
+
+        const cancelled = await sosService.cancelSos('user-1', undefined, undefined, {});
+        expect(!cancelled.success && cancelled.error).toBeInstanceOf(SosNotActiveError);
+
+        const resolved = await sosService.resolveSos('user-1', {});
+        expect(!resolved.success && resolved.error).toBeInstanceOf(SosNotActiveError);
+    });
+
+    it('keeps showing a duress SOS as cancelled in the history after the circle resolved it', async () => {
+        mocks.sos.findAllByUserId.mockResolvedValue([{
+            ...duressEvent(),
+            status: 'resolved',
+            resolvedAt: NOW,
+            auditLog: [...duressEvent().auditLog as object[], { action: 'RESOLVED', userId: 'user-2' }],
+        }]);
+
+        const result = await sosService.getSosHistory('user-1');
+
+        const [entry] = result.success ? result.data : [];
+        expect(entry.status).toBe('cancelled');
+        expect(entry.resolvedAt).toBeNull();
+        expect((entry.auditLog as { action: string }[]).map((e) => e.action)).toEqual(['TRIGGERED', 'CANCELLED']);
+    });
+
+    it('answers an idempotent retry of a duress SOS as cancelled', async () => {
+        mocks.sos.findByIdempotencyKey.mockResolvedValue(duressEvent());
+
+        const result = await sosService.triggerSos('user-1', { latitude: 1, longitude: 2, idempotencyKey: 'key-1' }, {});
+
+        expect(result.success && result.data.status).toBe('cancelled');
+        expect(mocks.sos.create).not.toHaveBeenCalled();
+    });
+});
+
+describe('sosService armed countdown', () => {
+    const armedEvent = () => sosEvent({ status: 'armed', armedUntil: new Date(NOW.getTime() + 10000) });
+
+    it('arms an SOS without alerting anyone', async () => {
+        mocks.sos.create.mockImplementation(async (input: Partial<SosEvent>) => sosEvent({ ...input, status: 'armed' }));
+
+        const result = await sosService.triggerSos('user-1', { latitude: 1, longitude: 2, countdownSeconds: 10 }, {});
+
+        expect(result.success && result.data.status).toBe('armed');
+        const input = mocks.sos.create.mock.calls[0][0] as { triggeredAt: Date; armedUntil: Date };
+        expect(input.armedUntil.getTime() - input.triggeredAt.getTime()).toBe(10000);
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'SOS_ARMED' }), {});
+        expect(mocks.enqueueOutbox).not.toHaveBeenCalled();
+        expect(mocks.issueTokens).not.toHaveBeenCalled();
+        expect(mocks.wake).not.toHaveBeenCalled();
+    });
+
+    it('sends the alert right away when SOS is pressed again during the countdown', async () => {
+        mocks.sos.findArmedByUserId.mockResolvedValue(armedEvent());
+        mocks.sos.activate.mockResolvedValue(sosEvent());
+
+        const result = await sosService.triggerSos('user-1', { latitude: 1, longitude: 2 }, {});
+
+        expect(result.success && result.data.status).toBe('active');
+        expect(mocks.sos.activate).toHaveBeenCalledWith('sos-1', {});
+        expect(mocks.sos.create).not.toHaveBeenCalled();
+        expect(enqueuedTopics()).toEqual(['sos.notify_contacts', 'sos.alert']);
+        expect(mocks.wake).toHaveBeenCalled();
+    });
+
+    it('does not restart a countdown that is running', async () => {
+        mocks.sos.findArmedByUserId.mockResolvedValue(armedEvent());
+
+        const result = await sosService.triggerSos('user-1', { latitude: 1, longitude: 2, countdownSeconds: 10 }, {});
+
+        expect(!result.success && result.error).toBeInstanceOf(SosAlreadyActiveError);
+        expect(mocks.sos.activate).not.toHaveBeenCalled();
+    });
+
+    it('closes the SOS quietly when cancelled during the countdown', async () => {
+        mocks.sos.findArmedByUserId.mockResolvedValue(armedEvent());
+        mocks.sos.disarm.mockResolvedValue(sosEvent({ status: 'cancelled', cancelledAt: NOW }));
+
+        const result = await sosService.cancelSos('user-1', 'Pressed by mistake', undefined, {});
+
+        expect(result.success && result.data.status).toBe('cancelled');
+        expect(mocks.sos.disarm).toHaveBeenCalledWith('sos-1', 'Pressed by mistake', {});
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+            action: 'SOS_CANCELLED',
+            metadata: { reason: 'Pressed by mistake', duringCountdown: true },
+        }), {});
+        expect(mocks.enqueueOutbox).not.toHaveBeenCalled();
+    });
+
+    it('cancels the active SOS when the countdown elapsed before the cancel', async () => {
+        mocks.sos.findArmedByUserId.mockResolvedValue(armedEvent());
+        mocks.sos.disarm.mockResolvedValue(null);
+        mocks.sos.findActiveByUserId.mockResolvedValue(sosEvent());
+        mocks.sos.cancel.mockResolvedValue(sosEvent({ status: 'cancelled', cancelledAt: NOW }));
+
+        const result = await sosService.cancelSos('user-1', undefined, undefined, {});
+
+        expect(result.success && result.data.status).toBe('cancelled');
+        expect(mocks.sos.cancel).toHaveBeenCalledWith('sos-1', undefined, {});
+        expect(enqueuedTopics()).toEqual(['sos.alert']);
+    });
+
+    it('alerts the circle and escalates silently when the countdown is cancelled with the duress PIN', async () => {
+        mocks.sos.findArmedByUserId.mockResolvedValue(armedEvent());
+        mocks.sos.activate.mockResolvedValue(sosEvent());
+        mocks.sos.markDuress.mockResolvedValue(duressEvent());
+        mocks.isDuressPin.mockResolvedValue(true);
+
+        const result = await sosService.cancelSos('user-1', undefined, '9999', {});
+
+        expect(result.success && result.data.status).toBe('cancelled');
+        expect(mocks.sos.disarm).not.toHaveBeenCalled();
+        expect(mocks.sos.activate).toHaveBeenCalledWith('sos-1', {});
+        expect(mocks.sos.markDuress).toHaveBeenCalledWith('sos-1', undefined, {});
+        expect(enqueuedTopics()).toEqual(['sos.notify_contacts', 'sos.alert', 'sos.escalated']);
+    });
+
+    it('activates due countdowns that were not cancelled in the meantime', async () => {
+        mocks.sos.findArmedDue.mockResolvedValue([armedEvent(), sosEvent({ id: 'sos-2', status: 'armed' })]);
+        mocks.sos.activate.mockImplementation(async (id: string) => (id === 'sos-1' ? sosEvent() : null));
+
+        const result = await sosService.activateDueArmed();
+
+        expect(result).toEqual({ success: true, data: 1 });
+        expect(mocks.sos.activate).toHaveBeenCalledTimes(2);
+        expect(enqueuedTopics()).toEqual(['sos.notify_contacts', 'sos.alert']);
+    });
+});
+
+describe('sosService.resolveCircleSos', () => {
+    beforeEach(() => {
+        mocks.sos.findById.mockResolvedValue(duressEvent());
+        mocks.getContactsWithUser.mockResolvedValue([{ id: 'contact-1', contactUserId: 'user-2', status: 'accepted' }]);
+        mocks.sos.resolveByCircle.mockResolvedValue({ ...duressEvent(), status: 'resolved', resolvedAt: NOW });
+    });
+
+    it('lets a circle member end a duress SOS', async () => {
+        const result = await sosService.resolveCircleSos('user-2', 'sos-1', {});
+
+        expect(result.success && result.data.status).toBe('resolved');
+        expect(mocks.sos.resolveByCircle).toHaveBeenCalledWith('sos-1', { userId: 'user-2', contactId: 'contact-1' }, {});
+        expect(mocks.revokeTokens).toHaveBeenCalledWith('sos-1', {});
+        expect(mocks.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+            userId: 'user-2',
+            action: 'SOS_RESOLVED',
+            metadata: { ownerId: 'user-1', byCircle: true, wasDuress: true },
+        }), {});
+        expect(enqueuedTopics()).toEqual(['sos.alert']);
+    });
+
+    it('refuses users outside the circle', async () => {
+        const result = await sosService.resolveCircleSos('user-3', 'sos-1', {});
+
+        expect(!result.success && result.error).toBeInstanceOf(ForbiddenError);
+        expect(mocks.sos.resolveByCircle).not.toHaveBeenCalled();
+    });
+
+    it('refuses an SOS that has already ended', async () => {
+        mocks.sos.resolveByCircle.mockResolvedValue(null);
+
+        const result = await sosService.resolveCircleSos('user-2', 'sos-1', {});
+
+        expect(!result.success && result.error).toBeInstanceOf(SosNotActiveError);
+        expect(mocks.enqueueOutbox).not.toHaveBeenCalled();
+        expect(mocks.wake).not.toHaveBeenCalled();
+    });
+});
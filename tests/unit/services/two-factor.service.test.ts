@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    TwoFactorChallengeInvalidError,
+    TwoFactorCodeInvalidError,
+} from '../../../src/domain/errors/domain.errors.js';
+import { config } from '../../../src/config/index.js';
+import { encrypt } from '../../../src/utils/encryption.js';
+
+// In-memory stand-ins for the rows the repositories guard with conditional updates
+const state = vi.hoisted(() => ({
+    user: {
+        totpSecret: null as string | null,
+        totpEnabledAt: null as Date | null,
+        totpLastUsedStep: null as number | null,
+    },
+    recoveryCodeHashes: new Set<string>(),
+    challenges: new Map<string, { id: string; userId: string; tokenHash: string; attempts: number; usedAt: Date | null }>(),
+    totpSteps: new Map<string, number>(), // Codes the authenticator app would show -> their time step
+}));
+const createAudit = vi.hoisted(() => vi.fn());
+
+vi.mock('../../../src/config/database.js', () => ({
+    runInTransaction: (fn: (tx: unknown) => Promise<unknown>) => fn({}),
+}));
+vi.mock('../../../src/utils/totp.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../../src/utils/totp.js')>()),
+    matchTotpStep: (_secret: string, code: string) => state.totpSteps.get(code) ?? null,
+}));
+vi.mock('../../../src/repositories/user.repository.js', () => ({
+    userRepository: {
+        findTwoFactorState: async () => ({ ...state.user }),
+        enableTwoFactor: async (_id: string, step: number) => {
+            if (state.user.totpEnabledAt) return false;
+            state.user.totpEnabledAt = new Date();
+            state.user.totpLastUsedStep = step;
+            return true;
+        },
+        recordTotpStep: async (_id: string, step: number) => {
+            if (state.user.totpLastUsedStep !== null && state.user.totpLastUsedStep >= step) return false;
+            state.user.totpLastUsedStep = step;
+            return true;
+        },
+    },
+}));
+vi.mock('../../../src/repositories/recovery-code.repository.js', () => ({
+    recoveryCodeRepository: {
+        replaceForUser: async (_userId: string, hashes: string[]) => {
+            state.recoveryCodeHashes = new Set(hashes);
+        },
+        consume: async (_userId: string, hash: string) => state.recoveryCodeHashes.delete(hash),
+    },
+}));
+vi.mock('../../../src/repositories/verification-token.repository.js', () => ({
+    verificationTokenRepository: {
+        create: async (data: { userId: string; tokenHash: string }) => {
+            const id = `challenge-${state.challenges.size + 1}`;
+            state.challenges.set(id, { id, userId: data.userId, tokenHash: data.tokenHash, attempts: 0, usedAt: null });
+        },
+        findValidByHash: async (tokenHash: string) =>
+            [...state.challenges.values()].find((c) => c.tokenHash === tokenHash && !c.usedAt) ?? null,
+        recordAttempt: async (id: string, maxAttempts: number) => {
+            const challenge = state.challenges.get(id)!;
+            if (challenge.usedAt || challenge.attempts >= maxAttempts) return false;
+            challenge.attempts++;
+            return true;
+        },
+        markUsed: async (id: string) => {
+            const challenge = state.challenges.get(id)!;
+            if (challenge.usedAt) return false;
+            challenge.usedAt = new Date();
+            return true;
+        },
+    },
+}));
+vi.mock('../../../src/repositories/audit.repository.js', () => ({
+    auditRepository: { create: createAudit },
+}));
+
+const { twoFactorService } = await import('../../../src/services/two-factor.service.js');
+
+const auditedActions = () => createAudit.mock.calls.map(([entry]) => entry.action);
+
+/**
+ * Sign in with a code: open a login challenge and redeem it
+ */
+const login = async (code: string) => {
+    const { challengeToken } = await twoFactorService.createChallenge('user-1');
+    return twoFactorService.redeemChallenge(challengeToken, code, {});
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    state.user = {
+        totpSecret: encrypt('JBSWY3DPEHPK3PXP', config.twoFactor.encryptionKey),
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: 100,
+    };
+    state.recoveryCodeHashes = new Set();
+    state.challenges.clear();
+    state.totpSteps = new Map([['111111', 101], ['222222', 102], ['999999', 99]]);
+});
+
+describe('twoFactorService TOTP codes', () => {
+    it('accepts a code once', async () => {
+        expect(await login('111111')).toEqual({ success: true, data: 'user-1' });
+
+        const replayed = await login('111111');
+
+        expect(!replayed.success && replayed.error).toBeInstanceOf(TwoFactorCodeInvalidError);
+        expect(auditedActions()).toEqual(['TWO_FACTOR_VERIFICATION_FAILED']);
+    });
+
+    it('rejects a code older than the last one used', async () => {
+        const result = await login('999999');
+
+        expect(!result.success && result.error).toBeInstanceOf(TwoFactorCodeInvalidError);
+        expect((await login('222222')).success).toBe(true);
+    });
+});
+
+describe('twoFactorService.redeemChallenge', () => {
+    it('stops accepting codes after the attempt limit, even a correct one', async () => {
+        const { challengeToken } = await twoFactorService.createChallenge('user-1');
+
+        for (let attempt = 0; attempt < config.twoFactor.maxAttempts; attempt++) {
+            const wrong = await twoFactorService.redeemChallenge(challengeToken, '000000', {});
+            expect(!wrong.success && wrong.error).toBeInstanceOf(TwoFactorCodeInvalidError);
+        }
+
+        const result = await twoFactorService.redeemChallenge(challengeToken, '111111', {});
+
+        expect(!result.success && result.error).toBeInstanceOf(TwoFactorChallengeInvalidError);
+        expect(state.user.totpLastUsedStep).toBe(100);
+        expect(state.challenges.get('challenge-1')!.usedAt).not.toBeNull();
+    });
+
+    it('cannot be redeemed twice', async () => {
+        const { challengeToken } = await twoFactorService.createChallenge('user-1');
+
+        expect((await twoFactorService.redeemChallenge(challengeToken, '111111', {})).success).toBe(true);
+        const again = await twoFactorService.redeemChallenge(challengeToken, '222222', {});
+
+        expect(!again.success && again.error).toBeInstanceOf(TwoFactorChallengeInvalidError);
+    });
+});
+
+describe('twoFactorService recovery codes', () => {
+    const enrol = async () => {
+        state.user = { ...state.user, totpEnabledAt: null, totpLastUsedStep: null };
+        const confirmed = await twoFactorService.confirm('user-1', '111111', {});
+        if (!confirmed.success) throw confirmed.error;
+        return confirmed.data.recoveryCodes;
+    };
+
+    it('issues ten distinct codes when two-factor authentication is confirmed', async () => {
+        const codes = await enrol();
+
+        expect(codes).toHaveLength(10);
+        expect(new Set(codes).size).toBe(10);
+        codes.forEach((code) => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+    });
+
+    it('accepts each code once, in any case and with or without its separator', async () => {
+        const [first, second] = await enrol();
+
+        expect((await login(first.toUpperCase())).success).toBe(true);
+        expect((await login(second.replace('-', ''))).success).toBe(true);
+
+        const reused = await login(first);
+
+        expect(!reused.success && reused.error).toBeInstanceOf(TwoFactorCodeInvalidError);
+        expect(auditedActions()).toEqual([
+            'TWO_FACTOR_ENABLED',
+            'TWO_FACTOR_RECOVERY_CODE_USED',
+            'TWO_FACTOR_RECOVERY_CODE_USED',
+            'TWO_FACTOR_VERIFICATION_FAILED',
+        ]);
+    });
+});
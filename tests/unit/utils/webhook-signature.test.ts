@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { signWebhookPayload, verifyWebhookSignature } from '../../../src/utils/webhook-signature.js';
+
+const SECRET = 'test-webhook-secret-at-least-32-characters';
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+const TIMESTAMP = NOW / 1000;
+const BODY = Buffer.from(JSON.stringify({ messageId: 'msg-1', from: '+27825550100', body: 'SOS' }));
+
+const verify = (timestamp: string | undefined, signature: string | undefined, body = BODY, now = NOW) =>
+    verifyWebhookSignature(SECRET, timestamp, signature, body, 300, now);
+
+describe('signWebhookPayload', () => {
+    it('is the hex HMAC-SHA256 of "<timestamp>.<raw body>"', () => {
+        const expected = createHmac('sha256', SECRET).update(`${TIMESTAMP}.${BODY.toString()}`).digest('hex');
+
+        expect(signWebhookPayload(SECRET, TIMESTAMP, BODY)).toBe(expected);
+        expect(signWebhookPayload(SECRET, TIMESTAMP, BODY.toString())).toBe(expected);
+    });
+});
+
+describe('verifyWebhookSignature', () => {
+    const signature = signWebhookPayload(SECRET, TIMESTAMP, BODY);
+
+    it('accepts a valid signature, with or without the sha256= prefix', () => {
+        expect(verify(String(TIMESTAMP), signature)).toBe(true);
+        expect(verify(String(TIMESTAMP), `sha256=${signature}`)).toBe(true);
+    });
+
+    it('rejects a tampered body', () => {
+        const tampered = Buffer.from(BODY.toString().replace('SOS', 'SAFE'));
+
+        expect(verify(String(TIMESTAMP), signature, tampered)).toBe(false);
+    });
+
+    it('rejects a signature made with another secret', () => {
+        const forged = signWebhookPayload('another-secret-that-is-also-32-characters', TIMESTAMP, BODY);
+
+        expect(verify(String(TIMESTAMP), forged)).toBe(false);
+    });
+
+    it('rejects a signature for another timestamp', () => {
+        expect(verify(String(TIMESTAMP + 1), signature)).toBe(false);
+    });
+
+    it('only accepts timestamps within the tolerance', () => {
+        const at = (offsetSeconds: number) => {
+            const timestamp = TIMESTAMP + offsetSeconds;
+            return verify(String(timestamp), signWebhookPayload(SECRET, timestamp, BODY));
+        };
+
+        expect(at(-300)).toBe(true);
+        expect(at(300)).toBe(true);
+        expect(at(-301)).toBe(false);
+        expect(at(301)).toBe(false);
+    });
+
+    it('rejects missing or malformed headers', () => {
+        expect(verify(undefined, signature)).toBe(false);
+        expect(verify(String(TIMESTAMP), undefined)).toBe(false);
+        expect(verify(`${TIMESTAMP}.5`, signature)).toBe(false);
+        expect(verify(String(TIMESTAMP), 'not-hex')).toBe(false);
+        expect(verify(String(TIMESTAMP), signature.slice(0, 32))).toBe(false);
+    });
+});